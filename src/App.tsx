@@ -5,16 +5,25 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import UpdatePrompt from "@/components/UpdatePrompt";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Profile from "./pages/Profile";
+import ClaimProfile from "./pages/ClaimProfile";
 import Teams from "./pages/Teams";
 import TeamDetail from "./pages/TeamDetail";
+import JoinTeam from "./pages/JoinTeam";
 import Matches from "./pages/Matches";
 import MatchDetail from "./pages/MatchDetail";
+import Tournaments from "./pages/Tournaments";
+import TournamentDetail from "./pages/TournamentDetail";
+import Leaderboards from "./pages/Leaderboards";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// Cached data is reused for a minute before pages fetch it again
+const queryClient = new QueryClient({
+  defaultOptions: { queries: { staleTime: 60 * 1000 } }
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -22,15 +31,21 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <UpdatePrompt />
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/profile" element={<Profile />} />
+            <Route path="/claim/:code" element={<ClaimProfile />} />
             <Route path="/teams" element={<Teams />} />
             <Route path="/teams/:teamId" element={<TeamDetail />} />
+            <Route path="/join/:token" element={<JoinTeam />} />
             <Route path="/matches" element={<Matches />} />
             <Route path="/matches/:matchId" element={<MatchDetail />} />
+            <Route path="/tournaments" element={<Tournaments />} />
+            <Route path="/tournaments/:tournamentId" element={<TournamentDetail />} />
+            <Route path="/leaderboards" element={<Leaderboards />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
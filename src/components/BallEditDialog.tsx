@@ -0,0 +1,343 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Trash2 } from 'lucide-react';
+import { formatOverDisplay } from '@/utils/overManagement';
+
+interface Player {
+  id: string;
+  name: string;
+}
+
+interface MatchPlayer {
+  player_id: string;
+  player: Player;
+}
+
+export interface EditableBall {
+  id?: string;
+  inning: number;
+  over_number: number;
+  ball_number: number;
+  batsman_id: string;
+  bowler_id: string;
+  runs: number;
+  extras_type?: string | null;
+  extras_runs?: number | null;
+  wicket_type?: string | null;
+  wicket_batsman_id?: string | null;
+  wicket_fielder_id?: string | null;
+  run_out_end?: string | null;
+}
+
+export interface BallEdit {
+  id: string;
+  action: 'edit' | 'delete';
+  reason: string | null;
+  edited_by_name: string;
+  created_at: string;
+}
+
+interface BallEditDialogProps {
+  ball: EditableBall | null;
+  battingPlayers: MatchPlayer[];
+  bowlingPlayers: MatchPlayer[];
+  history: BallEdit[];
+  saving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (updated: EditableBall, reason: string) => void;
+  onDelete: (reason: string) => void;
+}
+
+const EXTRAS = [
+  { type: 'wide', label: 'Wide' },
+  { type: 'no_ball', label: 'No Ball' },
+  { type: 'bye', label: 'Bye' },
+  { type: 'leg_bye', label: 'Leg Bye' }
+];
+
+const WICKETS = [
+  { type: 'bowled', label: 'Bowled' },
+  { type: 'caught', label: 'Caught' },
+  { type: 'lbw', label: 'LBW' },
+  { type: 'run_out', label: 'Run Out' },
+  { type: 'stumped', label: 'Stumped' },
+  { type: 'hit_wicket', label: 'Hit Wicket' }
+];
+
+const FIELDER_WICKETS = ['caught', 'stumped', 'run_out'];
+
+const BallEditDialog: React.FC<BallEditDialogProps> = ({
+  ball,
+  battingPlayers,
+  bowlingPlayers,
+  history,
+  saving,
+  onOpenChange,
+  onSave,
+  onDelete
+}) => {
+  const [form, setForm] = useState<EditableBall | null>(ball);
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setForm(ball);
+    setReason('');
+  }, [ball]);
+
+  if (!ball || !form) return null;
+
+  // Only a run out can come with runs or extras
+  const invalidWicket = !!form.wicket_type && form.wicket_type !== 'run_out' && (form.runs > 0 || !!form.extras_type);
+
+  return (
+    <Dialog open={!!ball} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Ball {formatOverDisplay(ball.over_number, ball.ball_number)}</DialogTitle>
+          <DialogDescription>
+            Innings {ball.inning}. Scores and positions are recalculated from the corrected balls.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Batsman</Label>
+              <Select value={form.batsman_id} onValueChange={(value) => setForm(prev => prev && { ...prev, batsman_id: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {battingPlayers.map(p => (
+                    <SelectItem key={p.player_id} value={p.player_id}>{p.player.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Bowler</Label>
+              <Select value={form.bowler_id} onValueChange={(value) => setForm(prev => prev && { ...prev, bowler_id: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {bowlingPlayers.map(p => (
+                    <SelectItem key={p.player_id} value={p.player_id}>{p.player.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-runs">Runs off the bat</Label>
+            <Input
+              id="edit-runs"
+              type="number"
+              min="0"
+              max="7"
+              value={form.runs}
+              onChange={(e) => setForm(prev => prev && { ...prev, runs: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 7) })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Extras</Label>
+              <Select
+                value={form.extras_type || 'none'}
+                onValueChange={(value) => setForm(prev => prev && {
+                  ...prev,
+                  extras_type: value === 'none' ? null : value,
+                  extras_runs: value === 'none' ? 0 : Math.max(prev.extras_runs || 0, 1)
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {EXTRAS.map(extra => (
+                    <SelectItem key={extra.type} value={extra.type}>{extra.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-extras-runs">Extra runs</Label>
+              <Input
+                id="edit-extras-runs"
+                type="number"
+                min="0"
+                max="7"
+                disabled={!form.extras_type}
+                value={form.extras_runs || 0}
+                onChange={(e) => setForm(prev => prev && { ...prev, extras_runs: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 7) })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Wicket</Label>
+              <Select
+                value={form.wicket_type || 'none'}
+                onValueChange={(value) => setForm(prev => prev && {
+                  ...prev,
+                  wicket_type: value === 'none' ? null : value,
+                  wicket_batsman_id: value === 'none' ? null : prev.wicket_batsman_id || prev.batsman_id,
+                  wicket_fielder_id: FIELDER_WICKETS.includes(value) ? prev.wicket_fielder_id : null,
+                  run_out_end: value === 'run_out' ? prev.run_out_end : null
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {WICKETS.map(wicket => (
+                    <SelectItem key={wicket.type} value={wicket.type}>{wicket.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Batsman out</Label>
+              <Select
+                value={form.wicket_batsman_id || ''}
+                disabled={!form.wicket_type}
+                onValueChange={(value) => setForm(prev => prev && { ...prev, wicket_batsman_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="None" />
+                </SelectTrigger>
+                <SelectContent>
+                  {battingPlayers.map(p => (
+                    <SelectItem key={p.player_id} value={p.player_id}>{p.player.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Fielder</Label>
+              <Select
+                value={form.wicket_fielder_id || ''}
+                disabled={!FIELDER_WICKETS.includes(form.wicket_type || '')}
+                onValueChange={(value) => setForm(prev => prev && { ...prev, wicket_fielder_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="None" />
+                </SelectTrigger>
+                <SelectContent>
+                  {bowlingPlayers.map(p => (
+                    <SelectItem key={p.player_id} value={p.player_id}>{p.player.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Run out at</Label>
+              <Select
+                value={form.run_out_end || ''}
+                disabled={form.wicket_type !== 'run_out'}
+                onValueChange={(value) => setForm(prev => prev && { ...prev, run_out_end: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Not recorded" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="striker">Striker's end</SelectItem>
+                  <SelectItem value="non_striker">Bowler's end</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {invalidWicket && (
+            <p className="text-sm text-destructive">
+              Only a run out can be recorded with runs or extras.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-reason">Reason (Optional)</Label>
+            <Textarea
+              id="edit-reason"
+              placeholder="e.g. Was a leg bye, not runs off the bat"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          {history.length > 0 && (
+            <div className="space-y-1 border-t pt-3">
+              <Label className="text-xs text-muted-foreground">Earlier changes</Label>
+              {history.map(edit => (
+                <p key={edit.id} className="text-xs text-muted-foreground">
+                  {new Date(edit.created_at).toLocaleString()} • {edit.edited_by_name} {edit.action === 'delete' ? 'deleted' : 'edited'} this ball
+                  {edit.reason && `: ${edit.reason}`}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button onClick={() => onSave(form, reason)} disabled={saving || invalidWicket}>
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Changes'
+              )}
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" disabled={saving}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete Ball</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Remove ball {formatOverDisplay(ball.over_number, ball.ball_number)} from innings {ball.inning}? Later balls move up to take its place.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => onDelete(reason)}>
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BallEditDialog;
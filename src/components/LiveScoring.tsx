@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -7,16 +7,23 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Save, X, Zap, Target, Undo2 } from 'lucide-react';
+import { useScoreQueue } from '@/hooks/use-score-queue';
+import { useHandOverScoring } from '@/hooks/use-matches';
+import { Loader2, Save, X, Zap, Target, Undo2, WifiOff, AlertTriangle, RefreshCw, ArrowRightLeft } from 'lucide-react';
 import { 
-  calculateNextPosition, 
-  shouldSwapBatsmen, 
-  formatOverDisplay,
   canAddBall,
   getMatchStateSummary,
-  type OverPosition,
-  type TeamSwitch 
+  type OverPosition
 } from '@/utils/overManagement';
+import {
+  applyDelivery,
+  computeInnings,
+  formatOvers,
+  wicketsToEndInnings,
+  type BallRecord,
+  type InningsEndReason
+} from '@/utils/scoringEngine';
+import { describeRejection, getInsertOutcome } from '@/utils/scoreQueue';
 
 interface Player {
   id: string;
@@ -34,9 +41,11 @@ interface MatchPlayer {
 }
 
 interface Score {
+  id?: string;
   inning: number;
   over_number: number;
   ball_number: number;
+  delivery_number?: number;
   batsman_id: string;
   bowler_id: string;
   runs: number;
@@ -44,8 +53,20 @@ interface Score {
   extras_runs?: number;
   wicket_type?: string;
   wicket_batsman_id?: string;
+  wicket_fielder_id?: string;
+  run_out_end?: string;
 }
 
+interface ScoringWicket {
+  type: string;
+  batsman_id: string;
+  fielder_id?: string;
+  run_out_end?: 'striker' | 'non_striker';
+}
+
+// Dismissals that credit a fielder, who is picked before the ball is saved
+const WICKETS_REQUIRING_FIELDER = ['caught', 'stumped', 'run_out'];
+
 interface LiveScoringProps {
   matchId: string;
   currentInning: number;
@@ -54,10 +75,17 @@ interface LiveScoringProps {
   battingTeamPlayers: MatchPlayer[];
   bowlingTeamPlayers: MatchPlayer[];
   totalOvers: number;
+  scores: BallRecord[];
   onScoreAdded: (score: Score) => void;
+  onScoreRemoved?: (scoreId: string) => void;
   onPositionUpdate: (inning: number, over: number, ball: number) => void;
   initialBatsmen?: string[];
   initialBowler?: string;
+  // Scorers this device can pass scoring to, with the crease as it stands
+  handoverTargets?: { id: string; name: string }[];
+  onHandedOver?: (toScorerId: string) => void;
+  // Only the scorer holding the match saves the crease for the others to pick up
+  isActiveScorer?: boolean;
 }
 
 const LiveScoring = ({
@@ -68,18 +96,27 @@ const LiveScoring = ({
   battingTeamPlayers,
   bowlingTeamPlayers,
   totalOvers,
+  scores,
   onScoreAdded,
+  onScoreRemoved,
   onPositionUpdate,
   initialBatsmen,
-  initialBowler
+  initialBowler,
+  handoverTargets = [],
+  onHandedOver,
+  isActiveScorer = false
 }: LiveScoringProps) => {
   const { toast } = useToast();
+  const scoreQueue = useScoreQueue(matchId);
+  const handOverScoring = useHandOverScoring(matchId);
+  const [showHandover, setShowHandover] = useState(false);
+  const [handoverTargetId, setHandoverTargetId] = useState<string>('');
   const [selectedBatsman, setSelectedBatsman] = useState<string>(''); // Current striker
   const [nonStriker, setNonStriker] = useState<string>(''); // Current non-striker
   const [selectedBowler, setSelectedBowler] = useState<string>('');
   const [scoringRuns, setScoringRuns] = useState(0);
   const [scoringExtras, setScoringExtras] = useState<{ type: string; runs: number } | null>(null);
-  const [scoringWicket, setScoringWicket] = useState<{ type: string; batsman_id: string; fielder_id?: string } | null>(null);
+  const [scoringWicket, setScoringWicket] = useState<ScoringWicket | null>(null);
   const [savingScore, setSavingScore] = useState(false);
   const [validationError, setValidationError] = useState<string>('');
   const [newInning, setNewInning] = useState(currentInning);
@@ -88,18 +125,20 @@ const LiveScoring = ({
   const [showNewBatsmanSelector, setShowNewBatsmanSelector] = useState(false);
   const [newBatsmanId, setNewBatsmanId] = useState<string>('');
   const [showBowlerSelector, setShowBowlerSelector] = useState(false);
-  const [previousBowler, setPreviousBowler] = useState<string | null>(null);
-  const [batsmanStats, setBatsmanStats] = useState<{[key: string]: {runs: number, balls: number}}>({});
-  const [bowlerStats, setBowlerStats] = useState<{[key: string]: {balls: number, runs: number, wickets: number}}>({});
+  // End of over reached on a wicket ball: ask for the bowler after the new batsman
+  const [pendingOverChange, setPendingOverChange] = useState(false);
   
   // Fielder selection for wickets
   const [showFielderSelector, setShowFielderSelector] = useState(false);
   const [selectedFielderId, setSelectedFielderId] = useState<string>('');
   const [wicketRequiringFielder, setWicketRequiringFielder] = useState<string | null>(null);
+  const [runOutBatsmanId, setRunOutBatsmanId] = useState<string>('');
+  const [runOutEnd, setRunOutEnd] = useState<'striker' | 'non_striker' | ''>('');
   
   // Undo functionality
   const [undoingScore, setUndoingScore] = useState(false);
   const [lastScoreId, setLastScoreId] = useState<string | null>(null);
+  const [lastCrease, setLastCrease] = useState<{ striker: string; nonStriker: string; bowler: string } | null>(null);
   
   // Track current teams for internal team switching
   const [currentBattingTeam, setCurrentBattingTeam] = useState(battingTeamPlayers);
@@ -111,6 +150,8 @@ const LiveScoring = ({
 
   // Add state
   const [showStartSecondInning, setShowStartSecondInning] = useState(false);
+  const [showMatchComplete, setShowMatchComplete] = useState(false);
+  const [matchCompleteSummary, setMatchCompleteSummary] = useState('');
 
   // Get available players from the correct teams
   const playingXIBatsmen = currentBattingTeam.filter(p => p.is_playing_xi);
@@ -118,6 +159,24 @@ const LiveScoring = ({
   const batsmenList = playingXIBatsmen.length ? playingXIBatsmen : currentBattingTeam;
   const bowlersList = playingXIBowlers.length ? playingXIBowlers : currentBowlingTeam;
 
+  // Innings limits: all out depends on the squad size, and the chase ends once the target is passed
+  const inningsOptions = useMemo(() => {
+    const target = newInning === 2
+      ? computeInnings(scores, 1, { totalOvers, maxWickets: wicketsToEndInnings(bowlersList.length) }).runs + 1
+      : null;
+    return { totalOvers, maxWickets: wicketsToEndInnings(batsmenList.length), target };
+  }, [scores, newInning, totalOvers, batsmenList.length, bowlersList.length]);
+
+  // Innings state derived from the recorded balls
+  const innings = useMemo(
+    () => computeInnings(scores, newInning, inningsOptions),
+    [scores, newInning, inningsOptions]
+  );
+  const previousBowler = innings.previousBowler;
+  const strikerStats = innings.batters[selectedBatsman];
+  const nonStrikerStats = innings.batters[nonStriker];
+  const bowlerStats = innings.bowlers[selectedBowler];
+
   // Helper function to get player name
   const getPlayerName = (playerId: string) => {
     const player = batsmenList.find(p => p.player_id === playerId) || bowlersList.find(p => p.player_id === playerId);
@@ -226,7 +285,7 @@ const LiveScoring = ({
     });
   };
 
-  const addScore = async () => {
+  const addScore = async (wicket: ScoringWicket | null = scoringWicket) => {
     if (!selectedBatsman || !nonStriker || !selectedBowler) {
       toast({
         title: "Error",
@@ -266,7 +325,7 @@ const LiveScoring = ({
       ball: newBall
     };
     
-    if (!canAddBall(currentPosition, totalOvers)) {
+    if (!canAddBall(currentPosition, totalOvers) || innings.isComplete) {
       toast({
         title: "Error",
         description: "Cannot add more balls. Match or innings is complete.",
@@ -285,156 +344,126 @@ const LiveScoring = ({
     // Clear any previous validation errors
     setValidationError('');
 
+    // Ask who took the catch, made the stumping or ran the batsman out before saving
+    if (wicket && WICKETS_REQUIRING_FIELDER.includes(wicket.type) && !wicket.fielder_id) {
+      setWicketRequiringFielder(wicket.type);
+      setRunOutBatsmanId(wicket.batsman_id);
+      setShowFielderSelector(true);
+      return;
+    }
+
     setSavingScore(true);
     try {
-      // Calculate total runs including extras
-      const totalRuns = scoringRuns + (scoringExtras?.runs || 0);
-      
       const scoreData = {
+        id: crypto.randomUUID(),
         match_id: matchId,
         inning: newInning,
         over_number: newOver,
         ball_number: newBall,
+        delivery_number: innings.nextPosition.delivery ?? newBall,
         batsman_id: selectedBatsman,
         bowler_id: selectedBowler,
         runs: scoringRuns,
         extras_type: scoringExtras?.type || null,
         extras_runs: scoringExtras?.runs || 0,
-        wicket_type: scoringWicket?.type || null,
-        wicket_batsman_id: scoringWicket?.batsman_id || null
+        wicket_type: wicket?.type || null,
+        wicket_batsman_id: wicket?.batsman_id || null,
+        wicket_fielder_id: wicket?.fielder_id || null,
+        run_out_end: wicket?.run_out_end || null
       };
 
-      const { data: newScore, error } = await supabase
-        .from('match_scores')
-        .insert(scoreData)
-        .select()
-        .single();
-
-      if (error) throw error;
+      // Balls go to the offline queue when there is no signal, or behind balls already waiting there
+      let newScore: Score = scoreData;
+      let queued = scoreQueue.queuedScores.length > 0 || !navigator.onLine;
+      if (!queued) {
+        const { data, error } = await supabase
+          .from('match_scores')
+          .insert(scoreData)
+          .select()
+          .single();
+
+        const outcome = getInsertOutcome(error);
+        if (outcome === 'rejected') throw error;
+        if (outcome === 'offline') queued = true;
+        if (data) newScore = data;
+      }
+      if (queued) {
+        await scoreQueue.enqueue(scoreData);
+      }
 
-      // Store the last score ID for undo functionality
+      // Store the last score ID and crease for undo functionality
       setLastScoreId(newScore.id);
+      setLastCrease({ striker: selectedBatsman, nonStriker, bowler: selectedBowler });
 
       // Call the callback to notify parent component about the new score
       onScoreAdded(newScore);
 
-      // Use new over management system
-      const currentPosition: OverPosition = {
-        inning: newInning,
-        over: newOver,
-        ball: newBall
-      };
-      
-      const { nextPosition, teamSwitch } = calculateNextPosition(
-        currentPosition,
-        totalOvers,
-        totalRuns
+      // Let the scoring engine work out strike, over and innings changes
+      const after = applyDelivery(
+        { ...innings, striker: selectedBatsman, nonStriker, bowler: selectedBowler },
+        newScore,
+        inningsOptions
       );
-
-      // Update position
-      onPositionUpdate(nextPosition.inning, nextPosition.over, nextPosition.ball);
-
-      // Handle batsmen swapping
-      const isEndOfOver = teamSwitch.shouldSwitchTeams;
-      if (shouldSwapBatsmen(totalRuns, isEndOfOver)) {
-        const currentStriker = selectedBatsman;
-        const currentNonStriker = nonStriker;
-        setSelectedBatsman(currentNonStriker);
-        setNonStriker(currentStriker);
-      }
+      setSelectedBatsman(after.striker || '');
+      setNonStriker(after.nonStriker || '');
 
       // Handle innings change
-      if (teamSwitch.isInningComplete) {
-        setShowStartSecondInning(true);
+      if (after.isComplete) {
+        onPositionUpdate(newInning + 1, 0, 1);
         setShowBowlerSelector(false);
         setShowNewBatsmanSelector(false);
-        setPreviousBowler(selectedBowler);
+        setShowFielderSelector(false);
         setSelectedBatsman('');
         setNonStriker('');
         setSelectedBowler('');
+        setScoringRuns(0);
+        setScoringExtras(null);
+        setScoringWicket(null);
+
+        const summary = `${after.runs}/${after.wickets} in ${formatOvers(after.legalBalls)} overs (${getEndReasonLabel(after.endReason)})`;
+        if (newInning >= 2) {
+          setMatchCompleteSummary(summary);
+          setShowMatchComplete(true);
+          toast({
+            title: "Match Complete",
+            description: `2nd innings closed on ${summary}.`
+          });
+          return;
+        }
+
+        setShowStartSecondInning(true);
         toast({
           title: "Innings Complete",
-          description: `Innings ${newInning} complete. Teams will switch. Click 'Start 2nd Inning' to continue.`
+          description: `Innings ${newInning} closed on ${summary}. Teams will switch. Click 'Start 2nd Inning' to continue.`
         });
         return;
       }
 
-      // Handle team switching at end of over (but not end of innings)
-      if (teamSwitch.shouldSwitchTeams && !teamSwitch.isInningComplete) {
-        // Switch batting and bowling teams
+      // Update position
+      onPositionUpdate(after.nextPosition.inning, after.nextPosition.over, after.nextPosition.ball);
+
+      // Handle wicket
+      if (wicket) {
+        setPendingOverChange(after.next.needsNewBowler);
+        setShowNewBatsmanSelector(true);
+        return; // Don't reset form yet, wait for new batsman selection
+      }
+
+      // Handle bowler change at end of over
+      if (after.next.needsNewBowler) {
         setShowBowlerSelector(true);
-        setPreviousBowler(selectedBowler);
         
         // Clear current selections to force new selection
         setSelectedBowler('');
         
         toast({
           title: "Over Complete",
-          description: `Over ${formatOverDisplay(newOver, 6)} complete. Please select new bowler.`
+          description: `Over ${formatOvers(after.legalBalls)} complete. Please select new bowler.`
         });
         
         return; // Don't reset form yet, wait for bowler selection
       }
 
-      // Handle match completion
-      if (teamSwitch.isMatchComplete) {
-        toast({
-          title: "Match Complete",
-          description: "All innings completed. Match is finished!"
-        });
-        
-        // Reset form
-        setScoringRuns(0);
-        setScoringExtras(null);
-        setScoringWicket(null);
-        setValidationError('');
-        
-        return;
-      }
-
-      // Update batsman and bowler statistics
-      const batsmanId = selectedBatsman;
-      const bowlerId = selectedBowler;
-      
-      // Update batsman stats (only if not extras like wide/no-ball)
-      if (!scoringExtras || ['bye', 'leg_bye'].includes(scoringExtras.type)) {
-        setBatsmanStats(prev => ({
-          ...prev,
-          [batsmanId]: {
-            runs: (prev[batsmanId]?.runs || 0) + scoringRuns,
-            balls: (prev[batsmanId]?.balls || 0) + 1
-          }
-        }));
-      }
-      
-      // Update bowler stats
-      const bowlerRuns = scoringRuns + (scoringExtras?.runs || 0);
-      const bowlerWickets = scoringWicket ? 1 : 0;
-      setBowlerStats(prev => ({
-        ...prev,
-        [bowlerId]: {
-          balls: (prev[bowlerId]?.balls || 0) + 1,
-          runs: (prev[bowlerId]?.runs || 0) + bowlerRuns,
-          wickets: (prev[bowlerId]?.wickets || 0) + bowlerWickets
-        }
-      }));
-      
-      // Handle wicket - check if fielder selection is needed first
-      if (scoringWicket) {
-        const wicketsRequiringFielder = ['caught', 'stumped', 'run_out'];
-        if (wicketsRequiringFielder.includes(scoringWicket.type)) {
-          setWicketRequiringFielder(scoringWicket.type);
-          setShowFielderSelector(true);
-          return; // Don't proceed until fielder is selected
-        }
-        
-        // For other wickets, show new batsman selector (except run out)
-        if (scoringWicket.type !== 'run_out') {
-          setShowNewBatsmanSelector(true);
-          return; // Don't reset form yet, wait for new batsman selection
-        }
-      }
-
       // Reset form
       setScoringRuns(0);
       setScoringExtras(null);
@@ -443,14 +472,16 @@ const LiveScoring = ({
 
       const description = getScoreDescription();
       toast({
-        title: "Score Added",
-        description: description
+        title: queued ? "Saved Offline" : "Score Added",
+        description: queued ? `${description}. It will sync when the connection returns.` : description
       });
     } catch (error) {
       console.error('Error adding score:', error);
       toast({
         title: "Error",
-        description: "Failed to add score",
+        description: error && typeof error === 'object' && 'code' in error
+          ? describeRejection(error as { code?: string; message?: string })
+          : "Failed to add score",
         variant: "destructive"
       });
     } finally {
@@ -475,70 +506,11 @@ const LiveScoring = ({
         // non-fatal
       }
     };
-    // Only persist when we have any selection
-    if (selectedBatsman || nonStriker || selectedBowler) {
+    // Only persist when we have any selection, and never over another scorer's crease
+    if (isActiveScorer && (selectedBatsman || nonStriker || selectedBowler)) {
       persist();
     }
-  }, [matchId, selectedBatsman, nonStriker, selectedBowler]);
-
-  // Recompute on resume: populate batsman/bowler panels from DB so they don't show 0 after reload
-  useEffect(() => {
-    const recomputePanelsFromDb = async () => {
-      try {
-        if (!matchId) return;
-        const { data: inningScores } = await supabase
-          .from('match_scores')
-          .select('*')
-          .eq('match_id', matchId)
-          .eq('inning', newInning)
-          .order('over_number', { ascending: true })
-          .order('ball_number', { ascending: true });
-
-        const isBallFaced = (extrasType?: string | null) => !extrasType || extrasType === 'bye' || extrasType === 'leg_bye';
-        const isLegalDelivery = (extrasType?: string | null) => extrasType !== 'wide' && extrasType !== 'no_ball';
-        const isCreditedWicket = (wicketType?: string | null) => !!wicketType && ['bowled','caught','lbw','stumped','hit_wicket'].includes(wicketType);
-
-        // Batsman stats for striker and non-striker
-        if (selectedBatsman) {
-          const balls = (inningScores || []).filter(s => s.batsman_id === selectedBatsman && isBallFaced(s.extras_type)).length;
-          const runs = (inningScores || []).filter(s => s.batsman_id === selectedBatsman).reduce((sum, s) => sum + (s.runs || 0), 0);
-          setBatsmanStats(prev => ({
-            ...prev,
-            [selectedBatsman]: { runs, balls }
-          }));
-        }
-        if (nonStriker) {
-          const balls = (inningScores || []).filter(s => s.batsman_id === nonStriker && isBallFaced(s.extras_type)).length;
-          const runs = (inningScores || []).filter(s => s.batsman_id === nonStriker).reduce((sum, s) => sum + (s.runs || 0), 0);
-          setBatsmanStats(prev => ({
-            ...prev,
-            [nonStriker]: { runs, balls }
-          }));
-        }
-
-        // Bowler stats for current bowler
-        if (selectedBowler) {
-          const bowlerBalls = (inningScores || []).filter(s => s.bowler_id === selectedBowler && isLegalDelivery(s.extras_type)).length;
-          const bowlerRuns = (inningScores || []).filter(s => s.bowler_id === selectedBowler).reduce((sum, s) => {
-            const extrasToBowler = s.extras_type === 'wide' || s.extras_type === 'no_ball';
-            return sum + (s.runs || 0) + (extrasToBowler ? (s.extras_runs || 0) : 0);
-          }, 0);
-          const bowlerWkts = (inningScores || []).filter(s => s.bowler_id === selectedBowler && isCreditedWicket(s.wicket_type)).length;
-          setBowlerStats(prev => ({
-            ...prev,
-            [selectedBowler]: { balls: bowlerBalls, runs: bowlerRuns, wickets: bowlerWkts }
-          }));
-        }
-      } catch (e) {
-        // non-fatal
-      }
-    };
-
-    // Recompute when we have selections and inning context
-    if (matchId && newInning) {
-      recomputePanelsFromDb();
-    }
-  }, [matchId, newInning, selectedBatsman, nonStriker, selectedBowler]);
+  }, [matchId, selectedBatsman, nonStriker, selectedBowler, isActiveScorer]);
 
   const handleUndo = async () => {
     if (!lastScoreId) {
@@ -552,55 +524,32 @@ const LiveScoring = ({
 
     setUndoingScore(true);
     try {
-      // Get the last score details before deleting
-      const { data: lastScore, error: fetchError } = await supabase
-        .from('match_scores')
-        .select('*')
-        .eq('id', lastScoreId)
-        .single();
-
-      if (fetchError) throw fetchError;
-
-      // Delete the last score from database
-      const { error: deleteError } = await supabase
-        .from('match_scores')
-        .delete()
-        .eq('id', lastScoreId);
-
-      if (deleteError) throw deleteError;
-
-      // Don't revert position - keep current position so next score can be added
-      // The position stays at the current ball, we just removed the score for it
-
-      // Revert batsman stats
-      const batsmanId = lastScore.batsman_id;
-      if (!lastScore.extras_type || ['bye', 'leg_bye'].includes(lastScore.extras_type)) {
-        setBatsmanStats(prev => ({
-          ...prev,
-          [batsmanId]: {
-            runs: Math.max(0, (prev[batsmanId]?.runs || 0) - (lastScore.runs || 0)),
-            balls: Math.max(0, (prev[batsmanId]?.balls || 0) - 1)
-          }
-        }));
+      if (scoreQueue.queuedScores.some(q => q.id === lastScoreId)) {
+        // Never reached the server, so just drop it from the queue
+        await scoreQueue.discard(lastScoreId);
+      } else {
+        // Delete the last score from database
+        const { error: deleteError } = await supabase
+          .from('match_scores')
+          .delete()
+          .eq('id', lastScoreId);
+
+        if (deleteError) throw deleteError;
       }
 
-      // Revert bowler stats
-      const bowlerId = lastScore.bowler_id;
-      const bowlerRuns = (lastScore.runs || 0) + (lastScore.extras_runs || 0);
-      const bowlerWickets = lastScore.wicket_type ? 1 : 0;
-      setBowlerStats(prev => ({
-        ...prev,
-        [bowlerId]: {
-          balls: Math.max(0, (prev[bowlerId]?.balls || 0) - 1),
-          runs: Math.max(0, (prev[bowlerId]?.runs || 0) - bowlerRuns),
-          wickets: Math.max(0, (prev[bowlerId]?.wickets || 0) - bowlerWickets)
-        }
-      }));
+      // Stats are derived from the remaining balls; restore who was at the crease
+      onScoreRemoved?.(lastScoreId);
+      if (lastCrease) {
+        setSelectedBatsman(lastCrease.striker);
+        setNonStriker(lastCrease.nonStriker);
+        setSelectedBowler(lastCrease.bowler);
+      }
 
       // Close any open modals
       setShowNewBatsmanSelector(false);
       setShowBowlerSelector(false);
       setShowFielderSelector(false);
+      setPendingOverChange(false);
 
       // Reset form
       setScoringRuns(0);
@@ -613,6 +562,7 @@ const LiveScoring = ({
 
       // Clear the last score ID
       setLastScoreId(null);
+      setLastCrease(null);
 
       toast({
         title: "Score Undone",
@@ -693,10 +643,10 @@ const LiveScoring = ({
       return;
     }
 
-    // Replace the dismissed batsman
-    if (scoringWicket && scoringWicket.batsman_id === selectedBatsman) {
+    // Fill the end the dismissed batsman left
+    if (!selectedBatsman) {
       setSelectedBatsman(newBatsmanId);
-    } else if (scoringWicket && scoringWicket.batsman_id === nonStriker) {
+    } else {
       setNonStriker(newBatsmanId);
     }
 
@@ -704,6 +654,13 @@ const LiveScoring = ({
     setShowNewBatsmanSelector(false);
     setNewBatsmanId('');
 
+    // The wicket fell on the last ball of the over
+    if (pendingOverChange) {
+      setPendingOverChange(false);
+      setSelectedBowler('');
+      setShowBowlerSelector(true);
+    }
+
     // Reset form and continue
     setScoringRuns(0);
     setScoringExtras(null);
@@ -726,9 +683,6 @@ const LiveScoring = ({
       return;
     }
 
-    // Track previous bowler to prevent consecutive overs
-    setPreviousBowler(selectedBowler);
-
     // Close the bowler selector
     setShowBowlerSelector(false);
     
@@ -754,28 +708,55 @@ const LiveScoring = ({
       return;
     }
 
-    // Add fielder info to the wicket data
-    if (scoringWicket) {
-      setScoringWicket({
-        ...scoringWicket,
-        fielder_id: selectedFielderId
+    if (!scoringWicket) return;
+
+    const isRunOut = scoringWicket.type === 'run_out';
+    if (isRunOut && (!runOutBatsmanId || !runOutEnd)) {
+      toast({
+        title: "Error",
+        description: "Please select who was run out and at which end",
+        variant: "destructive"
       });
+      return;
     }
 
-    // Reset fielder selection states
+    // Add fielder info to the wicket data
+    const wicket: ScoringWicket = {
+      ...scoringWicket,
+      fielder_id: selectedFielderId,
+      ...(isRunOut && { batsman_id: runOutBatsmanId, run_out_end: runOutEnd || undefined })
+    };
+    setScoringWicket(wicket);
+    closeFielderSelector();
+
+    // Now save the ball with the fielder credited
+    addScore(wicket);
+  };
+
+  const closeFielderSelector = () => {
     setShowFielderSelector(false);
     setSelectedFielderId('');
     setWicketRequiringFielder(null);
+    setRunOutBatsmanId('');
+    setRunOutEnd('');
+  };
 
-    // Now proceed with normal wicket handling
-    if (scoringWicket && scoringWicket.type !== 'run_out') {
-      setShowNewBatsmanSelector(true);
-    } else {
-      // For run out, continue normal flow
-      setScoringRuns(0);
-      setScoringExtras(null);
-      setScoringWicket(null);
-      setValidationError('');
+  // Drop a ball the server refused so the balls queued after it can sync
+  const discardQueuedScore = async (scoreId: string) => {
+    try {
+      await scoreQueue.discard(scoreId);
+      onScoreRemoved?.(scoreId);
+      toast({
+        title: "Ball Discarded",
+        description: "The clashing ball was removed. Re-enter it if it is still needed."
+      });
+    } catch (error) {
+      console.error('Error discarding queued score:', error);
+      toast({
+        title: "Error",
+        description: "Failed to discard ball",
+        variant: "destructive"
+      });
     }
   };
 
@@ -783,7 +764,8 @@ const LiveScoring = ({
     // Batsmen should come from the batting team
     const availableBatsmen = batsmenList.filter(player => 
       player.player_id !== selectedBatsman && 
-      player.player_id !== nonStriker
+      player.player_id !== nonStriker &&
+      !innings.batters[player.player_id]?.isOut
     );
     
     console.log('Available batsmen from batting team:', availableBatsmen.map(p => p.player.name));
@@ -822,6 +804,42 @@ const LiveScoring = ({
     return parts.join(' + ');
   };
 
+  // Describe why an innings closed
+  const getEndReasonLabel = (reason: InningsEndReason | null) => {
+    if (reason === 'all_out') return 'all out';
+    if (reason === 'target') return 'target reached';
+    return 'overs complete';
+  };
+
+  // The next scorer picks up from the saved crease, so it has to be complete and every ball synced
+  const canHandOver = !!selectedBatsman && !!nonStriker && !!selectedBowler && scoreQueue.queuedScores.length === 0;
+
+  const handleHandOver = async () => {
+    if (!handoverTargetId || !canHandOver) return;
+
+    try {
+      await handOverScoring.mutateAsync({
+        toScorerId: handoverTargetId,
+        batsmen: [selectedBatsman, nonStriker],
+        bowlerId: selectedBowler
+      });
+      const targetName = handoverTargets.find(t => t.id === handoverTargetId)?.name || 'the next scorer';
+      setShowHandover(false);
+      toast({
+        title: "Scoring Handed Over",
+        description: `${targetName} is now scoring this match`
+      });
+      onHandedOver?.(handoverTargetId);
+    } catch (error) {
+      console.error('Error handing over scoring:', error);
+      toast({
+        title: "Error",
+        description: "Failed to hand over scoring",
+        variant: "destructive"
+      });
+    }
+  };
+
   // Add a handler for the button
   const handleStartSecondInning = () => {
     setShowStartSecondInning(false);
@@ -836,10 +854,25 @@ const LiveScoring = ({
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Target className="h-5 w-5" />
-          Live Scoring
-        </CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Live Scoring
+          </CardTitle>
+          {handoverTargets.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setHandoverTargetId('');
+                setShowHandover(true);
+              }}
+            >
+              <ArrowRightLeft className="h-4 w-4 mr-1" />
+              Hand Over
+            </Button>
+          )}
+        </div>
         <CardDescription>
           {getMatchStateSummary({ inning: newInning, over: newOver, ball: newBall }, totalOvers)}
           <br />
@@ -850,6 +883,95 @@ const LiveScoring = ({
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
+        {/* Offline queue */}
+        {(!scoreQueue.isOnline || scoreQueue.queuedScores.length > 0) && (
+          <div className="flex items-center justify-between gap-2 rounded-md border border-dashed p-3 text-sm">
+            <span className="flex items-center gap-2 text-muted-foreground">
+              {scoreQueue.syncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <WifiOff className="h-4 w-4" />}
+              {!scoreQueue.isOnline ? 'Offline. ' : ''}
+              {scoreQueue.queuedScores.length} ball{scoreQueue.queuedScores.length === 1 ? '' : 's'} waiting to sync
+            </span>
+            {scoreQueue.isOnline && scoreQueue.queuedScores.length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => scoreQueue.sync()} disabled={scoreQueue.syncing}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Sync
+              </Button>
+            )}
+          </div>
+        )}
+
+        {scoreQueue.conflicts.map(conflict => (
+          <div key={conflict.id} className="rounded-md border border-destructive p-3 text-sm space-y-2">
+            <p className="flex items-center gap-2 font-medium text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              Innings {conflict.inning}, ball {conflict.over_number}.{conflict.ball_number} could not be saved
+            </p>
+            <p className="text-muted-foreground">
+              {conflict.conflict} ({getPlayerName(conflict.bowler_id)} to {getPlayerName(conflict.batsman_id)},{' '}
+              {conflict.runs + conflict.extras_runs} run{conflict.runs + conflict.extras_runs === 1 ? '' : 's'}
+              {conflict.wicket_type ? ', wicket' : ''}).
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => scoreQueue.retry(conflict.id)} disabled={scoreQueue.syncing}>
+                Retry
+              </Button>
+              <Button variant="destructive" size="sm" onClick={() => discardQueuedScore(conflict.id)}>
+                Discard
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {/* Scorer handover */}
+        <Dialog open={showHandover} onOpenChange={setShowHandover}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Hand Over Scoring</DialogTitle>
+              <DialogDescription>
+                The next scorer carries on from {getPlayerName(selectedBatsman)} on strike,{' '}
+                {getPlayerName(nonStriker)} at the other end and {getPlayerName(selectedBowler)} bowling.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Hand over to</Label>
+                <Select value={handoverTargetId} onValueChange={setHandoverTargetId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a scorer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {handoverTargets.map((target) => (
+                      <SelectItem key={target.id} value={target.id}>
+                        {target.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {!canHandOver && (
+                <p className="text-sm text-muted-foreground">
+                  {scoreQueue.queuedScores.length > 0
+                    ? 'Sync the balls waiting on this device before handing over.'
+                    : 'Pick the batsmen and bowler before handing over.'}
+                </p>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleHandOver}
+                  disabled={!handoverTargetId || !canHandOver || handOverScoring.isPending}
+                  className="flex-1"
+                >
+                  {handOverScoring.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Hand Over
+                </Button>
+                <Button variant="outline" onClick={() => setShowHandover(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* New Batsman Selector Popup Modal */}
         <Dialog open={showNewBatsmanSelector} onOpenChange={() => {}}>
           <DialogContent className="sm:max-w-md">
@@ -1079,31 +1201,47 @@ const LiveScoring = ({
                   </SelectContent>
                 </Select>
               </div>
+              {wicketRequiringFielder === 'run_out' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Batsman Out</Label>
+                    <Select value={runOutBatsmanId} onValueChange={setRunOutBatsmanId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Who was run out?" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[selectedBatsman, nonStriker].filter(Boolean).map((playerId) => (
+                          <SelectItem key={playerId} value={playerId}>
+                            {getPlayerName(playerId)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Run Out At</Label>
+                    <Select value={runOutEnd} onValueChange={(value) => setRunOutEnd(value as 'striker' | 'non_striker')}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Which end?" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="striker">Striker's end</SelectItem>
+                        <SelectItem value="non_striker">Bowler's end</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
               <div className="flex gap-2">
                 <Button 
                   onClick={handleFielderSelection} 
                   className="flex-1"
-                  disabled={!selectedFielderId}
+                  disabled={!selectedFielderId || (wicketRequiringFielder === 'run_out' && (!runOutBatsmanId || !runOutEnd))}
                 >
-                  Continue with Selected Fielder
+                  Save Wicket
                 </Button>
-                <Button
-                  variant="destructive"
-                  onClick={handleUndo}
-                  disabled={undoingScore || !lastScoreId}
-                  className="flex-1"
-                >
-                  {undoingScore ? (
-                    <>
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      Undoing...
-                    </>
-                  ) : (
-                    <>
-                      <Undo2 className="h-4 w-4 mr-2" />
-                      Undo Last Ball
-                    </>
-                  )}
+                <Button variant="outline" onClick={closeFielderSelector} className="flex-1">
+                  Cancel
                 </Button>
               </div>
             </div>
@@ -1128,6 +1266,23 @@ const LiveScoring = ({
           </DialogContent>
         </Dialog>
 
+        {/* Match Complete Popup */}
+        <Dialog open={showMatchComplete} onOpenChange={setShowMatchComplete}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle className="text-center text-lg">🏆 Match Complete!</DialogTitle>
+              <DialogDescription className="text-center">
+                The 2nd innings closed on {matchCompleteSummary}. No more balls can be added.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex justify-center pt-4">
+              <Button size="lg" className="w-full" onClick={() => setShowMatchComplete(false)}>
+                Close
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Current Statistics Display */}
         {!showStartSecondInning && (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1139,13 +1294,13 @@ const LiveScoring = ({
                   <span className="font-medium">
                     {selectedBatsman ? batsmenList.find(p => p.player_id === selectedBatsman)?.player.name : 'N/A'} *
                   </span>
-                  <span>{batsmanStats[selectedBatsman]?.runs || 0}({batsmanStats[selectedBatsman]?.balls || 0})</span>
+                  <span>{strikerStats?.runs || 0}({strikerStats?.balls || 0})</span>
                 </div>
                 <div className="flex justify-between">
                   <span>
                     {nonStriker ? batsmenList.find(p => p.player_id === nonStriker)?.player.name : 'N/A'}
                   </span>
-                  <span>{batsmanStats[nonStriker]?.runs || 0}({batsmanStats[nonStriker]?.balls || 0})</span>
+                  <span>{nonStrikerStats?.runs || 0}({nonStrikerStats?.balls || 0})</span>
                 </div>
               </div>
             </div>
@@ -1159,7 +1314,7 @@ const LiveScoring = ({
                     {selectedBowler ? bowlersList.find(p => p.player_id === selectedBowler)?.player.name : 'N/A'}
                   </span>
                   <span>
-                    {Math.floor((bowlerStats[selectedBowler]?.balls || 0) / 6)}.{(bowlerStats[selectedBowler]?.balls || 0) % 6}-{bowlerStats[selectedBowler]?.runs || 0}-{bowlerStats[selectedBowler]?.wickets || 0}
+                    {formatOvers(bowlerStats?.balls || 0)}-{bowlerStats?.runs || 0}-{bowlerStats?.wickets || 0}
                   </span>
                 </div>
               </div>
@@ -1356,7 +1511,7 @@ const LiveScoring = ({
         {/* Add Score Button */}
         {!showStartSecondInning && (
           <Button 
-            onClick={addScore} 
+            onClick={() => addScore()} 
             disabled={savingScore || !selectedBatsman || !selectedBowler || showNewBatsmanSelector || showBowlerSelector || showFielderSelector}
             className="w-full"
             size="lg"
@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { formatOverDisplay } from '@/utils/overManagement';
+import { fetchScoringAuditLog, type AuditLogEntry } from '@/lib/db';
+
+type RowData = Record<string, unknown>;
+
+interface MatchHistorySheetProps {
+  matchId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  getPlayerName: (playerId: string) => string;
+  getTeamName: (teamId: string) => string;
+}
+
+const BALL_FIELDS: Record<string, string> = {
+  batsman_id: 'Batsman',
+  bowler_id: 'Bowler',
+  runs: 'Runs',
+  extras_type: 'Extras',
+  extras_runs: 'Extra runs',
+  wicket_type: 'Wicket',
+  wicket_batsman_id: 'Batsman out',
+  wicket_fielder_id: 'Fielder',
+  run_out_end: 'Run out at'
+};
+
+const MATCH_FIELDS: Record<string, string> = {
+  name: 'Name',
+  date: 'Date',
+  time: 'Time',
+  location: 'Location',
+  overs: 'Overs',
+  status: 'Status',
+  toss_winner_id: 'Toss winner',
+  toss_decision: 'Toss decision',
+  result_type: 'Result',
+  winner_team_id: 'Winner',
+  result_margin: 'Margin',
+  result_margin_type: 'Margin type',
+  player_of_match_id: 'Player of the Match'
+};
+
+const PLAYER_FIELDS = ['batsman_id', 'bowler_id', 'wicket_batsman_id', 'wicket_fielder_id', 'player_of_match_id'];
+const TEAM_FIELDS = ['toss_winner_id', 'winner_team_id'];
+
+const ACTION_LABELS: Record<AuditLogEntry['action'], string> = {
+  insert: 'Added',
+  update: 'Changed',
+  delete: 'Deleted'
+};
+
+// Every change to this match and its balls, as written by the audit triggers
+const MatchHistorySheet: React.FC<MatchHistorySheetProps> = ({
+  matchId,
+  open,
+  onOpenChange,
+  getPlayerName,
+  getTeamName
+}) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        setEntries(await fetchScoringAuditLog(matchId));
+      } catch (error) {
+        console.error('Error fetching match history:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load match history",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [open, matchId, toast]);
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return 'none';
+    if (PLAYER_FIELDS.includes(field)) return getPlayerName(String(value));
+    if (TEAM_FIELDS.includes(field)) return getTeamName(String(value));
+    return String(value).replace(/_/g, ' ');
+  };
+
+  const getChanges = (entry: AuditLogEntry, fields: Record<string, string>) => {
+    if (!entry.before || !entry.after) return [];
+    return Object.keys(fields)
+      .filter(field => entry.before?.[field] !== entry.after?.[field])
+      .map(field => `${fields[field]}: ${formatValue(field, entry.before?.[field])} → ${formatValue(field, entry.after?.[field])}`);
+  };
+
+  const getBallLabel = (row: RowData) => {
+    return `Innings ${row.inning}, ball ${formatOverDisplay(Number(row.over_number), Number(row.ball_number))}`;
+  };
+
+  const describeBall = (row: RowData) => {
+    const extras = row.extras_type ? `, ${formatValue('extras_type', row.extras_type)} +${row.extras_runs || 0}` : '';
+    const wicket = row.wicket_type ? `, ${formatValue('wicket_type', row.wicket_type)}` : '';
+    return `${formatValue('bowler_id', row.bowler_id)} to ${formatValue('batsman_id', row.batsman_id)}: ${row.runs} run${row.runs === 1 ? '' : 's'}${extras}${wicket}`;
+  };
+
+  const describeEntry = (entry: AuditLogEntry): { title: string; details: string[] } => {
+    const row = (entry.after || entry.before) as RowData;
+
+    if (entry.table_name === 'matches') {
+      if (entry.action === 'insert') return { title: 'Match created', details: [] };
+      if (entry.action === 'delete') return { title: 'Match deleted', details: [] };
+      return { title: 'Match details', details: getChanges(entry, MATCH_FIELDS) };
+    }
+
+    if (entry.action !== 'update') {
+      return { title: getBallLabel(row), details: [describeBall(row)] };
+    }
+
+    const details = getChanges(entry, BALL_FIELDS);
+    const before = entry.before as RowData;
+    // Balls shift along when an earlier one is corrected or removed
+    if (before.over_number !== row.over_number || before.ball_number !== row.ball_number) {
+      details.push(`Moved from ${formatOverDisplay(Number(before.over_number), Number(before.ball_number))}`);
+    }
+    return { title: getBallLabel(row), details };
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Match History</SheetTitle>
+          <SheetDescription>
+            Every ball recorded, corrected or removed, and every change to the match.
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">No changes recorded yet.</p>
+        ) : (
+          <ScrollArea className="flex-1 -mx-6 px-6">
+            <div className="space-y-3 pb-6">
+              {entries.map(entry => {
+                const { title, details } = describeEntry(entry);
+                // Shifts caused by re-sequencing have no field changes of their own
+                if (entry.action === 'update' && details.length === 0) return null;
+
+                return (
+                  <div key={entry.id} className="rounded-lg border p-3 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium">{title}</p>
+                      <Badge variant={entry.action === 'delete' ? 'destructive' : 'secondary'}>
+                        {ACTION_LABELS[entry.action]}
+                      </Badge>
+                    </div>
+                    {details.map(detail => (
+                      <p key={detail} className="text-sm text-muted-foreground">{detail}</p>
+                    ))}
+                    <p className="text-xs text-muted-foreground">
+                      {entry.actor?.name || 'System'} • {new Date(entry.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default MatchHistorySheet;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ClipboardList, Loader2, Plus, Search, X } from 'lucide-react';
+import { useAssignMatchScorer, useMatchScorers, useRemoveMatchScorer } from '@/hooks/use-matches';
+import type { PlayerSummary } from '@/lib/db';
+
+type ScorerCandidate = Pick<PlayerSummary, 'id' | 'name' | 'image_url'>;
+
+interface MatchScorersCardProps {
+  matchId: string;
+  ownerId: string;
+  profileId: string;
+  activeScorerId: string | null;
+}
+
+// Owner's view of who else may score the match: a twelfth man, a parent, anyone with an account
+const MatchScorersCard: React.FC<MatchScorersCardProps> = ({ matchId, ownerId, profileId, activeScorerId }) => {
+  const { toast } = useToast();
+  const { data: scorers = [], isLoading } = useMatchScorers(matchId);
+  const assignScorer = useAssignMatchScorer(matchId);
+  const removeScorer = useRemoveMatchScorer(matchId);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ScorerCandidate[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  const searchPlayers = async (query: string) => {
+    if (!query.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    setSearching(true);
+    try {
+      // Scorers sign in to score, so guest players are left out
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, name, image_url')
+        .eq('is_guest', false)
+        .ilike('name', `%${query}%`)
+        .limit(10);
+
+      if (error) throw error;
+
+      const existingIds = [ownerId, ...scorers.map(s => s.scorer_id)];
+      setSearchResults(data.filter(player => !existingIds.includes(player.id)));
+    } catch (error) {
+      console.error('Error searching players:', error);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const addScorer = async (player: ScorerCandidate) => {
+    try {
+      await assignScorer.mutateAsync({ scorerId: player.id, assignedBy: profileId });
+      setSearchQuery('');
+      setSearchResults([]);
+      toast({
+        title: "Success",
+        description: `${player.name || 'Player'} can now score this match`
+      });
+    } catch (error) {
+      console.error('Error assigning scorer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add scorer",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeMatchScorer = async (scorerId: string) => {
+    try {
+      await removeScorer.mutateAsync(scorerId);
+      toast({
+        title: "Success",
+        description: "Scorer removed"
+      });
+    } catch (error) {
+      console.error('Error removing scorer:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove scorer",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><ClipboardList className="h-5 w-5" /> Scorers</CardTitle>
+        <CardDescription>Let other players score this match and take it over from you mid-match</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search players by name..."
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                searchPlayers(e.target.value);
+              }}
+              className="pl-9"
+            />
+          </div>
+          {searching && (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          )}
+          {searchResults.map(player => (
+            <div key={player.id} className="flex items-center justify-between p-3 border rounded-lg gap-3">
+              <div className="flex items-center gap-3">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={player.image_url || ''} />
+                  <AvatarFallback>{player.name?.charAt(0)?.toUpperCase() || '?'}</AvatarFallback>
+                </Avatar>
+                <p className="font-medium">{player.name || 'Unknown Player'}</p>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => addScorer(player)}
+                disabled={assignScorer.isPending && assignScorer.variables?.scorerId === player.id}
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : scorers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No scorers yet. Only the match owner can score.</p>
+          ) : (
+            scorers.map(({ scorer_id, scorer }) => (
+              <div key={scorer_id} className="flex items-center justify-between p-3 border rounded-lg gap-3">
+                <div className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={scorer?.image_url || ''} />
+                    <AvatarFallback>{scorer?.name?.charAt(0)?.toUpperCase() || '?'}</AvatarFallback>
+                  </Avatar>
+                  <p className="font-medium">{scorer?.name || 'Unknown Player'}</p>
+                  {scorer_id === activeScorerId && <Badge variant="secondary" className="text-xs">Scoring</Badge>}
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => removeMatchScorer(scorer_id)}
+                  disabled={removeScorer.isPending && removeScorer.variables === scorer_id}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MatchScorersCard;
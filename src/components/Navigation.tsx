@@ -4,7 +4,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { LogOut, User, Home, Trophy, Users, Calendar } from 'lucide-react';
+import { LogOut, User, Home, Trophy, Users, Calendar, Medal } from 'lucide-react';
 
 const Navigation = () => {
   const { user, signOut } = useAuth();
@@ -79,6 +79,18 @@ const Navigation = () => {
               <Trophy className="h-4 w-4" />
               <span>Tournaments</span>
             </Link>
+
+            <Link
+              to="/leaderboards"
+              className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors ${
+                location.pathname === '/leaderboards' 
+                  ? 'bg-primary text-primary-foreground' 
+                  : 'text-muted-foreground hover:text-foreground hover:bg-accent'
+              }`}
+            >
+              <Medal className="h-4 w-4" />
+              <span>Leaderboards</span>
+            </Link>
           </div>
 
           {/* User Menu */}
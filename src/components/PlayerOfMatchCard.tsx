@@ -0,0 +1,118 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Award, Loader2 } from 'lucide-react';
+import { useMatchMvpPoints } from '@/hooks/use-matches';
+
+interface Player {
+  id: string;
+  name: string;
+  image_url: string | null;
+}
+
+interface PlayerOfMatchCardProps {
+  matchId: string;
+  playerOfMatchId: string | null;
+  overridden: boolean;
+  players: Player[];
+  canOverride: boolean;
+  saving: boolean;
+  onChange: (playerId: string, overridden: boolean) => void;
+}
+
+// The Player of the Match and the MVP points it was suggested from
+const PlayerOfMatchCard: React.FC<PlayerOfMatchCardProps> = ({
+  matchId,
+  playerOfMatchId,
+  overridden,
+  players,
+  canOverride,
+  saving,
+  onChange
+}) => {
+  const { data: mvpPoints = [], isLoading } = useMatchMvpPoints(matchId);
+
+  const getPlayer = (playerId: string) =>
+    players.find(p => p.id === playerId) || mvpPoints.find(p => p.player_id === playerId)?.player || null;
+  const award = playerOfMatchId ? getPlayer(playerOfMatchId) : null;
+  const awardPoints = mvpPoints.find(p => p.player_id === playerOfMatchId)?.total_points;
+  const suggestedId = mvpPoints[0]?.player_id;
+
+  if (!award && !canOverride) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Award className="h-5 w-5 text-primary" /> Player of the Match
+        </CardTitle>
+        <CardDescription>Suggested from MVP points for runs, boundaries, wickets, dot balls, rates and catches</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {award ? (
+          <div className="flex items-center gap-3">
+            <Avatar className="h-10 w-10">
+              <AvatarImage src={award.image_url || ''} />
+              <AvatarFallback>{award.name?.charAt(0) || 'P'}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1">
+              <p className="font-semibold">{award.name || 'Unknown Player'}</p>
+              {awardPoints !== undefined && (
+                <p className="text-sm text-muted-foreground">{awardPoints} MVP points</p>
+              )}
+            </div>
+            <Badge variant="secondary">{overridden ? 'Picked by creator' : 'Top MVP points'}</Badge>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No Player of the Match picked yet.</p>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading MVP points...
+          </div>
+        ) : mvpPoints.length > 0 && (
+          <div className="space-y-1">
+            {mvpPoints.slice(0, 5).map((entry, index) => (
+              <div key={entry.player_id} className="flex items-center justify-between text-sm">
+                <span>{index + 1}. {entry.player?.name || 'Unknown Player'}</span>
+                <span className="font-mono text-muted-foreground">
+                  {entry.total_points} ({entry.batting_points} bat, {entry.bowling_points} bowl, {entry.fielding_points} field)
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canOverride && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select
+              value={playerOfMatchId || undefined}
+              onValueChange={(value) => onChange(value, true)}
+              disabled={saving}
+            >
+              <SelectTrigger className="sm:w-64">
+                <SelectValue placeholder="Pick a player" />
+              </SelectTrigger>
+              <SelectContent>
+                {players.map(player => (
+                  <SelectItem key={player.id} value={player.id}>{player.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {overridden && suggestedId && (
+              <Button variant="outline" onClick={() => onChange(suggestedId, false)} disabled={saving}>
+                Use suggested pick
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PlayerOfMatchCard;
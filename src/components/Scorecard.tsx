@@ -2,8 +2,10 @@ import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Trophy, Target, Users } from 'lucide-react';
-import { formatOverDisplay, overToDecimal, decimalToOver } from '@/utils/overManagement';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Trophy, Target } from 'lucide-react';
+import { formatOverDisplay } from '@/utils/overManagement';
+import { computeMatch, economyRate, formatDismissal, formatOvers, strikeRate, type InningsState } from '@/utils/scoringEngine';
 
 interface Player {
   id: string;
@@ -17,6 +19,7 @@ interface Score {
   inning: number;
   over_number: number;
   ball_number: number;
+  delivery_number?: number;
   batsman_id: string;
   bowler_id: string;
   runs: number;
@@ -24,6 +27,8 @@ interface Score {
   extras_runs?: number;
   wicket_type?: string;
   wicket_batsman_id?: string;
+  wicket_fielder_id?: string | null;
+  run_out_end?: string | null;
   batsman?: Player;
   bowler?: Player;
 }
@@ -41,6 +46,7 @@ interface MatchPlayer {
   id: string;
   player_id: string;
   is_playing_xi: boolean;
+  team_id: string;
   player: Player;
 }
 
@@ -52,6 +58,7 @@ interface ScorecardProps {
   currentOver: number;
   currentBall: number;
   totalOvers: number;
+  maxWickets?: number[]; // Wickets that end each innings, in batting order
   teamAPlayers: MatchPlayer[];
   teamBPlayers: MatchPlayer[];
   meta?: {
@@ -62,6 +69,154 @@ interface ScorecardProps {
   };
 }
 
+interface InningsScorecardProps {
+  innings: InningsState;
+  team: Team;
+  squad: MatchPlayer[];
+  inProgress: boolean;
+  getPlayerName: (playerId: string) => string;
+}
+
+// Batting and bowling tables for one innings, with extras, fall of wickets and partnerships
+const InningsScorecard: React.FC<InningsScorecardProps> = ({ innings, team, squad, inProgress, getPlayerName }) => {
+  const yetToBat = squad.filter(p => !innings.batters[p.player_id]);
+  const { extras } = innings;
+  const currentPair = [innings.striker, innings.nonStriker].filter(Boolean) as string[];
+  const showCurrentPartnership = inProgress && currentPair.length === 2 &&
+    (innings.partnership.runs > 0 || innings.partnership.balls > 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between gap-2 text-base">
+          <span>{innings.inning === 1 ? '1st' : '2nd'} Innings: {team.name}</span>
+          <span>{innings.runs}/{innings.wickets} ({formatOvers(innings.legalBalls)} ov)</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6 pt-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Batter</TableHead>
+              <TableHead className="text-right">R</TableHead>
+              <TableHead className="text-right">B</TableHead>
+              <TableHead className="text-right">4s</TableHead>
+              <TableHead className="text-right">6s</TableHead>
+              <TableHead className="text-right">SR</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {innings.battingOrder.map(playerId => {
+              const batter = innings.batters[playerId];
+              const howOut = batter.isOut
+                ? (batter.dismissal ? formatDismissal(batter.dismissal, getPlayerName) : 'out')
+                : (inProgress && currentPair.includes(playerId) ? 'batting' : 'not out');
+              return (
+                <TableRow key={playerId}>
+                  <TableCell>
+                    <p className="font-medium">{getPlayerName(playerId)}{playerId === innings.striker && inProgress ? '*' : ''}</p>
+                    <p className="text-xs text-muted-foreground">{howOut}</p>
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">{batter.runs}</TableCell>
+                  <TableCell className="text-right">{batter.balls}</TableCell>
+                  <TableCell className="text-right">{batter.fours}</TableCell>
+                  <TableCell className="text-right">{batter.sixes}</TableCell>
+                  <TableCell className="text-right">{strikeRate(batter.runs, batter.balls).toFixed(2)}</TableCell>
+                </TableRow>
+              );
+            })}
+            <TableRow>
+              <TableCell>
+                <p className="font-medium">Extras</p>
+                <p className="text-xs text-muted-foreground">
+                  (w {extras.wides}, nb {extras.noBalls}, b {extras.byes}, lb {extras.legByes})
+                </p>
+              </TableCell>
+              <TableCell className="text-right font-semibold">{extras.total}</TableCell>
+              <TableCell colSpan={4} />
+            </TableRow>
+            <TableRow>
+              <TableCell className="font-semibold">Total</TableCell>
+              <TableCell className="text-right font-semibold">{innings.runs}/{innings.wickets}</TableCell>
+              <TableCell colSpan={4} className="text-muted-foreground">({formatOvers(innings.legalBalls)} overs)</TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+
+        {yetToBat.length > 0 && (
+          <p className="text-sm">
+            <span className="font-medium">{inProgress ? 'Yet to bat' : 'Did not bat'}: </span>
+            <span className="text-muted-foreground">{yetToBat.map(p => p.player.name).join(', ')}</span>
+          </p>
+        )}
+
+        {innings.bowlingOrder.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Bowler</TableHead>
+                <TableHead className="text-right">O</TableHead>
+                <TableHead className="text-right">M</TableHead>
+                <TableHead className="text-right">R</TableHead>
+                <TableHead className="text-right">W</TableHead>
+                <TableHead className="text-right">Econ</TableHead>
+                <TableHead className="text-right">Wd</TableHead>
+                <TableHead className="text-right">NB</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {innings.bowlingOrder.map(playerId => {
+                const bowler = innings.bowlers[playerId];
+                return (
+                  <TableRow key={playerId}>
+                    <TableCell className="font-medium">{getPlayerName(playerId)}</TableCell>
+                    <TableCell className="text-right">{formatOvers(bowler.balls)}</TableCell>
+                    <TableCell className="text-right">{bowler.maidens}</TableCell>
+                    <TableCell className="text-right">{bowler.runs}</TableCell>
+                    <TableCell className="text-right font-semibold">{bowler.wickets}</TableCell>
+                    <TableCell className="text-right">{economyRate(bowler.runs, bowler.balls).toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{bowler.wides}</TableCell>
+                    <TableCell className="text-right">{bowler.noBalls}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {innings.fallOfWickets.length > 0 && (
+          <div className="space-y-1">
+            <h4 className="text-sm font-semibold">Fall of Wickets</h4>
+            <p className="text-sm text-muted-foreground">
+              {innings.fallOfWickets
+                .map(fow => `${fow.wicket}-${fow.runs} (${getPlayerName(fow.playerId)}, ${formatOvers(fow.legalBalls)} ov)`)
+                .join(', ')}
+            </p>
+          </div>
+        )}
+
+        {(innings.partnerships.length > 0 || showCurrentPartnership) && (
+          <div className="space-y-1">
+            <h4 className="text-sm font-semibold">Partnerships</h4>
+            {innings.partnerships.map(partnership => (
+              <div key={partnership.wicket} className="flex items-center justify-between text-sm">
+                <span>{partnership.wicket}. {partnership.batterIds.map(getPlayerName).join(' & ')}</span>
+                <span className="font-mono">{partnership.runs} ({partnership.balls})</span>
+              </div>
+            ))}
+            {showCurrentPartnership && (
+              <div className="flex items-center justify-between text-sm">
+                <span>{innings.wickets + 1}. {currentPair.map(getPlayerName).join(' & ')} (unbroken)</span>
+                <span className="font-mono">{innings.partnership.runs} ({innings.partnership.balls})</span>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 const Scorecard: React.FC<ScorecardProps> = ({
   scores,
   battingTeam,
@@ -70,6 +225,7 @@ const Scorecard: React.FC<ScorecardProps> = ({
   currentOver,
   currentBall,
   totalOvers,
+  maxWickets,
   teamAPlayers,
   teamBPlayers,
   meta
@@ -77,21 +233,12 @@ const Scorecard: React.FC<ScorecardProps> = ({
   const currentInningScores = scores.filter(s => s.inning === currentInning);
   const previousInningScores = scores.filter(s => s.inning < currentInning);
 
-  const calculateTeamScore = (teamId: string, inning: number) => {
-    const teamScores = scores.filter(s => {
-      const isBatting = (inning === 1 && battingTeam.id === teamId) || 
-                       (inning === 2 && bowlingTeam.id === teamId);
-      return s.inning === inning && isBatting;
-    });
+  const matchState = computeMatch(scores, totalOvers, maxWickets);
 
-    const totalRuns = teamScores.reduce((sum, score) => sum + score.runs + (score.extras_runs || 0), 0);
-    const wickets = teamScores.filter(s => s.wicket_type).length;
-    
-    // Calculate overs properly using the utility function
-    const totalBalls = teamScores.length;
-    const overs = overToDecimal(Math.floor(totalBalls / 6), (totalBalls % 6) + 1);
-
-    return { runs: totalRuns, wickets, overs };
+  const calculateTeamScore = (inning: number) => {
+    const innings = matchState.innings[inning - 1];
+    if (!innings) return { runs: 0, wickets: 0, overs: formatOvers(0) };
+    return { runs: innings.runs, wickets: innings.wickets, overs: formatOvers(innings.legalBalls) };
   };
 
   const getPlayerName = (playerId: string) => {
@@ -101,6 +248,13 @@ const Scorecard: React.FC<ScorecardProps> = ({
     return player ? player.player.name : `Player ${playerId.slice(0, 8)}`;
   };
 
+  // The side batting in an innings and its players
+  const getInningsSquad = (inning: number) => {
+    const team = inning === currentInning ? battingTeam : bowlingTeam;
+    const squad = [...teamAPlayers, ...teamBPlayers].filter(p => p.team_id === team.id && p.is_playing_xi);
+    return { team, squad };
+  };
+
   const formatOver = (over: number, ball: number) => {
     return formatOverDisplay(over, ball);
   };
@@ -119,9 +273,9 @@ const Scorecard: React.FC<ScorecardProps> = ({
     return description;
   };
 
-  const currentTeamScore = calculateTeamScore(battingTeam.id, currentInning);
+  const currentTeamScore = calculateTeamScore(currentInning);
   const previousTeamScore = previousInningScores.length > 0 
-    ? calculateTeamScore(bowlingTeam.id, currentInning - 1) 
+    ? calculateTeamScore(currentInning - 1) 
     : null;
 
   return (
@@ -162,7 +316,7 @@ const Scorecard: React.FC<ScorecardProps> = ({
                     {currentTeamScore.runs}/{currentTeamScore.wickets}
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Overs: {formatOver(Math.floor(currentTeamScore.overs), Math.round((currentTeamScore.overs % 1) * 6))}
+                    Overs: {currentTeamScore.overs}
                   </p>
                 </div>
               </div>
@@ -195,7 +349,7 @@ const Scorecard: React.FC<ScorecardProps> = ({
           <div className="mt-3 p-2">
             <div className="flex items-center justify-between">
               <Badge variant="default" className="text-xs">
-                Inning {currentInning} • Over {currentOver}.{currentBall} • {totalOvers} overs match
+                Inning {currentInning} • Over {currentTeamScore.overs} • {totalOvers} overs match
               </Badge>
             </div>
           </div>
@@ -247,41 +401,21 @@ const Scorecard: React.FC<ScorecardProps> = ({
         </CardContent>
       </Card> */}
 
-      {/* Innings Summary */}
-      {previousInningScores.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Users className="h-5 w-5" />
-              Previous Innings
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-4">
-              {Array.from(new Set(previousInningScores.map(s => s.inning))).map(inning => {
-                const inningScores = previousInningScores.filter(s => s.inning === inning);
-                const teamScore = calculateTeamScore(bowlingTeam.id, inning);
-                
-                return (
-                  <div key={inning} className="p-4 border rounded-lg">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <h4 className="font-semibold">Inning {inning}</h4>
-                        <p className="text-sm text-muted-foreground">
-                          {bowlingTeam.name}: {teamScore.runs}/{teamScore.wickets}
-                        </p>
-                      </div>
-                      <Badge variant="outline">
-                        {formatOver(Math.floor(teamScore.overs), Math.round((teamScore.overs % 1) * 6))} overs
-                      </Badge>
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
-          </CardContent>
-        </Card>
-      )}
+      {/* Full scorecard for each innings that has started */}
+      {[1, 2].filter(inning => inning <= currentInning && scores.some(s => s.inning === inning)).map(inning => {
+        const innings = matchState.innings[inning - 1];
+        const { team, squad } = getInningsSquad(inning);
+        return (
+          <InningsScorecard
+            key={inning}
+            innings={innings}
+            team={team}
+            squad={squad}
+            inProgress={inning === currentInning && !innings.isComplete && meta?.status !== 'completed'}
+            getPlayerName={getPlayerName}
+          />
+        );
+      })}
     </div>
   );
 };
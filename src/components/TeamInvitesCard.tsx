@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Copy, Link2, Loader2, Plus, X } from 'lucide-react';
+import {
+  useCreateTeamInvite,
+  useRespondToJoinRequest,
+  useRevokeTeamInvite,
+  useTeamInvites,
+  useTeamJoinRequests
+} from '@/hooks/use-teams';
+
+interface TeamInvitesCardProps {
+  teamId: string;
+  profileId: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' }
+];
+
+const getInviteUrl = (token: string) => `${window.location.origin}/join/${token}`;
+
+// Captain's view of a team's invite links and the players waiting to be let in
+const TeamInvitesCard: React.FC<TeamInvitesCardProps> = ({ teamId, profileId }) => {
+  const { toast } = useToast();
+  const { data: invites = [], isLoading: invitesLoading } = useTeamInvites(teamId);
+  const { data: joinRequests = [], isLoading: requestsLoading } = useTeamJoinRequests(teamId);
+  const createInvite = useCreateTeamInvite(teamId);
+  const revokeInvite = useRevokeTeamInvite(teamId);
+  const respondToRequest = useRespondToJoinRequest(teamId);
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState('7');
+  const [singleUse, setSingleUse] = useState(false);
+
+  const respondingTo = respondToRequest.isPending ? respondToRequest.variables?.requestId : null;
+
+  const copyInviteLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(token));
+      toast({
+        title: "Link Copied",
+        description: "Invite link copied to clipboard"
+      });
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to copy invite link",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const createInviteLink = async () => {
+    try {
+      const invite = await createInvite.mutateAsync({
+        createdBy: profileId,
+        expiresInDays: parseInt(expiresInDays),
+        singleUse
+      });
+      setShowInviteDialog(false);
+      await copyInviteLink(invite.token);
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create invite link",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const revokeInviteLink = async (inviteId: string) => {
+    try {
+      await revokeInvite.mutateAsync(inviteId);
+      toast({
+        title: "Success",
+        description: "Invite link revoked"
+      });
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke invite link",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const respondToJoinRequest = async (requestId: string, approve: boolean) => {
+    try {
+      await respondToRequest.mutateAsync({ requestId, approve });
+      toast({
+        title: "Success",
+        description: approve ? "Player added to team" : "Join request rejected"
+      });
+    } catch (error) {
+      console.error('Error responding to join request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to respond to join request",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2"><Link2 className="h-5 w-5" /> Invites & Join Requests</CardTitle>
+            <CardDescription>Share a link to let players join, or approve players who asked</CardDescription>
+          </div>
+          <Dialog
+            open={showInviteDialog}
+            onOpenChange={(open) => {
+              setShowInviteDialog(open);
+              if (open) {
+                setExpiresInDays('7');
+                setSingleUse(false);
+              }
+            }}
+          >
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Plus className="h-4 w-4 mr-2" />
+                New Link
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>New Invite Link</DialogTitle>
+                <DialogDescription>
+                  Anyone signed in with the link joins the team straight away until it expires.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invite-expiry">Expires after</Label>
+                  <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                    <SelectTrigger id="invite-expiry">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPIRY_OPTIONS.map(option => (
+                        <SelectItem key={option.days} value={option.days.toString()}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="invite-single-use">Single use</Label>
+                  <Switch id="invite-single-use" checked={singleUse} onCheckedChange={setSingleUse} />
+                </div>
+              </div>
+              <div className="flex gap-2 pt-4">
+                <Button onClick={createInviteLink} disabled={createInvite.isPending}>
+                  {createInvite.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Creating...
+                    </>
+                  ) : (
+                    'Create & Copy Link'
+                  )}
+                </Button>
+                <Button variant="outline" onClick={() => setShowInviteDialog(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Join Requests</h4>
+          {requestsLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : joinRequests.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No one is waiting to join.</p>
+          ) : (
+            joinRequests.map(request => (
+              <div key={request.id} className="flex items-center justify-between p-3 border rounded-lg gap-3">
+                <div className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={request.player?.image_url || ''} />
+                    <AvatarFallback>{request.player?.name?.charAt(0)?.toUpperCase() || '?'}</AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <p className="font-medium">{request.player?.name || 'Unknown Player'}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {request.player?.batting_style || 'N/A'} • {request.player?.bowling_style || 'N/A'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => respondToJoinRequest(request.id, true)}
+                    disabled={respondingTo === request.id}
+                  >
+                    {respondingTo === request.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => respondToJoinRequest(request.id, false)}
+                    disabled={respondingTo === request.id}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Active Invite Links</h4>
+          {invitesLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin" />
+            </div>
+          ) : invites.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active invite links.</p>
+          ) : (
+            invites.map(invite => (
+              <div key={invite.id} className="flex items-center justify-between p-3 border rounded-lg gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-mono truncate">{getInviteUrl(invite.token)}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>Expires {new Date(invite.expires_at).toLocaleDateString()}</span>
+                    <span>• Used {invite.used_count} time{invite.used_count !== 1 ? 's' : ''}</span>
+                    {invite.single_use && <Badge variant="secondary" className="text-xs">Single use</Badge>}
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <Button size="sm" variant="outline" onClick={() => copyInviteLink(invite.token)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => revokeInviteLink(invite.id)}
+                    disabled={revokeInvite.isPending && revokeInvite.variables === invite.id}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TeamInvitesCard;
@@ -3,7 +3,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { useUpdateMatch } from '@/hooks/use-matches';
 import { Loader2, Shuffle } from 'lucide-react';
 
 interface Team {
@@ -22,9 +22,9 @@ interface TossStepProps {
 
 const TossStep: React.FC<TossStepProps> = ({ matchId, teamA, teamB, onSaved }) => {
   const { toast } = useToast();
+  const updateMatch = useUpdateMatch(matchId);
   const [isTossing, setIsTossing] = useState(false);
   const [winner, setWinner] = useState<Team | null>(null);
-  const [saving, setSaving] = useState(false);
   const [displayText, setDisplayText] = useState('Ready for toss');
   const intervalRef = useRef<number | null>(null);
 
@@ -49,22 +49,14 @@ const TossStep: React.FC<TossStepProps> = ({ matchId, teamA, teamB, onSaved }) =
 
   const saveDecision = async (decision: 'bat' | 'bowl') => {
     if (!winner) return;
-    setSaving(true);
     try {
-      const { error } = await supabase
-        .from('matches')
-        .update({ toss_winner_id: winner.id, toss_decision: decision })
-        .eq('id', matchId);
-
-      if (error) throw error;
+      await updateMatch.mutateAsync({ toss_winner_id: winner.id, toss_decision: decision });
 
       toast({ title: 'Toss saved', description: `${winner.name} chose to ${decision}.` });
       onSaved(winner, decision);
     } catch (e) {
       console.error(e);
       toast({ title: 'Error', description: 'Failed to save toss', variant: 'destructive' });
-    } finally {
-      setSaving(false);
     }
   };
 
@@ -96,11 +88,11 @@ const TossStep: React.FC<TossStepProps> = ({ matchId, teamA, teamB, onSaved }) =
               <Badge variant="default">{winner.name} won the toss</Badge>
             </div>
             <div className="grid grid-cols-2 gap-2">
-              <Button onClick={() => saveDecision('bat')} disabled={saving}>
-                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+              <Button onClick={() => saveDecision('bat')} disabled={updateMatch.isPending}>
+                {updateMatch.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
                 Bat
               </Button>
-              <Button onClick={() => saveDecision('bowl')} variant="outline" disabled={saving}>
+              <Button onClick={() => saveDecision('bowl')} variant="outline" disabled={updateMatch.isPending}>
                 Bowl
               </Button>
             </div>
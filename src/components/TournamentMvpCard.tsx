@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Award, Loader2, Settings } from 'lucide-react';
+import { useTournamentMvpStandings, useUpdateMvpRules } from '@/hooks/use-tournaments';
+import { MVP_RULE_LABELS, parseMvpRules, type MvpRules } from '@/utils/mvp';
+
+interface TournamentMvpCardProps {
+  tournamentId: string;
+  mvpRules: unknown;
+  canEditRules: boolean;
+  onRulesSaved: (rules: MvpRules) => void;
+}
+
+// Season MVP ranking for a tournament, with the scoring rules its creator can change
+const TournamentMvpCard: React.FC<TournamentMvpCardProps> = ({ tournamentId, mvpRules, canEditRules, onRulesSaved }) => {
+  const { toast } = useToast();
+  const { data: standings = [], isLoading } = useTournamentMvpStandings(tournamentId);
+  const updateRules = useUpdateMvpRules(tournamentId);
+  const [showRulesDialog, setShowRulesDialog] = useState(false);
+  const [rulesForm, setRulesForm] = useState<MvpRules>(() => parseMvpRules(mvpRules));
+
+  const saveRules = async () => {
+    try {
+      await updateRules.mutateAsync(rulesForm);
+      onRulesSaved(rulesForm);
+      setShowRulesDialog(false);
+      toast({
+        title: "Success",
+        description: "MVP rules saved"
+      });
+    } catch (error) {
+      console.error('Error saving MVP rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save MVP rules",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2"><Award className="h-5 w-5" /> Season MVP</CardTitle>
+            <CardDescription>MVP points added up across the tournament's completed matches</CardDescription>
+          </div>
+          {canEditRules && (
+            <Dialog
+              open={showRulesDialog}
+              onOpenChange={(open) => {
+                setShowRulesDialog(open);
+                if (open) setRulesForm(parseMvpRules(mvpRules));
+              }}
+            >
+              <DialogTrigger asChild>
+                <Button variant="outline">
+                  <Settings className="h-4 w-4 mr-2" />
+                  MVP Rules
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>MVP Rules</DialogTitle>
+                  <DialogDescription>
+                    Points for each contribution. New rules apply to matches completed after saving.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="grid grid-cols-2 gap-4">
+                  {(Object.keys(MVP_RULE_LABELS) as (keyof MvpRules)[]).map(rule => (
+                    <div key={rule} className="space-y-2">
+                      <Label htmlFor={`mvp-${rule}`}>{MVP_RULE_LABELS[rule]}</Label>
+                      <Input
+                        id={`mvp-${rule}`}
+                        type="number"
+                        step="0.1"
+                        value={rulesForm[rule]}
+                        onChange={(e) => setRulesForm(prev => ({ ...prev, [rule]: parseFloat(e.target.value) || 0 }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 pt-4">
+                  <Button onClick={saveRules} disabled={updateRules.isPending}>
+                    {updateRules.isPending ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Rules'
+                    )}
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowRulesDialog(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : standings.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">No completed matches yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Player</TableHead>
+                <TableHead>M</TableHead>
+                <TableHead>POTM</TableHead>
+                <TableHead>Points</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {standings.map(standing => (
+                <TableRow key={standing.player_id}>
+                  <TableCell className="font-medium">{standing.rank}</TableCell>
+                  <TableCell>
+                    <Link to={`/profile?playerId=${standing.player_id}`} className="flex items-center gap-2 hover:underline">
+                      <Avatar className="h-6 w-6">
+                        <AvatarImage src={standing.player?.image_url || ''} />
+                        <AvatarFallback className="text-xs">{standing.player?.name?.charAt(0) || 'P'}</AvatarFallback>
+                      </Avatar>
+                      <span>{standing.player?.name || 'Unknown Player'}</span>
+                    </Link>
+                  </TableCell>
+                  <TableCell>{standing.matches}</TableCell>
+                  <TableCell>{standing.awards}</TableCell>
+                  <TableCell className="font-semibold">{standing.points}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TournamentMvpCard;
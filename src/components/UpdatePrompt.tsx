@@ -0,0 +1,36 @@
+import React from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { RefreshCw, X } from 'lucide-react';
+
+// Offers to reload when a new build has been deployed
+const UpdatePrompt: React.FC = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisterError(error) {
+      console.error('Error registering service worker:', error);
+    }
+  });
+
+  if (!needRefresh) return null;
+
+  return (
+    <Card className="fixed bottom-4 left-4 right-4 z-50 sm:left-auto sm:w-80 shadow-lg">
+      <CardContent className="flex items-center gap-3 py-4">
+        <p className="flex-1 text-sm">A new version of the app is available.</p>
+        <Button size="sm" onClick={() => updateServiceWorker(true)}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Reload
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setNeedRefresh(false)}>
+          <X className="h-4 w-4" />
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UpdatePrompt;
@@ -72,6 +72,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    // The service worker keeps the last database reads for offline use (see vite.config.ts).
+    // They were fetched as this user, so the next person on this device must not see them.
+    if ('caches' in window) {
+      await caches.delete('supabase-data');
+    }
     // Redirect to auth page after logout
     window.location.href = '/auth';
   };
@@ -0,0 +1,13 @@
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { fetchLeaderboard, type LeaderboardFilters } from '@/lib/db';
+
+export const leaderboardKeys = {
+  filtered: (filters: LeaderboardFilters) => ['leaderboard', filters] as const
+};
+
+// Keeps showing the last tables while a new filter loads
+export const useLeaderboard = (filters: LeaderboardFilters) => useQuery({
+  queryKey: leaderboardKeys.filtered(filters),
+  queryFn: () => fetchLeaderboard(filters),
+  placeholderData: keepPreviousData
+});
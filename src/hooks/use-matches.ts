@@ -0,0 +1,287 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  fetchMatch,
+  fetchMatchMvpPoints,
+  fetchMatchPlayerTeams,
+  fetchMatches,
+  fetchMatchPlayers,
+  fetchMatchScoreEdits,
+  fetchMatchScorers,
+  fetchMatchScores,
+  fetchTeamRosters,
+  fetchTournamentOptions,
+  type MatchPlayerWithProfile,
+  type MatchRow,
+  type MatchWithTeams
+} from '@/lib/db';
+import { getQueuedScores, toScoreRow } from '@/utils/scoreQueue';
+
+export const matchKeys = {
+  all: ['matches'] as const,
+  totals: (matchIds: string[]) => ['matches', 'totals', matchIds] as const,
+  detail: (matchId: string) => ['match', matchId] as const,
+  players: (matchId: string) => ['match', matchId, 'players'] as const,
+  scores: (matchId: string) => ['match', matchId, 'scores'] as const,
+  queuedScores: (matchId: string) => ['match', matchId, 'scores', 'queued'] as const,
+  edits: (matchId: string) => ['match', matchId, 'edits'] as const,
+  mvp: (matchId: string) => ['match', matchId, 'mvp'] as const,
+  scorers: (matchId: string) => ['match', matchId, 'scorers'] as const
+};
+
+export const tournamentOptionKeys = {
+  all: ['tournaments', 'options'] as const
+};
+
+export const useMatches = () => useQuery({
+  queryKey: matchKeys.all,
+  queryFn: fetchMatches
+});
+
+// Balls and squads of finished matches, enough to work out each side's total
+export const useMatchTotals = (matchIds: string[]) => useQuery({
+  queryKey: matchKeys.totals(matchIds),
+  queryFn: async () => {
+    const [scores, playerTeams] = await Promise.all([
+      fetchMatchScores(matchIds),
+      fetchMatchPlayerTeams(matchIds)
+    ]);
+    return { scores, playerTeams };
+  },
+  enabled: matchIds.length > 0
+});
+
+export const useMatchMvpPoints = (matchId: string) => useQuery({
+  queryKey: matchKeys.mvp(matchId),
+  queryFn: () => fetchMatchMvpPoints(matchId)
+});
+
+export const useMatchScorers = (matchId: string | undefined) => useQuery({
+  queryKey: matchKeys.scorers(matchId as string),
+  queryFn: () => fetchMatchScorers(matchId as string),
+  enabled: !!matchId
+});
+
+export const useMatchScoreEdits = (matchId: string | undefined) => useQuery({
+  queryKey: matchKeys.edits(matchId as string),
+  queryFn: () => fetchMatchScoreEdits(matchId as string),
+  enabled: !!matchId
+});
+
+export const useTournamentOptions = () => useQuery({
+  queryKey: tournamentOptionKeys.all,
+  queryFn: fetchTournamentOptions
+});
+
+/**
+ * Loads the squads of a match, falling back to the full team rosters before the squads are picked
+ * @param match - The match
+ * @returns The players of both teams
+ */
+export const fetchMatchSquads = async (match: MatchWithTeams): Promise<MatchPlayerWithProfile[]> => {
+  const matchPlayers = await fetchMatchPlayers(match.id);
+  if (matchPlayers.length > 0) return matchPlayers;
+
+  const rosters = await fetchTeamRosters([match.team_a.id, match.team_b.id]);
+  return rosters.map(r => ({
+    id: r.id,
+    match_id: match.id,
+    player_id: r.player_id,
+    team_id: r.team_id,
+    is_playing_xi: true,
+    created_at: r.joined_at,
+    player: r.player
+  }));
+};
+
+// Shared by the match page, which renders from these queries and writes live changes into them
+export const matchQueries = {
+  detail: (matchId: string) => ({
+    queryKey: matchKeys.detail(matchId),
+    queryFn: () => fetchMatch(matchId)
+  }),
+  // Waits for the match, whose teams the rosters fall back to
+  players: (matchId: string, match: MatchWithTeams | undefined) => ({
+    queryKey: matchKeys.players(matchId),
+    queryFn: () => fetchMatchSquads(match as MatchWithTeams),
+    enabled: !!match
+  }),
+  // Scoring must start from the latest balls, so these are always refetched
+  scores: (matchId: string) => ({
+    queryKey: matchKeys.scores(matchId),
+    queryFn: () => fetchMatchScores([matchId]),
+    staleTime: 0
+  }),
+  // Balls recorded offline on this device, shown before they have synced
+  queuedScores: (matchId: string) => ({
+    queryKey: matchKeys.queuedScores(matchId),
+    queryFn: () => getQueuedScores(matchId).then(queued => queued.map(toScoreRow)).catch(() => []),
+    staleTime: 0
+  })
+};
+
+interface NewMatch {
+  name: string;
+  date: string;
+  time: string;
+  location: string | null;
+  team_a_id: string;
+  team_b_id: string;
+  overs: number;
+  created_by: string;
+  tournament_id: string | null;
+}
+
+export const useCreateMatch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ tournament_id, ...newMatch }: NewMatch) => {
+      const { data: match, error } = await supabase
+        .from('matches')
+        .insert(newMatch)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      // Link the match to its tournament
+      if (tournament_id) {
+        const { error: tournamentError } = await supabase
+          .from('tournament_matches')
+          .insert({ tournament_id, match_id: match.id });
+
+        if (tournamentError) throw tournamentError;
+      }
+      return match;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: matchKeys.all });
+    }
+  });
+};
+
+export const useDeleteMatch = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (matchId: string) => {
+      const { error } = await supabase.from('matches').delete().eq('id', matchId);
+      if (error) throw error;
+    },
+    onSuccess: (_, matchId) => {
+      queryClient.removeQueries({ queryKey: matchKeys.detail(matchId) });
+      queryClient.invalidateQueries({ queryKey: matchKeys.all });
+    }
+  });
+};
+
+export const useAssignMatchScorer = (matchId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ scorerId, assignedBy }: { scorerId: string; assignedBy: string }) => {
+      const { error } = await supabase
+        .from('match_scorers')
+        .insert({ match_id: matchId, scorer_id: scorerId, assigned_by: assignedBy });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: matchKeys.scorers(matchId) });
+    }
+  });
+};
+
+export const useRemoveMatchScorer = (matchId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (scorerId: string) => {
+      const { error } = await supabase
+        .from('match_scorers')
+        .delete()
+        .eq('match_id', matchId)
+        .eq('scorer_id', scorerId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: matchKeys.scorers(matchId) });
+      // Removing the active scorer frees the match for the others
+      queryClient.invalidateQueries({ queryKey: matchKeys.detail(matchId), exact: true });
+    }
+  });
+};
+
+// Passes scoring to another scorer along with the crease they carry on from
+export const useHandOverScoring = (matchId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ toScorerId, batsmen, bowlerId }: { toScorerId: string; batsmen?: string[]; bowlerId?: string }) => {
+      const { error } = await supabase.rpc('hand_over_scoring', {
+        handover_match_id: matchId,
+        to_scorer_id: toScorerId,
+        batsmen,
+        bowler_id: bowlerId
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: matchKeys.detail(matchId), exact: true });
+    }
+  });
+};
+
+// Opens the first innings and claims the match for this scorer. Only one device can win the
+// claim: the update matches no row once another scorer holds the match, and resolves to false.
+export const useStartScoring = (matchId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ scorerId, batsmen, bowlerId }: { scorerId: string; batsmen: string[]; bowlerId: string }) => {
+      const { data, error } = await supabase
+        .from('matches')
+        .update({
+          status: 'in_progress',
+          current_batsmen: batsmen,
+          current_bowler_id: bowlerId,
+          active_scorer_id: scorerId
+        })
+        .eq('id', matchId)
+        .is('active_scorer_id', null)
+        .select('id');
+
+      if (error) throw error;
+      return data.length > 0;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: matchKeys.detail(matchId), exact: true });
+      queryClient.invalidateQueries({ queryKey: matchKeys.all });
+    }
+  });
+};
+
+// Saves match columns and writes them into the cached match so other pages see them straight away
+export const useUpdateMatch = (matchId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changes: Partial<MatchRow>) => {
+      const { error } = await supabase
+        .from('matches')
+        .update(changes)
+        .eq('id', matchId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, changes) => {
+      queryClient.setQueryData<MatchWithTeams>(matchKeys.detail(matchId), match =>
+        match ? { ...match, ...changes } : match
+      );
+      queryClient.invalidateQueries({ queryKey: matchKeys.all });
+    }
+  });
+};
@@ -0,0 +1,214 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import {
+  fetchGuestProfileClaim,
+  fetchIsPlatformAdmin,
+  fetchPlayerCareerStats,
+  fetchPlayerMatchStats,
+  fetchProfileByUser,
+  fetchSeasonMvpStandings,
+  type ProfileRow
+} from '@/lib/db';
+import { economyRate, formatOvers, strikeRate } from '@/utils/scoringEngine';
+
+export const profileKeys = {
+  byUser: (userId: string) => ['profile', userId] as const,
+  stats: (profileId: string) => ['player-stats', profileId] as const,
+  mvp: (profileId: string) => ['player-mvp', profileId] as const,
+  guestClaim: (code: string) => ['guest-claim', code] as const,
+  admin: (profileId: string) => ['platform-admin', profileId] as const
+};
+
+export interface PlayerMatchRow {
+  id: string;
+  name: string;
+  date: string;
+  overs: number;
+  batRuns: number;
+  batBalls: number;
+  batSR: number;
+  batOut: boolean;
+  bowlBalls: number;
+  bowlOvers: string;
+  bowlRuns: number;
+  bowlWkts: number;
+  bowlEcon: number;
+  outcome: 'W' | 'L' | 'T' | 'NR' | null;
+}
+
+export interface PlayerStats {
+  matches: number;
+  innings: number;
+  runs: number;
+  ballsFaced: number;
+  dismissals: number;
+  fifties: number;
+  hundreds: number;
+  fours: number;
+  sixes: number;
+  highestScore: { runs: number; notOut: boolean } | null;
+  wickets: number;
+  ballsBowled: number;
+  runsConceded: number;
+  bestBowling: { wickets: number; runs: number } | null;
+  catches: number;
+  stumpings: number;
+  runOuts: number;
+  record: { won: number; lost: number; tied: number; noResult: number };
+  matchRows: PlayerMatchRow[];
+}
+
+// Career totals and per-match figures, both aggregated by the database views
+const fetchPlayerStats = async (profileId: string): Promise<PlayerStats> => {
+  const [career, matches] = await Promise.all([
+    fetchPlayerCareerStats(profileId),
+    fetchPlayerMatchStats(profileId)
+  ]);
+
+  const matchRows = matches.map((match): PlayerMatchRow => ({
+    id: match.match_id,
+    name: match.name,
+    date: match.date,
+    overs: match.overs,
+    batRuns: match.bat_runs,
+    batBalls: match.bat_balls,
+    batSR: strikeRate(match.bat_runs, match.bat_balls),
+    batOut: match.is_out,
+    bowlBalls: match.bowl_balls,
+    bowlOvers: formatOvers(match.bowl_balls),
+    bowlRuns: match.bowl_runs,
+    bowlWkts: match.bowl_wickets,
+    bowlEcon: economyRate(match.bowl_runs, match.bowl_balls),
+    outcome: match.outcome,
+  }));
+
+  if (!career) {
+    return {
+      matches: 0, innings: 0, runs: 0, ballsFaced: 0, dismissals: 0, fifties: 0, hundreds: 0, fours: 0, sixes: 0,
+      highestScore: null, wickets: 0, ballsBowled: 0, runsConceded: 0, bestBowling: null, catches: 0, stumpings: 0, runOuts: 0,
+      record: { won: 0, lost: 0, tied: 0, noResult: 0 }, matchRows
+    };
+  }
+
+  return {
+    matches: career.matches,
+    innings: career.innings,
+    runs: career.runs,
+    ballsFaced: career.balls_faced,
+    dismissals: career.dismissals,
+    fifties: career.fifties,
+    hundreds: career.hundreds,
+    fours: career.fours,
+    sixes: career.sixes,
+    highestScore: career.highest_score === null
+      ? null
+      : { runs: career.highest_score, notOut: !!career.highest_score_not_out },
+    wickets: career.wickets,
+    ballsBowled: career.balls_bowled,
+    runsConceded: career.runs_conceded,
+    bestBowling: career.best_bowling_wickets === null
+      ? null
+      : { wickets: career.best_bowling_wickets, runs: career.best_bowling_runs ?? 0 },
+    catches: career.catches,
+    stumpings: career.stumpings,
+    runOuts: career.run_outs,
+    record: { won: career.won, lost: career.lost, tied: career.tied, noResult: career.no_result },
+    matchRows
+  };
+};
+
+// The signed-in user's profile, or null before one has been created
+export const useCurrentProfile = (userId: string | undefined) => useQuery({
+  queryKey: profileKeys.byUser(userId as string),
+  queryFn: () => fetchProfileByUser(userId as string),
+  enabled: !!userId
+});
+
+// Admins moderate every team, match and profile
+export const usePlatformAdmin = (profileId: string | undefined) => useQuery({
+  queryKey: profileKeys.admin(profileId as string),
+  queryFn: () => fetchIsPlatformAdmin(profileId as string),
+  enabled: !!profileId
+});
+
+export const usePlayerStats = (profileId: string) => useQuery({
+  queryKey: profileKeys.stats(profileId),
+  queryFn: () => fetchPlayerStats(profileId),
+  enabled: !!profileId
+});
+
+export const useSeasonMvpStandings = (profileId: string) => useQuery({
+  queryKey: profileKeys.mvp(profileId),
+  queryFn: () => fetchSeasonMvpStandings(profileId),
+  enabled: !!profileId
+});
+
+// Creates the profile for a user who signed up before profiles were made automatically
+export const useCreateProfile = (userId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .insert({ user_id: userId as string, name, image_url: null, batting_style: null, bowling_style: null })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ProfileRow;
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData(profileKeys.byUser(userId as string), profile);
+    }
+  });
+};
+
+export const useUpdateProfile = (userId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changes: TablesUpdate<'profiles'>) => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .update(changes)
+        .eq('user_id', userId as string)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ProfileRow;
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData(profileKeys.byUser(userId as string), profile);
+      // Names and photos show up on squads and scorecards
+      queryClient.invalidateQueries({ queryKey: ['team'] });
+      queryClient.invalidateQueries({ queryKey: ['teams'] });
+      queryClient.invalidateQueries({ queryKey: ['match'] });
+    }
+  });
+};
+
+export const useGuestProfileClaim = (code: string | undefined) => useQuery({
+  queryKey: profileKeys.guestClaim(code as string),
+  queryFn: () => fetchGuestProfileClaim(code as string),
+  enabled: !!code
+});
+
+// Moves a guest's squads, balls and awards to the signed-in player's profile
+export const useClaimGuestProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const { data, error } = await supabase.rpc('claim_guest_profile', { claim_code: code });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      // The guest's id disappears from every squad, scorecard and stat, so nothing cached is still right
+      queryClient.invalidateQueries();
+    }
+  });
+};
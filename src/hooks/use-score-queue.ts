@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  describeRejection,
+  getInsertOutcome,
+  getQueuedScores,
+  putQueuedScore,
+  removeQueuedScore,
+  toScoreRow,
+  type QueuedScore,
+  type QueuedScoreRow
+} from '@/utils/scoreQueue';
+
+// Balls recorded offline for a match, replayed to Supabase in order when the connection returns
+export const useScoreQueue = (matchId: string) => {
+  const [queuedScores, setQueuedScores] = useState<QueuedScore[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setQueuedScores(await getQueuedScores(matchId));
+    } catch (error) {
+      console.error('Error reading score queue:', error);
+    }
+  }, [matchId]);
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    setSyncing(true);
+
+    try {
+      for (const queued of await getQueuedScores(matchId)) {
+        // Later balls wait until the scorer has dealt with a refused one
+        if (queued.conflict) break;
+
+        const { error } = await supabase
+          .from('match_scores')
+          .insert(toScoreRow(queued));
+
+        const outcome = getInsertOutcome(error);
+        if (outcome === 'offline') break;
+        if (outcome === 'rejected' && error) {
+          await putQueuedScore({ ...queued, conflict: describeRejection(error) });
+          break;
+        }
+        await removeQueuedScore(queued.id);
+      }
+    } catch (error) {
+      console.error('Error syncing queued scores:', error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await refresh();
+    }
+  }, [matchId, refresh]);
+
+  useEffect(() => {
+    refresh();
+    if (navigator.onLine) sync();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [refresh, sync]);
+
+  const enqueue = async (row: QueuedScoreRow) => {
+    await putQueuedScore({ ...row, queued_at: Date.now(), conflict: null });
+    await refresh();
+  };
+
+  const discard = async (id: string) => {
+    await removeQueuedScore(id);
+    await refresh();
+    sync();
+  };
+
+  const retry = async (id: string) => {
+    const queued = queuedScores.find(q => q.id === id);
+    if (!queued) return;
+    await putQueuedScore({ ...queued, conflict: null });
+    await sync();
+  };
+
+  return {
+    queuedScores,
+    conflicts: queuedScores.filter(q => q.conflict),
+    isOnline,
+    syncing,
+    enqueue,
+    discard,
+    retry,
+    sync
+  };
+};
@@ -0,0 +1,388 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  fetchOwnJoinRequest,
+  fetchTeam,
+  fetchTeamInvite,
+  fetchTeamInvites,
+  fetchTeamJoinRequests,
+  fetchTeamMembers,
+  fetchTeams,
+  type TeamMember,
+  type TeamRole,
+  type TeamRow
+} from '@/lib/db';
+
+export const teamKeys = {
+  all: ['teams'] as const,
+  detail: (teamId: string) => ['team', teamId] as const,
+  members: (teamId: string) => ['team', teamId, 'members'] as const,
+  invites: (teamId: string) => ['team', teamId, 'invites'] as const,
+  joinRequests: (teamId: string) => ['team', teamId, 'join-requests'] as const,
+  ownJoinRequest: (teamId: string, profileId: string) => ['team', teamId, 'join-requests', profileId] as const,
+  invite: (token: string) => ['team-invite', token] as const
+};
+
+export const useTeams = () => useQuery({
+  queryKey: teamKeys.all,
+  queryFn: fetchTeams
+});
+
+export const useTeam = (teamId: string | undefined) => useQuery({
+  queryKey: teamKeys.detail(teamId as string),
+  queryFn: () => fetchTeam(teamId as string),
+  enabled: !!teamId
+});
+
+export const useTeamMembers = (teamId: string | undefined) => useQuery({
+  queryKey: teamKeys.members(teamId as string),
+  queryFn: () => fetchTeamMembers(teamId as string),
+  enabled: !!teamId
+});
+
+interface NewTeam {
+  name: string;
+  description: string | null;
+  logo_url: string | null;
+  captainId: string;
+  addCaptain: boolean;
+}
+
+export const useCreateTeam = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ captainId, addCaptain, ...team }: NewTeam) => {
+      const { data, error } = await supabase
+        .from('teams')
+        .insert({ ...team, captain_id: captainId })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (addCaptain) {
+        const { error: playerError } = await supabase
+          .from('team_players')
+          .insert({ team_id: data.id, player_id: captainId, role: 'captain' });
+
+        if (playerError) {
+          console.warn('Team created but failed to add captain as player:', playerError);
+        }
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    }
+  });
+};
+
+export const useUpdateTeam = (teamId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (changes: Partial<Pick<TeamRow, 'name' | 'description' | 'logo_url'>>) => {
+      const { error } = await supabase
+        .from('teams')
+        .update(changes)
+        .eq('id', teamId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.detail(teamId) });
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+      // Logos show up on match cards and scorecards
+      queryClient.invalidateQueries({ queryKey: ['match'] });
+      queryClient.invalidateQueries({ queryKey: ['matches'] });
+    }
+  });
+};
+
+export const useDeleteTeam = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (teamId: string) => {
+      const { error } = await supabase.from('teams').delete().eq('id', teamId);
+      if (error) throw error;
+    },
+    onSuccess: (_, teamId) => {
+      queryClient.removeQueries({ queryKey: teamKeys.detail(teamId) });
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    }
+  });
+};
+
+export const useAddTeamPlayer = (teamId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (playerId: string) => {
+      const { error } = await supabase
+        .from('team_players')
+        .insert({ team_id: teamId, player_id: playerId, role: 'player' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.members(teamId) });
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    }
+  });
+};
+
+interface NewGuestPlayer {
+  createdBy: string;
+  name: string;
+}
+
+// Creates a profile for a player without an account and puts it in the squad
+export const useAddGuestPlayer = (teamId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ createdBy, name }: NewGuestPlayer) => {
+      const { data: guest, error } = await supabase
+        .from('profiles')
+        .insert({ name, is_guest: true, created_by: createdBy })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const { error: playerError } = await supabase
+        .from('team_players')
+        .insert({ team_id: teamId, player_id: guest.id, role: 'player' });
+
+      if (playerError) throw playerError;
+      return guest.id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.members(teamId) });
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    }
+  });
+};
+
+// Removes a player straight away and puts them back if the delete fails
+export const useRemoveTeamPlayer = (teamId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (memberId: string) => {
+      const { error } = await supabase.from('team_players').delete().eq('id', memberId);
+      if (error) throw error;
+    },
+    onMutate: async (memberId) => {
+      await queryClient.cancelQueries({ queryKey: teamKeys.members(teamId) });
+      const previous = queryClient.getQueryData<TeamMember[]>(teamKeys.members(teamId));
+      queryClient.setQueryData<TeamMember[]>(teamKeys.members(teamId), members =>
+        members?.filter(m => m.id !== memberId)
+      );
+      return { previous };
+    },
+    onError: (_, __, context) => {
+      queryClient.setQueryData(teamKeys.members(teamId), context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.members(teamId) });
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    }
+  });
+};
+
+// Changes a player's role. A new captain takes over from the old one, who becomes a player.
+// The team's captain_id moves last: until then the old captain still has the rights to make the change.
+export const useUpdateTeamPlayerRole = (teamId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: string; role: TeamRole }) => {
+      const { error } = await supabase
+        .from('team_players')
+        .update({ role })
+        .eq('id', memberId);
+
+      if (error) throw error;
+
+      if (role === 'captain') {
+        // The cached squad already shows the change, so the old captain is found in the database
+        const { error: demoteError } = await supabase
+          .from('team_players')
+          .update({ role: 'player' })
+          .eq('team_id', teamId)
+          .eq('role', 'captain')
+          .neq('id', memberId);
+
+        if (demoteError) throw demoteError;
+
+        const members = queryClient.getQueryData<TeamMember[]>(teamKeys.members(teamId)) || [];
+        const { error: teamError } = await supabase
+          .from('teams')
+          .update({ captain_id: members.find(m => m.id === memberId)?.player_id })
+          .eq('id', teamId);
+
+        if (teamError) throw teamError;
+      }
+    },
+    onMutate: async ({ memberId, role }) => {
+      await queryClient.cancelQueries({ queryKey: teamKeys.members(teamId) });
+      const previous = queryClient.getQueryData<TeamMember[]>(teamKeys.members(teamId));
+      queryClient.setQueryData<TeamMember[]>(teamKeys.members(teamId), members =>
+        members?.map(m => {
+          if (m.id === memberId) return { ...m, role };
+          if (role === 'captain' && m.role === 'captain') return { ...m, role: 'player' };
+          return m;
+        })
+      );
+      return { previous };
+    },
+    onError: (_, __, context) => {
+      queryClient.setQueryData(teamKeys.members(teamId), context?.previous);
+    },
+    onSettled: (_, __, { role }) => {
+      if (role === 'captain') {
+        queryClient.invalidateQueries({ queryKey: teamKeys.detail(teamId) });
+        queryClient.invalidateQueries({ queryKey: teamKeys.all });
+      } else {
+        queryClient.invalidateQueries({ queryKey: teamKeys.members(teamId) });
+      }
+    }
+  });
+};
+
+export const useTeamInvites = (teamId: string | undefined) => useQuery({
+  queryKey: teamKeys.invites(teamId as string),
+  queryFn: () => fetchTeamInvites(teamId as string),
+  enabled: !!teamId
+});
+
+interface NewTeamInvite {
+  createdBy: string;
+  expiresInDays: number;
+  singleUse: boolean;
+}
+
+export const useCreateTeamInvite = (teamId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ createdBy, expiresInDays, singleUse }: NewTeamInvite) => {
+      const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000);
+      const { data, error } = await supabase
+        .from('team_invites')
+        .insert({ team_id: teamId, created_by: createdBy, expires_at: expiresAt.toISOString(), single_use: singleUse })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.invites(teamId) });
+    }
+  });
+};
+
+export const useRevokeTeamInvite = (teamId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (inviteId: string) => {
+      const { error } = await supabase
+        .from('team_invites')
+        .update({ revoked: true })
+        .eq('id', inviteId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.invites(teamId) });
+    }
+  });
+};
+
+export const useTeamInvite = (token: string | undefined) => useQuery({
+  queryKey: teamKeys.invite(token as string),
+  queryFn: () => fetchTeamInvite(token as string),
+  enabled: !!token
+});
+
+// Joins the team of an invite link and returns the team id
+export const useAcceptTeamInvite = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const { data, error } = await supabase.rpc('accept_team_invite', { invite_token: token });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (teamId, token) => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.invite(token) });
+      queryClient.invalidateQueries({ queryKey: ['team', teamId] });
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    }
+  });
+};
+
+export const useTeamJoinRequests = (teamId: string | undefined) => useQuery({
+  queryKey: teamKeys.joinRequests(teamId as string),
+  queryFn: () => fetchTeamJoinRequests(teamId as string),
+  enabled: !!teamId
+});
+
+export const useOwnJoinRequest = (teamId: string | undefined, profileId: string | undefined) => useQuery({
+  queryKey: teamKeys.ownJoinRequest(teamId as string, profileId as string),
+  queryFn: () => fetchOwnJoinRequest(teamId as string, profileId as string),
+  enabled: !!teamId && !!profileId
+});
+
+export const useRequestToJoinTeam = (teamId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('request_to_join_team', { join_team_id: teamId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.joinRequests(teamId) });
+    }
+  });
+};
+
+export const useWithdrawJoinRequest = (teamId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (requestId: string) => {
+      const { error } = await supabase.from('team_join_requests').delete().eq('id', requestId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.joinRequests(teamId) });
+    }
+  });
+};
+
+// The captain approves a request, adding the player to the squad, or rejects it
+export const useRespondToJoinRequest = (teamId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ requestId, approve }: { requestId: string; approve: boolean }) => {
+      const { error } = await supabase.rpc('respond_to_join_request', { request_id: requestId, approve });
+      if (error) throw error;
+    },
+    onSuccess: (_, { approve }) => {
+      queryClient.invalidateQueries({ queryKey: teamKeys.joinRequests(teamId) });
+      if (approve) {
+        queryClient.invalidateQueries({ queryKey: teamKeys.members(teamId) });
+        queryClient.invalidateQueries({ queryKey: teamKeys.all });
+      }
+    }
+  });
+};
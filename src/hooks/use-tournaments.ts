@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchTournamentMvpStandings } from '@/lib/db';
+import type { MvpRules } from '@/utils/mvp';
+
+export const tournamentKeys = {
+  mvp: (tournamentId: string) => ['tournament', tournamentId, 'mvp'] as const
+};
+
+export const useTournamentMvpStandings = (tournamentId: string) => useQuery({
+  queryKey: tournamentKeys.mvp(tournamentId),
+  queryFn: () => fetchTournamentMvpStandings(tournamentId)
+});
+
+export const useUpdateMvpRules = (tournamentId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rules: MvpRules) => {
+      const { error } = await supabase
+        .from('tournaments')
+        .update({ mvp_rules: { ...rules } })
+        .eq('id', tournamentId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tournamentKeys.mvp(tournamentId) });
+    }
+  });
+};
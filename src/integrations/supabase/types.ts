@@ -14,45 +14,1163 @@ export type Database = {
   }
   public: {
     Tables: {
+      guest_profile_claims: {
+        Row: {
+          code: string
+          created_at: string
+          profile_id: string
+        }
+        Insert: {
+          code?: string
+          created_at?: string
+          profile_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guest_profile_claims_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      match_mvp_points: {
+        Row: {
+          batting_points: number
+          bowling_points: number
+          created_at: string
+          fielding_points: number
+          id: string
+          match_id: string
+          player_id: string
+          total_points: number
+        }
+        Insert: {
+          batting_points?: number
+          bowling_points?: number
+          created_at?: string
+          fielding_points?: number
+          id?: string
+          match_id: string
+          player_id: string
+          total_points?: number
+        }
+        Update: {
+          batting_points?: number
+          bowling_points?: number
+          created_at?: string
+          fielding_points?: number
+          id?: string
+          match_id?: string
+          player_id?: string
+          total_points?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_mvp_points_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_mvp_points_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      match_players: {
+        Row: {
+          created_at: string
+          id: string
+          is_playing_xi: boolean
+          match_id: string
+          player_id: string
+          team_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_playing_xi?: boolean
+          match_id: string
+          player_id: string
+          team_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_playing_xi?: boolean
+          match_id?: string
+          player_id?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_players_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_players_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_players_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      match_score_edits: {
+        Row: {
+          action: string
+          after: Json | null
+          before: Json
+          created_at: string
+          edited_by: string
+          id: string
+          match_id: string
+          match_score_id: string
+          reason: string | null
+        }
+        Insert: {
+          action: string
+          after?: Json | null
+          before: Json
+          created_at?: string
+          edited_by: string
+          id?: string
+          match_id: string
+          match_score_id: string
+          reason?: string | null
+        }
+        Update: {
+          action?: string
+          after?: Json | null
+          before?: Json
+          created_at?: string
+          edited_by?: string
+          id?: string
+          match_id?: string
+          match_score_id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_score_edits_edited_by_fkey"
+            columns: ["edited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_score_edits_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      match_scorers: {
+        Row: {
+          assigned_by: string | null
+          created_at: string
+          id: string
+          match_id: string
+          scorer_id: string
+        }
+        Insert: {
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          match_id: string
+          scorer_id: string
+        }
+        Update: {
+          assigned_by?: string | null
+          created_at?: string
+          id?: string
+          match_id?: string
+          scorer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_scorers_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_scorers_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_scorers_scorer_id_fkey"
+            columns: ["scorer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      match_scores: {
+        Row: {
+          ball_number: number
+          batsman_id: string
+          bowler_id: string
+          created_at: string
+          delivery_number: number
+          extras_runs: number | null
+          extras_type: string | null
+          id: string
+          inning: number
+          match_id: string
+          over_number: number
+          run_out_end: string | null
+          runs: number
+          wicket_batsman_id: string | null
+          wicket_fielder_id: string | null
+          wicket_type: string | null
+        }
+        Insert: {
+          ball_number: number
+          batsman_id: string
+          bowler_id: string
+          created_at?: string
+          delivery_number: number
+          extras_runs?: number | null
+          extras_type?: string | null
+          id?: string
+          inning: number
+          match_id: string
+          over_number: number
+          run_out_end?: string | null
+          runs?: number
+          wicket_batsman_id?: string | null
+          wicket_fielder_id?: string | null
+          wicket_type?: string | null
+        }
+        Update: {
+          ball_number?: number
+          batsman_id?: string
+          bowler_id?: string
+          created_at?: string
+          delivery_number?: number
+          extras_runs?: number | null
+          extras_type?: string | null
+          id?: string
+          inning?: number
+          match_id?: string
+          over_number?: number
+          run_out_end?: string | null
+          runs?: number
+          wicket_batsman_id?: string | null
+          wicket_fielder_id?: string | null
+          wicket_type?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_scores_batsman_id_fkey"
+            columns: ["batsman_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_scores_bowler_id_fkey"
+            columns: ["bowler_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_scores_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_scores_wicket_batsman_id_fkey"
+            columns: ["wicket_batsman_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_scores_wicket_fielder_id_fkey"
+            columns: ["wicket_fielder_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      matches: {
+        Row: {
+          active_scorer_id: string | null
+          created_at: string
+          created_by: string
+          current_batsmen: string[] | null
+          current_bowler_id: string | null
+          date: string
+          id: string
+          location: string | null
+          name: string
+          overs: number
+          player_of_match_id: string | null
+          player_of_match_overridden: boolean
+          result_balls_remaining: number | null
+          result_margin: number | null
+          result_margin_type: string | null
+          result_type: string | null
+          status: string
+          team_a_id: string
+          team_b_id: string
+          time: string
+          toss_decision: string | null
+          toss_winner_id: string | null
+          updated_at: string
+          winner_team_id: string | null
+        }
+        Insert: {
+          active_scorer_id?: string | null
+          created_at?: string
+          created_by: string
+          current_batsmen?: string[] | null
+          current_bowler_id?: string | null
+          date: string
+          id?: string
+          location?: string | null
+          name: string
+          overs: number
+          player_of_match_id?: string | null
+          player_of_match_overridden?: boolean
+          result_balls_remaining?: number | null
+          result_margin?: number | null
+          result_margin_type?: string | null
+          result_type?: string | null
+          status?: string
+          team_a_id: string
+          team_b_id: string
+          time: string
+          toss_decision?: string | null
+          toss_winner_id?: string | null
+          updated_at?: string
+          winner_team_id?: string | null
+        }
+        Update: {
+          active_scorer_id?: string | null
+          created_at?: string
+          created_by?: string
+          current_batsmen?: string[] | null
+          current_bowler_id?: string | null
+          date?: string
+          id?: string
+          location?: string | null
+          name?: string
+          overs?: number
+          player_of_match_id?: string | null
+          player_of_match_overridden?: boolean
+          result_balls_remaining?: number | null
+          result_margin?: number | null
+          result_margin_type?: string | null
+          result_type?: string | null
+          status?: string
+          team_a_id?: string
+          team_b_id?: string
+          time?: string
+          toss_decision?: string | null
+          toss_winner_id?: string | null
+          updated_at?: string
+          winner_team_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "matches_active_scorer_id_fkey"
+            columns: ["active_scorer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_current_bowler_id_fkey"
+            columns: ["current_bowler_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_player_of_match_id_fkey"
+            columns: ["player_of_match_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_team_a_id_fkey"
+            columns: ["team_a_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_team_b_id_fkey"
+            columns: ["team_b_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_toss_winner_id_fkey"
+            columns: ["toss_winner_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "matches_winner_team_id_fkey"
+            columns: ["winner_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      platform_admins: {
+        Row: {
+          created_at: string
+          profile_id: string
+        }
+        Insert: {
+          created_at?: string
+          profile_id: string
+        }
+        Update: {
+          created_at?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "platform_admins_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           batting_style: string | null
           bowling_style: string | null
           created_at: string
+          created_by: string | null
           id: string
           image_url: string | null
+          is_guest: boolean
           name: string | null
           updated_at: string
-          user_id: string
+          user_id: string | null
         }
         Insert: {
           batting_style?: string | null
           bowling_style?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
           image_url?: string | null
+          is_guest?: boolean
           name?: string | null
           updated_at?: string
-          user_id: string
+          user_id?: string | null
         }
         Update: {
           batting_style?: string | null
           bowling_style?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
           image_url?: string | null
+          is_guest?: boolean
           name?: string | null
           updated_at?: string
-          user_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scoring_audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          after: Json | null
+          before: Json | null
+          created_at: string
+          id: string
+          match_id: string
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          match_id: string
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          match_id?: string
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scoring_audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_invites: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          revoked: boolean
+          single_use: boolean
+          team_id: string
+          token: string
+          used_count: number
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at: string
+          id?: string
+          revoked?: boolean
+          single_use?: boolean
+          team_id: string
+          token?: string
+          used_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          revoked?: boolean
+          single_use?: boolean
+          team_id?: string
+          token?: string
+          used_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_invites_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_invites_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_join_requests: {
+        Row: {
+          created_at: string
+          id: string
+          player_id: string
+          responded_at: string | null
+          responded_by: string | null
+          status: string
+          team_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          player_id: string
+          responded_at?: string | null
+          responded_by?: string | null
+          status?: string
+          team_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          player_id?: string
+          responded_at?: string | null
+          responded_by?: string | null
+          status?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_join_requests_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_join_requests_responded_by_fkey"
+            columns: ["responded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_join_requests_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_players: {
+        Row: {
+          id: string
+          joined_at: string
+          player_id: string
+          role: string | null
+          team_id: string
+        }
+        Insert: {
+          id?: string
+          joined_at?: string
+          player_id: string
+          role?: string | null
+          team_id: string
+        }
+        Update: {
+          id?: string
+          joined_at?: string
+          player_id?: string
+          role?: string | null
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_players_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "team_players_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          captain_id: string
+          created_at: string
+          description: string | null
+          id: string
+          logo_url: string | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          captain_id: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          logo_url?: string | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          captain_id?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          logo_url?: string | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_captain_id_fkey"
+            columns: ["captain_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tournament_matches: {
+        Row: {
+          created_at: string
+          group_name: string | null
+          id: string
+          match_id: string | null
+          match_number: number | null
+          next_fixture_id: string | null
+          next_fixture_slot: string | null
+          round: number | null
+          scheduled_date: string | null
+          scheduled_time: string | null
+          stage: string
+          team_a_id: string | null
+          team_a_source: string | null
+          team_b_id: string | null
+          team_b_source: string | null
+          tournament_id: string
+        }
+        Insert: {
+          created_at?: string
+          group_name?: string | null
+          id?: string
+          match_id?: string | null
+          match_number?: number | null
+          next_fixture_id?: string | null
+          next_fixture_slot?: string | null
+          round?: number | null
+          scheduled_date?: string | null
+          scheduled_time?: string | null
+          stage?: string
+          team_a_id?: string | null
+          team_a_source?: string | null
+          team_b_id?: string | null
+          team_b_source?: string | null
+          tournament_id: string
+        }
+        Update: {
+          created_at?: string
+          group_name?: string | null
+          id?: string
+          match_id?: string | null
+          match_number?: number | null
+          next_fixture_id?: string | null
+          next_fixture_slot?: string | null
+          round?: number | null
+          scheduled_date?: string | null
+          scheduled_time?: string | null
+          stage?: string
+          team_a_id?: string | null
+          team_a_source?: string | null
+          team_b_id?: string | null
+          team_b_source?: string | null
+          tournament_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "tournament_matches_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: true
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_next_fixture_id_fkey"
+            columns: ["next_fixture_id"]
+            isOneToOne: false
+            referencedRelation: "tournament_matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_team_a_id_fkey"
+            columns: ["team_a_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_team_b_id_fkey"
+            columns: ["team_b_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tournament_teams: {
+        Row: {
+          created_at: string
+          id: string
+          team_id: string
+          tournament_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          team_id: string
+          tournament_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          team_id?: string
+          tournament_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tournament_teams_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_teams_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tournaments: {
+        Row: {
+          created_at: string
+          created_by: string
+          description: string | null
+          end_date: string | null
+          format: string
+          id: string
+          location: string | null
+          mvp_rules: Json | null
+          name: string
+          overs: number
+          points_for_no_result: number
+          points_for_tie: number
+          points_for_win: number
+          start_date: string | null
+          status: string
+          tie_breakers: string[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          description?: string | null
+          end_date?: string | null
+          format?: string
+          id?: string
+          location?: string | null
+          mvp_rules?: Json | null
+          name: string
+          overs?: number
+          points_for_no_result?: number
+          points_for_tie?: number
+          points_for_win?: number
+          start_date?: string | null
+          status?: string
+          tie_breakers?: string[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          end_date?: string | null
+          format?: string
+          id?: string
+          location?: string | null
+          mvp_rules?: Json | null
+          name?: string
+          overs?: number
+          points_for_no_result?: number
+          points_for_tie?: number
+          points_for_win?: number
+          start_date?: string | null
+          status?: string
+          tie_breakers?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tournaments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      player_career_stats: {
+        Row: {
+          balls_bowled: number | null
+          balls_faced: number | null
+          best_bowling_runs: number | null
+          best_bowling_wickets: number | null
+          catches: number | null
+          dismissals: number | null
+          fifties: number | null
+          fours: number | null
+          highest_score: number | null
+          highest_score_not_out: boolean | null
+          hundreds: number | null
+          innings: number | null
+          lost: number | null
+          matches: number | null
+          no_result: number | null
+          player_id: string | null
+          run_outs: number | null
+          runs: number | null
+          runs_conceded: number | null
+          sixes: number | null
+          stumpings: number | null
+          tied: number | null
+          wickets: number | null
+          won: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_players_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      player_match_stats: {
+        Row: {
+          bat_balls: number | null
+          bat_runs: number | null
+          batted: boolean | null
+          bowl_balls: number | null
+          bowl_runs: number | null
+          bowl_wickets: number | null
+          bowled: boolean | null
+          catches: number | null
+          date: string | null
+          fours: number | null
+          is_out: boolean | null
+          match_id: string | null
+          name: string | null
+          outcome: string | null
+          overs: number | null
+          player_id: string | null
+          run_outs: number | null
+          sixes: number | null
+          status: string | null
+          stumpings: number | null
+          team_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_players_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_players_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_players_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      season_mvp_standings: {
+        Row: {
+          awards: number | null
+          matches: number | null
+          player_id: string | null
+          players: number | null
+          points: number | null
+          rank: number | null
+          tournament_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_mvp_points_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tournament_matches_tournament_id_fkey"
+            columns: ["tournament_id"]
+            isOneToOne: false
+            referencedRelation: "tournaments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      accept_team_invite: {
+        Args: { invite_token: string }
+        Returns: string
+      }
+      can_manage_match: {
+        Args: { check_match_id: string }
+        Returns: boolean
+      }
+      can_manage_team_roster: {
+        Args: { check_team_id: string }
+        Returns: boolean
+      }
+      can_score_match: {
+        Args: { check_match_id: string }
+        Returns: boolean
+      }
+      claim_guest_profile: {
+        Args: { claim_code: string }
+        Returns: string
+      }
+      correct_match_score: {
+        Args: { ball_id: string; changes: Json; reason: string }
+        Returns: undefined
+      }
+      get_guest_profile_claim: {
+        Args: { claim_code: string }
+        Returns: {
+          image_url: string
+          name: string
+          profile_id: string
+        }[]
+      }
+      get_leaderboard: {
+        Args: {
+          filter_team_id?: string
+          filter_tournament_id?: string
+          from_date?: string
+          to_date?: string
+        }
+        Returns: {
+          balls_bowled: number
+          balls_faced: number
+          catches: number
+          dismissals: number
+          image_url: string
+          innings: number
+          matches: number
+          name: string
+          player_id: string
+          runs: number
+          runs_conceded: number
+          sixes: number
+          stumpings: number
+          wickets: number
+        }[]
+      }
+      get_team_invite: {
+        Args: { invite_token: string }
+        Returns: {
+          expires_at: string
+          is_valid: boolean
+          logo_url: string
+          team_id: string
+          team_name: string
+        }[]
+      }
+      hand_over_scoring: {
+        Args: {
+          batsmen?: string[]
+          bowler_id?: string
+          handover_match_id: string
+          to_scorer_id: string
+        }
+        Returns: undefined
+      }
+      is_platform_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_team_captain: {
+        Args: { check_team_id: string }
+        Returns: boolean
+      }
+      replace_match_mvp_points: {
+        Args: { mvp_match_id: string; points: Json }
+        Returns: undefined
+      }
+      request_to_join_team: {
+        Args: { join_team_id: string }
+        Returns: undefined
+      }
+      resequence_match_scores: {
+        Args: { resequence_inning: number; resequence_match_id: string }
+        Returns: undefined
+      }
+      respond_to_join_request: {
+        Args: { approve: boolean; request_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
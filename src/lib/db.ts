@@ -0,0 +1,702 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json, Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import type { FixtureStage, TournamentFormat } from '@/utils/fixtures';
+import { getImageExtension } from '@/utils/imageUpload';
+import type { MatchResultType } from '@/utils/matchResult';
+import type { TieBreaker } from '@/utils/pointsTable';
+
+// Text columns the schema limits with CHECK constraints. The generated types only know them as strings.
+export type BattingStyle = 'right_handed' | 'left_handed';
+export type BowlingStyle = 'right_arm_fast' | 'left_arm_fast' | 'right_arm_medium' | 'left_arm_medium' | 'right_arm_spin' | 'left_arm_spin' | 'wicket_keeper';
+export type TeamRole = 'captain' | 'vice_captain' | 'player';
+export type MatchStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+export type TossDecision = 'bat' | 'bowl';
+export type MarginType = 'runs' | 'wickets';
+export type ExtrasType = 'wide' | 'no_ball' | 'bye' | 'leg_bye';
+export type WicketType = 'bowled' | 'caught' | 'lbw' | 'run_out' | 'stumped' | 'hit_wicket' | 'obstructing_field';
+export type CreaseEnd = 'striker' | 'non_striker';
+export type TournamentStatus = 'upcoming' | 'ongoing' | 'completed';
+export type JoinRequestStatus = 'pending' | 'approved' | 'rejected';
+
+type Refine<Row, Columns extends { [K in keyof Row]?: unknown }> = Omit<Row, keyof Columns> & Columns;
+
+// Every view column is typed as nullable, even where the view fills in a value
+type ViewRow<Row> = { [K in keyof Row]: NonNullable<Row[K]> };
+
+export type ProfileRow = Refine<Tables<'profiles'>, { batting_style: BattingStyle | null; bowling_style: BowlingStyle | null }>;
+export type TeamRow = Tables<'teams'>;
+export type TeamPlayerRow = Refine<Tables<'team_players'>, { role: TeamRole | null }>;
+export type TeamInviteRow = Tables<'team_invites'>;
+export type TeamJoinRequestRow = Refine<Tables<'team_join_requests'>, { status: JoinRequestStatus }>;
+export type MatchRow = Refine<Tables<'matches'>, {
+  status: MatchStatus;
+  toss_decision: TossDecision | null;
+  result_type: MatchResultType | null;
+  result_margin_type: MarginType | null;
+}>;
+export type MatchPlayerRow = Tables<'match_players'>;
+export type MatchScoreRow = Refine<Tables<'match_scores'>, {
+  extras_type: ExtrasType | null;
+  wicket_type: WicketType | null;
+  run_out_end: CreaseEnd | null;
+}>;
+export type MatchScoreEditRow = Refine<Tables<'match_score_edits'>, { action: 'edit' | 'delete' }>;
+export type MatchMvpPointsRow = Tables<'match_mvp_points'>;
+export type MatchScorerRow = Tables<'match_scorers'>;
+export type ScoringAuditLogRow = Refine<Tables<'scoring_audit_log'>, {
+  table_name: 'match_scores' | 'matches';
+  action: 'insert' | 'update' | 'delete';
+}>;
+export type TournamentRow = Refine<Tables<'tournaments'>, { status: TournamentStatus; format: TournamentFormat; tie_breakers: TieBreaker[] }>;
+export type TournamentMatchRow = Refine<Tables<'tournament_matches'>, { stage: FixtureStage; next_fixture_slot: 'a' | 'b' | null }>;
+export type PlayerMatchStatsRow = Refine<ViewRow<Tables<'player_match_stats'>>, {
+  status: MatchStatus;
+  outcome: 'W' | 'L' | 'T' | 'NR' | null;
+}>;
+export type PlayerCareerStatsRow = Refine<ViewRow<Tables<'player_career_stats'>>, {
+  highest_score: number | null;
+  highest_score_not_out: boolean | null;
+  best_bowling_wickets: number | null;
+  best_bowling_runs: number | null;
+}>;
+export type SeasonMvpStandingRow = ViewRow<Tables<'season_mvp_standings'>>;
+export type TeamInvitePreview = Refine<Database['public']['Functions']['get_team_invite']['Returns'][number], {
+  logo_url: string | null;
+}>;
+export type GuestProfileClaimPreview = Refine<Database['public']['Functions']['get_guest_profile_claim']['Returns'][number], {
+  name: string | null;
+  image_url: string | null;
+}>;
+export type LeaderboardRow = Refine<Database['public']['Functions']['get_leaderboard']['Returns'][number], {
+  name: string | null;
+  image_url: string | null;
+}>;
+
+export type PlayerSummary = Pick<ProfileRow, 'id' | 'name' | 'image_url' | 'batting_style' | 'bowling_style' | 'is_guest'>;
+export type TeamSummary = Pick<TeamRow, 'id' | 'name' | 'logo_url'> & { captain: { name: string | null } | null };
+export type TeamListItem = TeamRow & { captain: { name: string | null; image_url: string | null } | null; player_count: number };
+export type TournamentSummary = Pick<TournamentRow, 'id' | 'name'>;
+
+export type MatchWithTeams = MatchRow & {
+  team_a: TeamSummary;
+  team_b: TeamSummary;
+  toss_winner: TeamSummary | null;
+  tournament: TournamentSummary | null;
+};
+export type MatchPlayerWithProfile = MatchPlayerRow & { player: PlayerSummary };
+export type TeamMember = TeamPlayerRow & { player: PlayerSummary };
+export type JoinRequestWithPlayer = TeamJoinRequestRow & { player: PlayerSummary };
+export type TournamentOption = Pick<TournamentRow, 'id' | 'name' | 'overs'> & { team_ids: string[] };
+export type TournamentWithTeamCount = TournamentRow & { team_count: number };
+export type FixtureMatch = MatchRow & { team_a: TeamSummary; team_b: TeamSummary };
+export type TournamentFixture = TournamentMatchRow & { match: FixtureMatch | null };
+export type MvpPointsWithPlayer = MatchMvpPointsRow & { player: PlayerSummary };
+export type MatchScorer = MatchScorerRow & { scorer: PlayerSummary };
+export type SeasonMvpStanding = SeasonMvpStandingRow & { tournament: TournamentSummary | null };
+export type ScoreEdit = Pick<MatchScoreEditRow, 'id' | 'match_score_id' | 'action' | 'reason' | 'created_at'> & {
+  editor: { name: string | null } | null;
+};
+export type AuditLogEntry = Omit<ScoringAuditLogRow, 'before' | 'after'> & {
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  actor: { name: string | null } | null;
+};
+
+const TEAM_SUMMARY = 'id, name, logo_url, captain:profiles!teams_captain_id_fkey(name)';
+const PLAYER_SUMMARY = 'id, name, image_url, batting_style, bowling_style, is_guest';
+
+// PostgREST returns a to-one embed as an object, but older relationships can come back as one-item arrays
+const single = <T>(value: T | T[] | null): T | null => (Array.isArray(value) ? value[0] ?? null : value);
+
+// Interfaces have no index signature, so rows kept in JSONB columns are passed through here
+const toJson = (value: object | null) => value as Json;
+
+const withTournament = <T extends { tournament_matches: unknown }>(match: T) => {
+  const { tournament_matches, ...rest } = match;
+  const link = single(tournament_matches as { tournament: TournamentSummary | null } | null);
+  return { ...rest, tournament: link?.tournament || null };
+};
+
+/**
+ * Looks up the profile that belongs to a signed-in user
+ * @param userId - The auth user id
+ * @returns The profile, or null if the user has none yet
+ */
+export const fetchProfileByUser = async (userId: string): Promise<ProfileRow | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as ProfileRow | null;
+};
+
+/**
+ * Checks whether a profile belongs to a platform admin
+ * @param profileId - The profile id
+ * @returns True for admins
+ */
+export const fetchIsPlatformAdmin = async (profileId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('platform_admins')
+    .select('profile_id')
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+/**
+ * Loads the code a guest player's creator shares so the real person can claim the profile
+ * @param profileId - The guest's profile id
+ * @returns The claim code, or null when the guest was added by someone else
+ */
+export const fetchGuestClaimCode = async (profileId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('guest_profile_claims')
+    .select('code')
+    .eq('profile_id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.code ?? null;
+};
+
+/**
+ * Looks up a guest profile by its claim code
+ * @param code - The code from the claim link
+ * @returns The guest's name and photo, or null for an unknown or already claimed code
+ */
+export const fetchGuestProfileClaim = async (code: string): Promise<GuestProfileClaimPreview | null> => {
+  const { data, error } = await supabase.rpc('get_guest_profile_claim', { claim_code: code });
+
+  if (error) throw error;
+  return (data?.[0] ?? null) as GuestProfileClaimPreview | null;
+};
+
+/**
+ * Loads every team with its captain and squad size, sorted by name
+ * @returns The teams
+ */
+export const fetchTeams = async (): Promise<TeamListItem[]> => {
+  const { data, error } = await supabase
+    .from('teams')
+    .select('*, captain:profiles!teams_captain_id_fkey(name, image_url), team_players(count)')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []).map(({ team_players, ...team }) => ({
+    ...team,
+    player_count: team_players?.[0]?.count || 0
+  }));
+};
+
+/**
+ * Loads a single team
+ * @param teamId - The team id
+ * @returns The team row
+ */
+export const fetchTeam = async (teamId: string): Promise<TeamRow> => {
+  const { data, error } = await supabase
+    .from('teams')
+    .select('*')
+    .eq('id', teamId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Loads a team's squad in the order players joined
+ * @param teamId - The team id
+ * @returns The members with their profiles
+ */
+export const fetchTeamMembers = async (teamId: string): Promise<TeamMember[]> => {
+  const { data, error } = await supabase
+    .from('team_players')
+    .select(`*, player:profiles(${PLAYER_SUMMARY})`)
+    .eq('team_id', teamId)
+    .order('joined_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as TeamMember[];
+};
+
+/**
+ * Loads a team's invite links that can still be used, newest first
+ * @param teamId - The team id
+ * @returns The invites (only the captain can read them)
+ */
+export const fetchTeamInvites = async (teamId: string): Promise<TeamInviteRow[]> => {
+  const { data, error } = await supabase
+    .from('team_invites')
+    .select('*')
+    .eq('team_id', teamId)
+    .eq('revoked', false)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).filter(invite => !(invite.single_use && invite.used_count > 0));
+};
+
+/**
+ * Looks up an invite link by its token
+ * @param token - The token from the link
+ * @returns The team it invites to and whether it can still be used, or null for an unknown token
+ */
+export const fetchTeamInvite = async (token: string): Promise<TeamInvitePreview | null> => {
+  const { data, error } = await supabase.rpc('get_team_invite', { invite_token: token });
+
+  if (error) throw error;
+  return (data?.[0] ?? null) as TeamInvitePreview | null;
+};
+
+/**
+ * Loads the join requests waiting for a team captain, oldest first
+ * @param teamId - The team id
+ * @returns The pending requests with each player's profile
+ */
+export const fetchTeamJoinRequests = async (teamId: string): Promise<JoinRequestWithPlayer[]> => {
+  const { data, error } = await supabase
+    .from('team_join_requests')
+    .select(`*, player:profiles!team_join_requests_player_id_fkey(${PLAYER_SUMMARY})`)
+    .eq('team_id', teamId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as JoinRequestWithPlayer[];
+};
+
+/**
+ * Loads a player's own request to join a team
+ * @param teamId - The team id
+ * @param profileId - The player's profile id
+ * @returns The request, or null when they have not asked
+ */
+export const fetchOwnJoinRequest = async (teamId: string, profileId: string): Promise<TeamJoinRequestRow | null> => {
+  const { data, error } = await supabase
+    .from('team_join_requests')
+    .select('*')
+    .eq('team_id', teamId)
+    .eq('player_id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as TeamJoinRequestRow | null;
+};
+
+/**
+ * Loads every match with both teams, the toss winner and its tournament, newest first
+ * @returns The matches
+ */
+export const fetchMatches = async (): Promise<MatchWithTeams[]> => {
+  const { data, error } = await supabase
+    .from('matches')
+    .select(`
+      *,
+      team_a:teams!matches_team_a_id_fkey(${TEAM_SUMMARY}),
+      team_b:teams!matches_team_b_id_fkey(${TEAM_SUMMARY}),
+      toss_winner:teams!matches_toss_winner_id_fkey(${TEAM_SUMMARY}),
+      tournament_matches(tournament:tournaments(id, name))
+    `)
+    .order('date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(withTournament) as MatchWithTeams[];
+};
+
+/**
+ * Loads one match with both teams, the toss winner and its tournament
+ * @param matchId - The match id
+ * @returns The match
+ */
+export const fetchMatch = async (matchId: string): Promise<MatchWithTeams> => {
+  const { data, error } = await supabase
+    .from('matches')
+    .select(`
+      *,
+      team_a:teams!matches_team_a_id_fkey(${TEAM_SUMMARY}),
+      team_b:teams!matches_team_b_id_fkey(${TEAM_SUMMARY}),
+      toss_winner:teams!matches_toss_winner_id_fkey(${TEAM_SUMMARY}),
+      tournament_matches(tournament:tournaments(id, name))
+    `)
+    .eq('id', matchId)
+    .single();
+
+  if (error) throw error;
+  return withTournament(data) as MatchWithTeams;
+};
+
+/**
+ * Loads the squads picked for a match
+ * @param matchId - The match id
+ * @returns The match players with their profiles
+ */
+export const fetchMatchPlayers = async (matchId: string): Promise<MatchPlayerWithProfile[]> => {
+  const { data, error } = await supabase
+    .from('match_players')
+    .select(`*, player:profiles(${PLAYER_SUMMARY})`)
+    .eq('match_id', matchId);
+
+  if (error) throw error;
+  return (data || []) as MatchPlayerWithProfile[];
+};
+
+/**
+ * Loads the full squads of some teams
+ * @param teamIds - The team ids
+ * @returns The members with their profiles
+ */
+export const fetchTeamRosters = async (teamIds: string[]): Promise<TeamMember[]> => {
+  const { data, error } = await supabase
+    .from('team_players')
+    .select(`*, player:profiles(${PLAYER_SUMMARY})`)
+    .in('team_id', teamIds);
+
+  if (error) throw error;
+  return (data || []) as TeamMember[];
+};
+
+/**
+ * Loads which team each player turned out for in some matches
+ * @param matchIds - The match ids
+ * @returns One row per player per match
+ */
+export const fetchMatchPlayerTeams = async (matchIds: string[]) => {
+  const { data, error } = await supabase
+    .from('match_players')
+    .select('match_id, player_id, team_id, is_playing_xi')
+    .in('match_id', matchIds);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Loads the balls of one or more matches in the order they were bowled
+ * @param matchIds - The match ids
+ * @returns The recorded balls
+ */
+export const fetchMatchScores = async (matchIds: string[]): Promise<MatchScoreRow[]> => {
+  const { data, error } = await supabase
+    .from('match_scores')
+    .select('*')
+    .in('match_id', matchIds)
+    .order('inning', { ascending: true })
+    .order('over_number', { ascending: true })
+    .order('delivery_number', { ascending: true });
+
+  if (error) throw error;
+  return (data || []) as MatchScoreRow[];
+};
+
+/**
+ * Loads the corrections made to a match's balls, newest first
+ * @param matchId - The match id
+ * @returns The edits with the name of whoever made them
+ */
+export const fetchMatchScoreEdits = async (matchId: string): Promise<ScoreEdit[]> => {
+  const { data, error } = await supabase
+    .from('match_score_edits')
+    .select('id, match_score_id, action, reason, created_at, editor:profiles!match_score_edits_edited_by_fkey(name)')
+    .eq('match_id', matchId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as ScoreEdit[];
+};
+
+/**
+ * Corrects or deletes a ball, renumbers its innings and logs the edit in one transaction
+ * @param ballId - The ball to correct
+ * @param changes - The corrected columns, or null to delete the ball
+ * @param reason - Why the ball was corrected
+ */
+export const correctMatchScore = async (
+  ballId: string,
+  changes: Partial<TablesUpdate<'match_scores'>> | null,
+  reason: string
+) => {
+  const { error } = await supabase.rpc('correct_match_score', {
+    ball_id: ballId,
+    changes: changes && toJson(changes),
+    reason
+  });
+  if (error) throw error;
+};
+
+/**
+ * Loads the audit trail of a match and its balls, newest first
+ * @param matchId - The match id
+ * @returns The audit entries with the name of whoever made each change
+ */
+export const fetchScoringAuditLog = async (matchId: string): Promise<AuditLogEntry[]> => {
+  const { data, error } = await supabase
+    .from('scoring_audit_log')
+    .select('*, actor:profiles!scoring_audit_log_actor_id_fkey(name)')
+    .eq('match_id', matchId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as AuditLogEntry[];
+};
+
+/**
+ * Loads the players the match owner has allowed to score a match
+ * @param matchId - The match id
+ * @returns The scorers with their profiles, in the order they were added
+ */
+export const fetchMatchScorers = async (matchId: string): Promise<MatchScorer[]> => {
+  const { data, error } = await supabase
+    .from('match_scorers')
+    .select(`*, scorer:profiles!match_scorers_scorer_id_fkey(${PLAYER_SUMMARY})`)
+    .eq('match_id', matchId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as MatchScorer[];
+};
+
+/**
+ * Loads every player's MVP points in a match, highest first
+ * @param matchId - The match id
+ * @returns The points with each player's profile
+ */
+export const fetchMatchMvpPoints = async (matchId: string): Promise<MvpPointsWithPlayer[]> => {
+  const { data, error } = await supabase
+    .from('match_mvp_points')
+    .select(`*, player:profiles!match_mvp_points_player_id_fkey(${PLAYER_SUMMARY})`)
+    .eq('match_id', matchId)
+    .order('total_points', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as MvpPointsWithPlayer[];
+};
+
+/**
+ * Replaces a match's MVP points in one transaction, so a corrected match is not counted twice
+ * and a failed save keeps the old points
+ * @param matchId - The match id
+ * @param rows - The new points, one row per player
+ */
+export const replaceMatchMvpPoints = async (matchId: string, rows: Omit<TablesInsert<'match_mvp_points'>, 'match_id'>[]) => {
+  const { error } = await supabase.rpc('replace_match_mvp_points', {
+    mvp_match_id: matchId,
+    points: toJson(rows)
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Loads a player's MVP ranking in each tournament they have points in
+ * @param profileId - The player's profile id
+ * @returns One standing per tournament
+ */
+export const fetchSeasonMvpStandings = async (profileId: string): Promise<SeasonMvpStanding[]> => {
+  const { data, error } = await supabase
+    .from('season_mvp_standings')
+    .select('*, tournament:tournaments(id, name)')
+    .eq('player_id', profileId);
+
+  if (error) throw error;
+  return (data || []) as SeasonMvpStanding[];
+};
+
+/**
+ * Loads a tournament's MVP ranking, best first
+ * @param tournamentId - The tournament id
+ * @returns One standing per player with points in the tournament
+ */
+export const fetchTournamentMvpStandings = async (tournamentId: string): Promise<(SeasonMvpStandingRow & { player: PlayerSummary | null })[]> => {
+  const { data, error } = await supabase
+    .from('season_mvp_standings')
+    .select(`*, player:profiles(${PLAYER_SUMMARY})`)
+    .eq('tournament_id', tournamentId)
+    .order('rank');
+
+  if (error) throw error;
+  return (data || []) as (SeasonMvpStandingRow & { player: PlayerSummary | null })[];
+};
+
+/**
+ * Loads a player's career totals from the player_career_stats view
+ * @param profileId - The player's profile id
+ * @returns The totals, or null if the player has not been picked for a match
+ */
+export const fetchPlayerCareerStats = async (profileId: string): Promise<PlayerCareerStatsRow | null> => {
+  const { data, error } = await supabase
+    .from('player_career_stats')
+    .select('*')
+    .eq('player_id', profileId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as PlayerCareerStatsRow | null;
+};
+
+/**
+ * Loads a player's figures in each match they were picked for, newest first
+ * @param profileId - The player's profile id
+ * @returns One row per match
+ */
+export const fetchPlayerMatchStats = async (profileId: string): Promise<PlayerMatchStatsRow[]> => {
+  const { data, error } = await supabase
+    .from('player_match_stats')
+    .select('*')
+    .eq('player_id', profileId)
+    .order('date', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as PlayerMatchStatsRow[];
+};
+
+export interface LeaderboardFilters {
+  fromDate: string;
+  toDate: string;
+  teamId: string;
+  tournamentId: string;
+}
+
+/**
+ * Loads every player's totals for the leaderboards
+ * @param filters - Date range, team and tournament to limit the matches to; empty values match everything
+ * @returns One row per player
+ */
+export const fetchLeaderboard = async (filters: LeaderboardFilters): Promise<LeaderboardRow[]> => {
+  // Sent as a GET so the service worker can keep the last copy for offline use
+  const { data, error } = await supabase.rpc('get_leaderboard', {
+    from_date: filters.fromDate || undefined,
+    to_date: filters.toDate || undefined,
+    filter_team_id: filters.teamId || undefined,
+    filter_tournament_id: filters.tournamentId || undefined
+  }, { get: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Loads every tournament with the number of teams taking part, newest first
+ * @returns The tournaments
+ */
+export const fetchTournaments = async (): Promise<TournamentWithTeamCount[]> => {
+  const { data, error } = await supabase
+    .from('tournaments')
+    .select('*, tournament_teams(count)')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(({ tournament_teams, ...tournament }) => ({
+    ...tournament,
+    team_count: tournament_teams?.[0]?.count || 0
+  })) as TournamentWithTeamCount[];
+};
+
+/**
+ * Loads the tournaments a match can be added to, newest first
+ * @returns Each tournament with its overs and entered teams
+ */
+export const fetchTournamentOptions = async (): Promise<TournamentOption[]> => {
+  const { data, error } = await supabase
+    .from('tournaments')
+    .select('id, name, overs, tournament_teams(team_id)')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(({ tournament_teams, ...tournament }) => ({
+    ...tournament,
+    team_ids: (tournament_teams || []).map(tt => tt.team_id)
+  }));
+};
+
+/**
+ * Loads a single tournament
+ * @param tournamentId - The tournament id
+ * @returns The tournament row
+ */
+export const fetchTournament = async (tournamentId: string): Promise<TournamentRow> => {
+  const { data, error } = await supabase
+    .from('tournaments')
+    .select('*')
+    .eq('id', tournamentId)
+    .single();
+
+  if (error) throw error;
+  return data as TournamentRow;
+};
+
+/**
+ * Loads the teams entered in a tournament
+ * @param tournamentId - The tournament id
+ * @returns The teams with their captains
+ */
+export const fetchTournamentTeams = async (tournamentId: string): Promise<TeamSummary[]> => {
+  const { data, error } = await supabase
+    .from('tournament_teams')
+    .select(`team:teams(${TEAM_SUMMARY})`)
+    .eq('tournament_id', tournamentId);
+
+  if (error) throw error;
+  return (data || []).map(row => single(row.team)).filter(Boolean);
+};
+
+/**
+ * Loads a tournament's fixtures with the matches played for them
+ * @param tournamentId - The tournament id
+ * @returns The fixtures, in no particular order
+ */
+export const fetchTournamentFixtures = async (tournamentId: string): Promise<TournamentFixture[]> => {
+  const { data, error } = await supabase
+    .from('tournament_matches')
+    .select(`
+      *,
+      match:matches(
+        *,
+        team_a:teams!matches_team_a_id_fkey(${TEAM_SUMMARY}),
+        team_b:teams!matches_team_b_id_fkey(${TEAM_SUMMARY})
+      )
+    `)
+    .eq('tournament_id', tournamentId);
+
+  if (error) throw error;
+  return (data || []).map(row => ({ ...row, match: single(row.match) })) as TournamentFixture[];
+};
+
+export type ImageBucket = 'avatars' | 'team-logos';
+
+/**
+ * Uploads an image to a folder of a public bucket under a new name, so cached copies of the old one are never shown
+ * @param bucket - The bucket
+ * @param folder - The owner's folder (the auth user id for avatars, the team id for logos)
+ * @param image - The prepared image
+ * @returns The public URL of the uploaded file
+ */
+export const uploadImage = async (bucket: ImageBucket, folder: string, image: Blob): Promise<string> => {
+  const path = `${folder}/${crypto.randomUUID()}.${getImageExtension(image)}`;
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, image, { contentType: image.type || 'image/png', cacheControl: '31536000' });
+
+  if (error) throw error;
+  return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+};
+
+/**
+ * Deletes a previously uploaded image. URLs that point anywhere else are left alone.
+ * @param bucket - The bucket the image was uploaded to
+ * @param url - The public URL that was saved
+ */
+export const removeImage = async (bucket: ImageBucket, url: string | null) => {
+  const prefix = supabase.storage.from(bucket).getPublicUrl('').data.publicUrl;
+  if (!url || !url.startsWith(prefix)) return;
+
+  const { error } = await supabase.storage.from(bucket).remove([url.slice(prefix.length)]);
+  if (error) throw error;
+};
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, ArrowLeft, LogIn, UserCheck } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import { useClaimGuestProfile, useGuestProfileClaim } from '@/hooks/use-profile';
+
+// Landing page of a guest player's claim link: moves the guest's teams and stats to the signed-in player
+const ClaimProfile = () => {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+
+  const { data: guest, isLoading: guestLoading, isError: guestError } = useGuestProfileClaim(code);
+  const claimProfile = useClaimGuestProfile();
+
+  const claimGuestProfile = async () => {
+    if (!code) return;
+
+    try {
+      await claimProfile.mutateAsync(code);
+      toast({
+        title: "Success",
+        description: "Profile claimed. Your matches and stats are now on your profile."
+      });
+      navigate('/profile');
+    } catch (error) {
+      console.error('Error claiming profile:', error);
+      toast({
+        title: "Error",
+        description: "Failed to claim profile. The link may already have been used.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (!code) {
+    return <Navigate to="/" replace />;
+  }
+
+  if (authLoading || guestLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!guest || guestError) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="container mx-auto px-4 py-8">
+          <Card className="max-w-md mx-auto">
+            <CardContent className="text-center py-12">
+              <h3 className="text-lg font-semibold mb-2">Claim Link Not Found</h3>
+              <p className="text-muted-foreground mb-4">
+                This profile has already been claimed or the link is not valid.
+              </p>
+              <Button onClick={() => navigate('/')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Home
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-4 py-8">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="items-center text-center">
+            <Avatar className="h-20 w-20 mb-2">
+              <AvatarImage src={guest.image_url || ''} />
+              <AvatarFallback className="text-2xl">
+                {guest.name?.charAt(0)?.toUpperCase() || '?'}
+              </AvatarFallback>
+            </Avatar>
+            <CardTitle>{guest.name || 'Guest Player'}</CardTitle>
+            <CardDescription>
+              Claim this guest profile to add its teams, matches and stats to your own profile.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {user ? (
+              <Button className="w-full" onClick={claimGuestProfile} disabled={claimProfile.isPending}>
+                {claimProfile.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <UserCheck className="h-4 w-4 mr-2" />
+                )}
+                Claim Profile
+              </Button>
+            ) : (
+              <Button className="w-full" onClick={() => navigate(`/auth?redirect=${encodeURIComponent(`/claim/${code}`)}`)}>
+                <LogIn className="h-4 w-4 mr-2" />
+                Sign Up or Sign In to Claim
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ClaimProfile;
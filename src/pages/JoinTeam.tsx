@@ -0,0 +1,212 @@
+import React from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, ArrowLeft, UserPlus, Clock, LogIn } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import { useCurrentProfile } from '@/hooks/use-profile';
+import {
+  useAcceptTeamInvite,
+  useOwnJoinRequest,
+  useRequestToJoinTeam,
+  useTeamInvite,
+  useTeamMembers,
+  useWithdrawJoinRequest
+} from '@/hooks/use-teams';
+
+// Landing page of a team invite link: join straight away, or ask the captain once the link has expired
+const JoinTeam = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+
+  const { data: profile } = useCurrentProfile(user?.id);
+  const { data: invite, isLoading: inviteLoading, isError: inviteError } = useTeamInvite(token);
+  const { data: members = [], isLoading: membersLoading } = useTeamMembers(invite?.team_id);
+  const { data: ownRequest } = useOwnJoinRequest(invite?.team_id, profile?.id);
+  const acceptInvite = useAcceptTeamInvite();
+  const requestToJoin = useRequestToJoinTeam(invite?.team_id as string);
+  const withdrawRequest = useWithdrawJoinRequest(invite?.team_id as string);
+
+  const isMember = !!profile && members.some(m => m.player_id === profile.id);
+  const requestPending = ownRequest?.status === 'pending';
+
+  const joinTeam = async () => {
+    if (!token) return;
+
+    try {
+      const teamId = await acceptInvite.mutateAsync(token);
+      toast({
+        title: "Success",
+        description: `Welcome to ${invite?.team_name}!`
+      });
+      navigate(`/teams/${teamId}`);
+    } catch (error) {
+      console.error('Error accepting invite:', error);
+      toast({
+        title: "Error",
+        description: "Failed to join team. The invite may have expired.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const sendJoinRequest = async () => {
+    try {
+      await requestToJoin.mutateAsync();
+      toast({
+        title: "Success",
+        description: "Join request sent to the team captain"
+      });
+    } catch (error) {
+      console.error('Error requesting to join team:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send join request",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const withdrawJoinRequest = async () => {
+    if (!ownRequest) return;
+
+    try {
+      await withdrawRequest.mutateAsync(ownRequest.id);
+      toast({
+        title: "Success",
+        description: "Join request withdrawn"
+      });
+    } catch (error) {
+      console.error('Error withdrawing join request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to withdraw join request",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (!token) {
+    return <Navigate to="/teams" replace />;
+  }
+
+  if (authLoading || inviteLoading || (!!invite && membersLoading)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!invite || inviteError) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="container mx-auto px-4 py-8">
+          <Card className="max-w-md mx-auto">
+            <CardContent className="text-center py-12">
+              <h3 className="text-lg font-semibold mb-2">Invite Not Found</h3>
+              <p className="text-muted-foreground mb-4">
+                This invite link is not valid. Ask the team captain for a new one.
+              </p>
+              <Button onClick={() => navigate('/teams')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Teams
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const renderAction = () => {
+    if (!user) {
+      return (
+        <Button className="w-full" onClick={() => navigate(`/auth?redirect=${encodeURIComponent(`/join/${token}`)}`)}>
+          <LogIn className="h-4 w-4 mr-2" />
+          Sign In to Join
+        </Button>
+      );
+    }
+
+    if (isMember) {
+      return (
+        <>
+          <p className="text-sm text-muted-foreground text-center">You are already in this team.</p>
+          <Button className="w-full" onClick={() => navigate(`/teams/${invite.team_id}`)}>
+            View Team
+          </Button>
+        </>
+      );
+    }
+
+    if (invite.is_valid) {
+      return (
+        <Button className="w-full" onClick={joinTeam} disabled={acceptInvite.isPending}>
+          {acceptInvite.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <UserPlus className="h-4 w-4 mr-2" />
+          )}
+          Join Team
+        </Button>
+      );
+    }
+
+    return (
+      <>
+        <p className="text-sm text-muted-foreground text-center">
+          This invite link has expired or already been used.
+          {requestPending ? ' Your request is waiting for the captain.' : ' You can ask the captain to add you instead.'}
+        </p>
+        {requestPending ? (
+          <Button variant="outline" className="w-full" onClick={withdrawJoinRequest} disabled={withdrawRequest.isPending}>
+            {withdrawRequest.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Clock className="h-4 w-4 mr-2" />}
+            Withdraw Request
+          </Button>
+        ) : (
+          <Button className="w-full" onClick={sendJoinRequest} disabled={requestToJoin.isPending}>
+            {requestToJoin.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+            Request to Join
+          </Button>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-4 py-8">
+        <Card className="max-w-md mx-auto">
+          <CardHeader className="items-center text-center">
+            <Avatar className="h-20 w-20 mb-2">
+              <AvatarImage src={invite.logo_url || ''} />
+              <AvatarFallback className="text-2xl">
+                {invite.team_name.charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <CardTitle>{invite.team_name}</CardTitle>
+            <CardDescription>
+              You have been invited to join this team • {members.length} member{members.length !== 1 ? 's' : ''}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {renderAction()}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default JoinTeam;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowDown, ArrowUp, Loader2, Medal } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import PageHeader from '@/components/PageHeader';
+import { useLeaderboard } from '@/hooks/use-leaderboard';
+import { useTeams } from '@/hooks/use-teams';
+import { useTournamentOptions } from '@/hooks/use-matches';
+import type { LeaderboardFilters, LeaderboardRow } from '@/lib/db';
+import { battingAverage, LEADERBOARD_STATS, rankLeaderboard, type LeaderboardStat } from '@/utils/leaderboard';
+import { economyRate, formatOvers, strikeRate } from '@/utils/scoringEngine';
+
+interface Column {
+  label: string;
+  // Columns with a stat can be clicked to rank by it
+  stat?: LeaderboardStat;
+  render: (row: LeaderboardRow) => React.ReactNode;
+}
+
+const BATTING_COLUMNS: Column[] = [
+  { label: 'M', render: row => row.matches },
+  { label: 'Inns', render: row => row.innings },
+  { label: 'Runs', stat: 'runs', render: row => row.runs },
+  { label: 'Avg', stat: 'average', render: row => battingAverage(row.runs, row.dismissals)?.toFixed(2) ?? '—' },
+  { label: 'SR', stat: 'strike_rate', render: row => strikeRate(row.runs, row.balls_faced).toFixed(2) },
+  { label: '6s', stat: 'sixes', render: row => row.sixes }
+];
+
+const BOWLING_COLUMNS: Column[] = [
+  { label: 'M', render: row => row.matches },
+  { label: 'Overs', render: row => formatOvers(row.balls_bowled) },
+  { label: 'Runs', render: row => row.runs_conceded },
+  { label: 'Wkts', stat: 'wickets', render: row => row.wickets },
+  { label: 'Econ', stat: 'economy', render: row => economyRate(row.runs_conceded, row.balls_bowled).toFixed(2) }
+];
+
+const FIELDING_COLUMNS: Column[] = [
+  { label: 'M', render: row => row.matches },
+  { label: 'Catches', stat: 'catches', render: row => row.catches },
+  { label: 'Stumpings', stat: 'stumpings', render: row => row.stumpings }
+];
+
+const EMPTY_FILTERS: LeaderboardFilters = { fromDate: '', toDate: '', teamId: '', tournamentId: '' };
+
+interface LeaderboardTableProps {
+  rows: LeaderboardRow[];
+  columns: Column[];
+  sortBy: LeaderboardStat;
+  onSortChange: (stat: LeaderboardStat) => void;
+}
+
+const LeaderboardTable: React.FC<LeaderboardTableProps> = ({ rows, columns, sortBy, onSortChange }) => {
+  const ranked = rankLeaderboard(rows, sortBy);
+  const { qualification, lowerIsBetter } = LEADERBOARD_STATS[sortBy];
+  const SortIcon = lowerIsBetter ? ArrowUp : ArrowDown;
+
+  return (
+    <div className="space-y-2">
+      {ranked.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <p className="text-sm">No players qualify yet</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">#</TableHead>
+              <TableHead>Player</TableHead>
+              {columns.map(column => (
+                <TableHead
+                  key={column.label}
+                  className={column.stat ? 'cursor-pointer select-none' : undefined}
+                  onClick={column.stat ? () => onSortChange(column.stat as LeaderboardStat) : undefined}
+                >
+                  <span className={`flex items-center gap-1 ${column.stat === sortBy ? 'text-foreground font-semibold' : ''}`}>
+                    {column.label}
+                    {column.stat === sortBy && <SortIcon className="h-3 w-3" />}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ranked.map((row, index) => (
+              <TableRow key={row.player_id}>
+                <TableCell className="font-medium">{index + 1}</TableCell>
+                <TableCell>
+                  <Link to={`/profile?playerId=${row.player_id}`} className="flex items-center gap-2 hover:underline">
+                    <Avatar className="h-6 w-6">
+                      <AvatarImage src={row.image_url || ''} />
+                      <AvatarFallback className="text-xs">{row.name?.charAt(0) || 'P'}</AvatarFallback>
+                    </Avatar>
+                    <span>{row.name || 'Unknown Player'}</span>
+                  </Link>
+                </TableCell>
+                {columns.map(column => (
+                  <TableCell key={column.label}>{column.render(row)}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      {qualification && (
+        <p className="text-xs text-muted-foreground">{qualification}</p>
+      )}
+    </div>
+  );
+};
+
+const Leaderboards = () => {
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<LeaderboardFilters>(EMPTY_FILTERS);
+  const [battingSort, setBattingSort] = useState<LeaderboardStat>('runs');
+  const [bowlingSort, setBowlingSort] = useState<LeaderboardStat>('wickets');
+  const [fieldingSort, setFieldingSort] = useState<LeaderboardStat>('catches');
+  const { data: rows = [], isLoading: loading, isFetching, error } = useLeaderboard(filters);
+  const { data: teams = [] } = useTeams();
+  const { data: tournaments = [] } = useTournamentOptions();
+
+  useEffect(() => {
+    if (error) {
+      console.error('Error fetching leaderboard:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load leaderboards",
+        variant: "destructive"
+      });
+    }
+  }, [error, toast]);
+
+  const isFiltered = Object.values(filters).some(Boolean);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-4 py-8">
+        <PageHeader
+          title="Leaderboards"
+          subtitle="Top batsmen, bowlers and fielders"
+        />
+
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="from-date">From</Label>
+                <Input
+                  id="from-date"
+                  type="date"
+                  value={filters.fromDate}
+                  onChange={(e) => setFilters(prev => ({ ...prev, fromDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="to-date">To</Label>
+                <Input
+                  id="to-date"
+                  type="date"
+                  value={filters.toDate}
+                  onChange={(e) => setFilters(prev => ({ ...prev, toDate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Team</Label>
+                <Select
+                  value={filters.teamId || 'all'}
+                  onValueChange={(value) => setFilters(prev => ({ ...prev, teamId: value === 'all' ? '' : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All teams" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All teams</SelectItem>
+                    {teams.map(team => (
+                      <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Tournament</Label>
+                <Select
+                  value={filters.tournamentId || 'all'}
+                  onValueChange={(value) => setFilters(prev => ({ ...prev, tournamentId: value === 'all' ? '' : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All tournaments" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All tournaments</SelectItem>
+                    {tournaments.map(tournament => (
+                      <SelectItem key={tournament.id} value={tournament.id}>{tournament.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={() => setFilters(EMPTY_FILTERS)} disabled={!isFiltered}>
+                Clear filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="batting">
+          <TabsList>
+            <TabsTrigger value="batting">Batting</TabsTrigger>
+            <TabsTrigger value="bowling">Bowling</TabsTrigger>
+            <TabsTrigger value="fielding">Fielding</TabsTrigger>
+          </TabsList>
+
+          <Card className="mt-4">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Medal className="h-5 w-5" /> Top Performers
+                {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </CardTitle>
+              <CardDescription>Click a column heading to rank players by it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TabsContent value="batting" className="mt-0">
+                <LeaderboardTable rows={rows} columns={BATTING_COLUMNS} sortBy={battingSort} onSortChange={setBattingSort} />
+              </TabsContent>
+              <TabsContent value="bowling" className="mt-0">
+                <LeaderboardTable rows={rows} columns={BOWLING_COLUMNS} sortBy={bowlingSort} onSortChange={setBowlingSort} />
+              </TabsContent>
+              <TabsContent value="fielding" className="mt-0">
+                <LeaderboardTable rows={rows} columns={FIELDING_COLUMNS} sortBy={fieldingSort} onSortChange={setFieldingSort} />
+              </TabsContent>
+            </CardContent>
+          </Card>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboards;
@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -9,14 +10,50 @@ import { Target } from "lucide-react";
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, ArrowLeft, Play, Users, Trophy } from 'lucide-react';
+import { Loader2, ArrowLeft, Play, Users, Trophy, Pencil, History, FileDown, Trash2, ArrowRightLeft } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import PageHeader from '@/components/PageHeader';
 import LiveScoring from '@/components/LiveScoring';
 import Scorecard from '@/components/Scorecard';
 import TossStep from '@/components/TossStep';
 import PlayerSelection from '@/components/PlayerSelection';
+import BallEditDialog, { type BallEdit, type EditableBall } from '@/components/BallEditDialog';
+import MatchHistorySheet from '@/components/MatchHistorySheet';
+import PlayerOfMatchCard from '@/components/PlayerOfMatchCard';
 import { formatOverDisplay, overToDecimal, getCurrentOverDisplay } from '@/utils/overManagement';
+import { computeMatch, formatDismissal, formatOvers, wicketsToEndInnings, type BallRecord } from '@/utils/scoringEngine';
+import { computeMatchResult, formatMatchResult, fromResultColumns, getBattingOrderIds, toResultColumns } from '@/utils/matchResult';
+import { computeMvpPoints, DEFAULT_MVP_RULES, parseMvpRules } from '@/utils/mvp';
+import {
+  correctMatchScore,
+  fetchTournament,
+  replaceMatchMvpPoints,
+  type MatchWithTeams
+} from '@/lib/db';
+import {
+  matchKeys,
+  matchQueries,
+  useDeleteMatch,
+  useHandOverScoring,
+  useMatchScoreEdits,
+  useMatchScorers,
+  useStartScoring,
+  useUpdateMatch
+} from '@/hooks/use-matches';
+import { useCurrentProfile, usePlatformAdmin } from '@/hooks/use-profile';
+import { canManageMatch, canScoreMatch, getActiveScorerId, isScoringHere } from '@/utils/permissions';
+import MatchScorersCard from '@/components/MatchScorersCard';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 
 interface Team {
   id: string;
@@ -57,12 +94,25 @@ interface Match {
   toss_decision: 'bat' | 'bowl' | null;
   created_by: string;
   created_at: string;
+  result_type?: 'win' | 'tie' | 'no_result' | null;
+  winner_team_id?: string | null;
+  result_margin?: number | null;
+  result_margin_type?: 'runs' | 'wickets' | null;
+  result_balls_remaining?: number | null;
+  player_of_match_id?: string | null;
+  player_of_match_overridden?: boolean;
+  current_batsmen?: string[] | null;
+  current_bowler_id?: string | null;
+  active_scorer_id?: string | null;
+  tournament?: { id: string; name: string } | null;
 }
 
 interface Score {
+  id?: string;
   inning: number;
   over_number: number;
   ball_number: number;
+  delivery_number?: number;
   batsman_id: string;
   bowler_id: string;
   runs: number;
@@ -70,19 +120,32 @@ interface Score {
   extras_runs?: number;
   wicket_type?: string;
   wicket_batsman_id?: string;
+  wicket_fielder_id?: string | null;
+  run_out_end?: string | null;
 }
 
+// Teams in batting order as decided by the toss (team A bats first until the toss is recorded)
+const getBattingOrder = (match: Match): [Team, Team] => {
+  const [firstId] = getBattingOrderIds(match.team_a.id, match.team_b.id, match.toss_winner?.id, match.toss_decision);
+  return firstId === match.team_a.id ? [match.team_a, match.team_b] : [match.team_b, match.team_a];
+};
+
+// Wickets that end each innings, in batting order. A side is all out one wicket short of its squad.
+const getMaxWickets = (match: Match, teamA: MatchPlayer[], teamB: MatchPlayer[]): number[] => {
+  return getBattingOrder(match).map(team => {
+    const squad = team.id === match.team_a.id ? teamA : teamB;
+    return wicketsToEndInnings(squad.filter(p => p.is_playing_xi).length || squad.length);
+  });
+};
+
 const MatchDetail = () => {
   const { matchId } = useParams<{ matchId: string }>();
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
-  const [match, setMatch] = useState<Match | null>(null);
-  const [teamAPlayers, setTeamAPlayers] = useState<MatchPlayer[]>([]);
-  const [teamBPlayers, setTeamBPlayers] = useState<MatchPlayer[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [isCreator, setIsCreator] = useState(false);
-  const [scores, setScores] = useState<Score[]>([]);
+  const queryClient = useQueryClient();
+  const updateMatch = useUpdateMatch(matchId as string);
+  const deleteMatch = useDeleteMatch();
   const [currentInning, setCurrentInning] = useState(1);
   const [currentOver, setCurrentOver] = useState(0);
   const [currentBall, setCurrentBall] = useState(1);
@@ -90,173 +153,402 @@ const MatchDetail = () => {
   const [bowlingTeam, setBowlingTeam] = useState<Team | null>(null);
   const [selectedBatsmen, setSelectedBatsmen] = useState<string[] | null>(null);
   const [selectedBowler, setSelectedBowler] = useState<string | null>(null);
+  const [commentaryInning, setCommentaryInning] = useState<number | null>(null);
+  const [editingBall, setEditingBall] = useState<Score | null>(null);
+  const [savingEdit, setSavingEdit] = useState(false);
+  // Bumped after a correction or a handover so LiveScoring restarts from the latest balls and crease
+  const [scoresRevision, setScoresRevision] = useState(0);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [exportingPdf, setExportingPdf] = useState(false);
+  // The scorer this page last saw holding the match
+  const seenActiveScorerIdRef = useRef<string | null>(null);
+  // The match whose crease and position this page last picked up
+  const hydratedMatchIdRef = useRef<string | null>(null);
+
+  // The page renders straight from the cached match, squads and balls, so invalidating them
+  // or writing live changes into them is enough to update it
+  const { data: profile, isLoading: profileLoading } = useCurrentProfile(user?.id);
+  const profileId = profile?.id ?? null;
+  const { data: matchData, isLoading: matchLoading, error: matchError } = useQuery({
+    ...matchQueries.detail(matchId as string),
+    enabled: !!matchId && !!user
+  });
+  const match: Match | null = matchData ?? null;
+  const { data: matchPlayers, isLoading: playersLoading, error: playersError } = useQuery(
+    matchQueries.players(matchId as string, matchData)
+  );
+  const { data: savedScores, isLoading: scoresLoading, error: scoresError } = useQuery({
+    ...matchQueries.scores(matchId as string),
+    enabled: !!matchId && !!user
+  });
+  const { data: queuedScores } = useQuery({
+    ...matchQueries.queuedScores(matchId as string),
+    enabled: !!matchId
+  });
+  const { data: edits } = useMatchScoreEdits(matchId);
 
+  const teamAPlayers: MatchPlayer[] = useMemo(
+    () => (matchPlayers || []).filter(p => p.team_id === matchData?.team_a.id),
+    [matchPlayers, matchData?.team_a.id]
+  );
+  const teamBPlayers: MatchPlayer[] = useMemo(
+    () => (matchPlayers || []).filter(p => p.team_id === matchData?.team_b.id),
+    [matchPlayers, matchData?.team_b.id]
+  );
+  // Balls recorded offline on this device show up before they have synced
+  const scores: Score[] = useMemo(() => {
+    const saved = savedScores || [];
+    return [...saved, ...(queuedScores || []).filter(q => !saved.some(s => s.id === q.id))];
+  }, [savedScores, queuedScores]);
+  const scoreEdits: (BallEdit & { match_score_id: string })[] = useMemo(() => (edits || []).map(edit => ({
+    id: edit.id,
+    match_score_id: edit.match_score_id,
+    action: edit.action,
+    reason: edit.reason,
+    created_at: edit.created_at,
+    edited_by_name: edit.editor?.name || 'Unknown'
+  })), [edits]);
+  const loading = !user || profileLoading || matchLoading || (!!matchData && (playersLoading || scoresLoading));
+  const loadError = matchError || playersError || scoresError;
+
+  // Changes made on this page or by the scorer go straight into the cached match and balls
+  const patchMatch = (changes: Partial<MatchWithTeams>) => {
+    queryClient.setQueryData<MatchWithTeams>(matchKeys.detail(matchId as string), prev =>
+      prev ? { ...prev, ...changes } : prev
+    );
+  };
+  const updateSavedScores = (update: (prev: Score[]) => Score[]) => {
+    queryClient.setQueryData<Score[]>(matchKeys.scores(matchId as string), prev => prev ? update(prev) : prev);
+  };
+
+  const { data: isAdmin = false } = usePlatformAdmin(profileId ?? undefined);
+  const { data: scorers = [] } = useMatchScorers(matchId);
+  const viewer = { profileId, isAdmin };
+  const matchRoles = match ? { created_by: match.created_by, scorerIds: scorers.map(s => s.scorer_id) } : null;
+  const canManage = !!matchRoles && canManageMatch(viewer, matchRoles);
+  const canScore = !!matchRoles && canScoreMatch(viewer, matchRoles);
+  const scoringRoles = match && matchRoles ? { ...matchRoles, active_scorer_id: match.active_scorer_id ?? null } : null;
+  const activeScorerId = scoringRoles ? getActiveScorerId(scoringRoles) : null;
+  const scoringHere = !!scoringRoles && isScoringHere(viewer, scoringRoles);
+  const handOverScoring = useHandOverScoring(matchId as string);
+  const startScoring = useStartScoring(matchId as string);
+
+  // Scoring was handed to this device: carry on from the crease the last scorer saved, restarting
+  // LiveScoring so it picks that crease up instead of the one the page loaded with
   useEffect(() => {
-    if (matchId && user) {
-      fetchMatchData();
+    if (!match || activeScorerId === seenActiveScorerIdRef.current) return;
+    seenActiveScorerIdRef.current = activeScorerId;
+    if (activeScorerId && activeScorerId === profileId && match.current_batsmen?.length) {
+      setSelectedBatsmen(match.current_batsmen);
+      setSelectedBowler(match.current_bowler_id);
+      setScoresRevision(revision => revision + 1);
     }
-  }, [matchId, user]);
+  }, [match, activeScorerId, profileId]);
 
-  const fetchMatchData = async () => {
-    try {
-      // Get user's profile ID
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('user_id', user?.id)
-        .single();
-
-      if (!profile) return;
-
-      // Fetch match details
-      const { data: matchData, error: matchError } = await supabase
-        .from('matches')
-        .select(`
-          *,
-          team_a:teams!matches_team_a_id_fkey(
-            id,
-            name,
-            logo_url,
-            captain:profiles!teams_captain_id_fkey(name)
-          ),
-          team_b:teams!matches_team_b_id_fkey(
-            id,
-            name,
-            logo_url,
-            captain:profiles!teams_captain_id_fkey(name)
-          ),
-          toss_winner:teams!matches_toss_winner_id_fkey(
-            id,
-            name,
-            logo_url,
-            captain:profiles!teams_captain_id_fkey(name)
-          ),
-          current_batsmen,
-          current_bowler_id
-        `)
-        .eq('id', matchId)
-        .single();
-
-      if (matchError) throw matchError;
-      setMatch(matchData);
-      setIsCreator(matchData.created_by === profile.id);
-
-      // Set batting/bowling teams based on toss
-      if (matchData.toss_winner && matchData.toss_decision) {
-        if (matchData.toss_decision === 'bat') {
-          setBattingTeam(matchData.toss_winner);
-          setBowlingTeam(matchData.toss_winner.id === matchData.team_a.id ? matchData.team_b : matchData.team_a);
-        } else {
-          setBowlingTeam(matchData.toss_winner);
-          setBattingTeam(matchData.toss_winner.id === matchData.team_a.id ? matchData.team_b : matchData.team_a);
-        }
-      } else {
-        // Default: team_a bats first
-        setBattingTeam(matchData.team_a);
-        setBowlingTeam(matchData.team_b);
+  useEffect(() => {
+    if (loadError) {
+      console.error('Error fetching match data:', loadError);
+      toast({
+        title: "Error",
+        description: "Failed to load match data",
+        variant: "destructive"
+      });
+    }
+  }, [loadError, toast]);
+
+  // Once the match, squads and balls have loaded, pick up play where the recorded balls left it
+  useEffect(() => {
+    if (!match || !matchPlayers || !savedScores || hydratedMatchIdRef.current === match.id) return;
+    hydratedMatchIdRef.current = match.id;
+
+    // If match is in progress, hydrate current selections so scoring can resume
+    if (match.status === 'in_progress') {
+      if (match.current_batsmen?.length > 0) {
+        setSelectedBatsmen(match.current_batsmen);
       }
+      if (match.current_bowler_id) {
+        setSelectedBowler(match.current_bowler_id);
+      }
+    }
+
+    // Calculate current position from the recorded balls; teams swap roles for the second innings
+    const matchState = computeMatch(scores, match.overs, getMaxWickets(match, teamAPlayers, teamBPlayers));
+    const liveInnings = matchState.innings[matchState.currentInning - 1];
+    const [firstBatting, firstBowling] = getBattingOrder(match);
+    setCurrentInning(matchState.currentInning);
+    setCurrentOver(liveInnings.nextPosition.over);
+    setCurrentBall(liveInnings.nextPosition.ball);
+    setBattingTeam(matchState.currentInning === 2 ? firstBowling : firstBatting);
+    setBowlingTeam(matchState.currentInning === 2 ? firstBatting : firstBowling);
+  }, [match, matchPlayers, savedScores, scores, teamAPlayers, teamBPlayers]);
 
-      // If match is in progress, hydrate current selections so scoring can resume
-      if (matchData.status === 'in_progress') {
-        if (Array.isArray(matchData.current_batsmen) && matchData.current_batsmen.length > 0) {
-          setSelectedBatsmen(matchData.current_batsmen as string[]);
+  // Follow balls and match updates recorded by the scorer on any device
+  useEffect(() => {
+    if (!matchId) return;
+
+    const updateBalls = (update: (prev: Score[]) => Score[]) => {
+      queryClient.setQueryData<Score[]>(matchKeys.scores(matchId), prev => prev ? update(prev) : prev);
+    };
+
+    const channel = supabase
+      .channel(`match-${matchId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'match_scores', filter: `match_id=eq.${matchId}` },
+        (payload) => {
+          const newScore = payload.new as Score;
+          // The scorer already added their own ball through handleScoreAdded
+          updateBalls(prev => prev.some(s => s.id === newScore.id) ? prev : [...prev, newScore]);
         }
-        if (matchData.current_bowler_id) {
-          setSelectedBowler(matchData.current_bowler_id as string);
+      )
+      .on(
+        // Corrected and resequenced balls replace the copies we hold
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'match_scores', filter: `match_id=eq.${matchId}` },
+        (payload) => {
+          const updatedScore = payload.new as Score;
+          updateBalls(prev => prev.map(s => s.id === updatedScore.id ? { ...s, ...updatedScore } : s));
         }
-      }
-
-      // Fetch match players
-      const { data: matchPlayers, error: playersError } = await supabase
-        .from('match_players')
-        .select(`
-          *,
-          player:profiles(name, image_url, batting_style, bowling_style)
-        `)
-        .eq('match_id', matchId);
-
-      if (playersError) throw playersError;
-
-      // Separate players by team or fallback to team rosters
-      let teamA: MatchPlayer[] = [];
-      let teamB: MatchPlayer[] = [];
-
-      if (matchPlayers && matchPlayers.length > 0) {
-        teamA = matchPlayers.filter((p: any) => p.team_id === matchData.team_a.id);
-        teamB = matchPlayers.filter((p: any) => p.team_id === matchData.team_b.id);
-      } else {
-        // Fallback to team rosters if match players are not set
-        const { data: rosters, error: rosterError } = await supabase
-          .from('team_players')
-          .select(`id, team_id, player_id, player:profiles(name, image_url, batting_style, bowling_style)`) 
-          .in('team_id', [matchData.team_a.id, matchData.team_b.id]);
-
-        if (rosterError) throw rosterError;
-
-        const mapped: MatchPlayer[] = (rosters || []).map((r: any) => ({
-          id: r.id,
-          player_id: r.player_id,
-          team_id: r.team_id,
-          is_playing_xi: true,
-          player: r.player
-        }));
-
-        teamA = mapped.filter(p => p.team_id === matchData.team_a.id);
-        teamB = mapped.filter(p => p.team_id === matchData.team_b.id);
-      }
-      
-      setTeamAPlayers(teamA);
-      setTeamBPlayers(teamB);
-
-      // Fetch scores
-      const { data: scoresData, error: scoresError } = await supabase
-        .from('match_scores')
-        .select('*')
-        .eq('match_id', matchId)
-        .order('inning', { ascending: true })
-        .order('over_number', { ascending: true })
-        .order('ball_number', { ascending: true });
-
-      if (scoresError) throw scoresError;
-      setScores(scoresData || []);
-
-      // Calculate current position
-      if (scoresData && scoresData.length > 0) {
-        const lastScore = scoresData[scoresData.length - 1];
-        setCurrentInning(lastScore.inning);
-        setCurrentOver(lastScore.over_number);
-        setCurrentBall(lastScore.ball_number + 1);
-        
-        if (currentBall > 6) {
-          setCurrentOver(currentOver + 1);
-          setCurrentBall(1);
+      )
+      .on(
+        // Delete events can't be filtered by column, so deletes from other matches are skipped here
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'match_scores' },
+        (payload) => {
+          const removed = payload.old as Partial<Score> & { match_id?: string };
+          if (removed.match_id !== matchId) return;
+          updateBalls(prev => prev.some(s => s.id === removed.id) ? prev.filter(s => s.id !== removed.id) : prev);
         }
-      }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'matches', filter: `id=eq.${matchId}` },
+        (payload) => {
+          const { toss_winner_id, ...updated } = payload.new as Partial<MatchWithTeams>;
+          queryClient.setQueryData<MatchWithTeams>(matchKeys.detail(matchId), prev => prev ? {
+            ...prev,
+            ...updated,
+            toss_winner_id,
+            team_a: prev.team_a,
+            team_b: prev.team_b,
+            toss_winner: [prev.team_a, prev.team_b].find(t => t.id === toss_winner_id) || null,
+            tournament: prev.tournament
+          } : prev);
+          // The match list is out of date once the scorer changes the match
+          queryClient.invalidateQueries({ queryKey: matchKeys.all });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [matchId, queryClient]);
+
+  // Save the result and close the match. An unfinished match is recorded as no result.
+  const completeMatch = async (rows: BallRecord[]) => {
+    if (!match) return;
+
+    const [firstBatting, secondBatting] = getBattingOrder(match);
+    const matchState = computeMatch(rows, match.overs, getMaxWickets(match, teamAPlayers, teamBPlayers));
+    const result = computeMatchResult(matchState, [firstBatting.id, secondBatting.id], match.overs);
+    const resultColumns = toResultColumns(result);
+
+    try {
+      // A tournament's own MVP rules apply to its matches
+      const rules = match.tournament
+        ? parseMvpRules((await fetchTournament(match.tournament.id)).mvp_rules)
+        : DEFAULT_MVP_RULES;
+      const mvpPoints = computeMvpPoints(matchState, rules);
+      // The creator's own pick stands through later corrections
+      const playerOfMatchId = match.player_of_match_overridden
+        ? match.player_of_match_id ?? null
+        : mvpPoints[0]?.playerId ?? null;
+
+      await updateMatch.mutateAsync({ status: 'completed', ...resultColumns, player_of_match_id: playerOfMatchId });
+      await replaceMatchMvpPoints(match.id, mvpPoints.map(points => ({
+        player_id: points.playerId,
+        batting_points: points.batting,
+        bowling_points: points.bowling,
+        fielding_points: points.fielding,
+        total_points: points.total
+      })));
+      // Career figures, records and MVP rankings count the finished match
+      queryClient.invalidateQueries({ queryKey: ['player-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['player-mvp'] });
+      queryClient.invalidateQueries({ queryKey: matchKeys.mvp(match.id) });
 
+      toast({
+        title: "Match Complete",
+        description: formatMatchResult(result, getTeamName)
+      });
     } catch (error) {
-      console.error('Error fetching match data:', error);
+      console.error('Error saving match result:', error);
       toast({
         title: "Error",
-        description: "Failed to load match data",
+        description: "Failed to save match result",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // The completion effect calls the latest completeMatch without rerunning on every render
+  const completeMatchRef = useRef(completeMatch);
+  const completedScoresRef = useRef<Score[] | null>(null);
+  useEffect(() => {
+    completeMatchRef.current = completeMatch;
+  });
+
+  // The creator can pick someone other than the top MVP scorer, or go back to the suggestion
+  const changePlayerOfMatch = async (playerId: string, overridden: boolean) => {
+    try {
+      await updateMatch.mutateAsync({ player_of_match_id: playerId, player_of_match_overridden: overridden });
+      queryClient.invalidateQueries({ queryKey: ['player-mvp'] });
+      toast({
+        title: "Success",
+        description: "Player of the Match updated"
+      });
+    } catch (error) {
+      console.error('Error updating Player of the Match:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update Player of the Match",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeMatch = async () => {
+    if (!match) return;
+
+    try {
+      await deleteMatch.mutateAsync(match.id);
+      toast({
+        title: "Success",
+        description: "Match deleted successfully!"
+      });
+      navigate('/matches');
+    } catch (error) {
+      console.error('Error deleting match:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete match",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Scoring moves to another scorer's device, or the owner takes it back from one that went quiet
+  const handleScoringHandedOver = (toScorerId: string) => {
+    patchMatch({ active_scorer_id: toScorerId });
+  };
+
+  const takeOverScoring = async () => {
+    if (!profileId) return;
+
+    try {
+      await handOverScoring.mutateAsync({ toScorerId: profileId });
+      handleScoringHandedOver(profileId);
+      toast({
+        title: "Success",
+        description: "You are now scoring this match"
+      });
+    } catch (error) {
+      console.error('Error taking over scoring:', error);
+      toast({
+        title: "Error",
+        description: "Failed to take over scoring",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getScorerName = (scorerId: string) => {
+    if (scorerId === match?.created_by) return 'The match owner';
+    return scorers.find(s => s.scorer_id === scorerId)?.scorer?.name || 'Another scorer';
+  };
+
+  // Downloads a printable scorecard. The PDF is built on the device, so this also works offline.
+  const exportScorecard = async () => {
+    if (!match) return;
+
+    setExportingPdf(true);
+    try {
+      const { exportScorecardPdf } = await import('@/utils/scorecardPdf');
+      const allPlayers = [...teamAPlayers, ...teamBPlayers];
+      const getPlayerName = (playerId: string) => allPlayers.find(p => p.player_id === playerId)?.player.name || 'Unknown';
+      const result = fromResultColumns(match);
+
+      exportScorecardPdf({
+        title: match.name,
+        teams: `${match.team_a.name} vs ${match.team_b.name}`,
+        date: `${formatDate(match.date)} at ${formatTime(match.time)}`,
+        location: match.location,
+        overs: match.overs,
+        tournamentName: match.tournament?.name || null,
+        toss: match.toss_winner && match.toss_decision
+          ? `${match.toss_winner.name} won the toss and chose to ${match.toss_decision}`
+          : null,
+        result: match.status === 'completed' && result ? formatMatchResult(result, getTeamName) : null,
+        playerOfMatch: match.player_of_match_id ? getPlayerName(match.player_of_match_id) : null,
+        state: computeMatch(scores, match.overs, getMaxWickets(match, teamAPlayers, teamBPlayers)),
+        innings: getBattingOrder(match).map((team, index) => ({
+          teamName: team.name,
+          squad: getInningsPlayers(index + 1)[0]
+            .filter(p => p.is_playing_xi)
+            .map(p => ({ playerId: p.player_id, name: p.player.name }))
+        })),
+        getPlayerName
+      }, `${match.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-scorecard.pdf`);
+    } catch (error) {
+      console.error('Error exporting scorecard:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export scorecard",
         variant: "destructive"
       });
     } finally {
-      setLoading(false);
+      setExportingPdf(false);
     }
   };
 
+  // Spectators follow the innings from the recorded balls; the scorer moves on through LiveScoring
+  useEffect(() => {
+    if (!match || scoringHere) return;
+    const matchState = computeMatch(scores, match.overs, getMaxWickets(match, teamAPlayers, teamBPlayers));
+    const liveInnings = matchState.innings[matchState.currentInning - 1];
+    const [firstBatting, firstBowling] = getBattingOrder(match);
+    setCurrentInning(matchState.currentInning);
+    setCurrentOver(liveInnings.nextPosition.over);
+    setCurrentBall(liveInnings.nextPosition.ball);
+    setBattingTeam(matchState.currentInning === 2 ? firstBowling : firstBatting);
+    setBowlingTeam(matchState.currentInning === 2 ? firstBatting : firstBowling);
+  }, [scores, match, scoringHere, teamAPlayers, teamBPlayers]);
+
+  // Close the match as soon as the recorded balls finish the second innings. Each set of balls
+  // is tried once, so a failed save is retried with the next change rather than on every render.
+  useEffect(() => {
+    if (!match || match.status !== 'in_progress' || !scoringHere || completedScoresRef.current === scores) return;
+    const matchState = computeMatch(scores, match.overs, getMaxWickets(match, teamAPlayers, teamBPlayers));
+    if (matchState.isComplete) {
+      completedScoresRef.current = scores;
+      completeMatchRef.current(scores);
+    }
+  }, [scores, match, scoringHere, teamAPlayers, teamBPlayers]);
+
+  const getTeamName = (teamId: string) => {
+    if (!match) return 'Unknown Team';
+    if (teamId === match.team_a.id) return match.team_a.name;
+    if (teamId === match.team_b.id) return match.team_b.name;
+    return 'Unknown Team';
+  };
+
   const startMatch = async () => {
     if (!match) return;
 
     try {
-      const { error } = await supabase
-        .from('matches')
-        .update({ status: 'in_progress' })
-        .eq('id', match.id);
+      await updateMatch.mutateAsync({ status: 'in_progress' });
 
-      if (error) throw error;
-
-      setMatch(prev => prev ? { ...prev, status: 'in_progress' } : null);
       toast({
         title: "Match Started!",
         description: "The match is now in progress. You can start scoring."
@@ -271,8 +563,106 @@ const MatchDetail = () => {
     }
   };
 
+  // Reload the balls after a correction and pick up play from the corrected history.
+  // Resolves to false when a finished match kept its saved result.
+  const reloadScores = async (): Promise<boolean> => {
+    if (!match) return true;
+
+    const rows: Score[] = await queryClient.fetchQuery(matchQueries.scores(matchId));
+
+    const matchState = computeMatch(rows, match.overs, getMaxWickets(match, teamAPlayers, teamBPlayers));
+    const liveInnings = matchState.innings[matchState.currentInning - 1];
+    const [firstBatting, firstBowling] = getBattingOrder(match);
+    setCurrentInning(matchState.currentInning);
+    setCurrentOver(liveInnings.nextPosition.over);
+    setCurrentBall(liveInnings.nextPosition.ball);
+    setBattingTeam(matchState.currentInning === 2 ? firstBowling : firstBatting);
+    setBowlingTeam(matchState.currentInning === 2 ? firstBatting : firstBowling);
+
+    // Whoever the corrected balls leave at the crease
+    const crease = [liveInnings.striker, liveInnings.nonStriker].filter(Boolean) as string[];
+    setSelectedBatsmen(crease.length > 0 ? crease : null);
+    setSelectedBowler(liveInnings.next.needsNewBowler ? null : liveInnings.bowler);
+    setScoresRevision(prev => prev + 1);
+
+    // A finished match keeps its result in step with the corrected balls. If they no longer
+    // finish the match, the saved result stands rather than being replaced with no result.
+    if (match.status === 'completed') {
+      if (!matchState.isComplete) return false;
+      await completeMatch(rows);
+    }
+    return true;
+  };
+
+  // Edit or delete a recorded ball, renumber the balls after it and log the change
+  const correctBall = async (action: 'edit' | 'delete', updated: EditableBall | null, reason: string) => {
+    if (!editingBall?.id) return;
+
+    const ballId = editingBall.id;
+    const changes = updated ? {
+      batsman_id: updated.batsman_id,
+      bowler_id: updated.bowler_id,
+      runs: updated.runs,
+      extras_type: updated.extras_type || null,
+      extras_runs: updated.extras_type ? updated.extras_runs || 0 : 0,
+      wicket_type: updated.wicket_type || null,
+      wicket_batsman_id: updated.wicket_type ? updated.wicket_batsman_id || updated.batsman_id : null,
+      wicket_fielder_id: updated.wicket_type ? updated.wicket_fielder_id || null : null,
+      run_out_end: updated.wicket_type === 'run_out' ? updated.run_out_end || null : null
+    } : null;
+
+    setSavingEdit(true);
+    try {
+      await correctMatchScore(ballId, changes, reason);
+
+      setEditingBall(null);
+      const resultUpdated = await reloadScores();
+      queryClient.invalidateQueries({ queryKey: matchKeys.edits(matchId as string) });
+      toast({
+        title: action === 'edit' ? "Ball Updated" : "Ball Deleted",
+        description: resultUpdated
+          ? "Scores have been recalculated"
+          : "Scores have been recalculated, but they no longer finish the match, so its saved result was kept",
+        variant: resultUpdated ? undefined : "destructive"
+      });
+    } catch (error) {
+      console.error('Error correcting ball:', error);
+      toast({
+        title: "Error",
+        description: action === 'edit' ? "Failed to update ball" : "Failed to delete ball",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  // Squads for an innings: [batting side, bowling side]
+  const getInningsPlayers = (inning: number): [MatchPlayer[], MatchPlayer[]] => {
+    if (!match) return [[], []];
+    const [firstBatting] = getBattingOrder(match);
+    const battingFirst = firstBatting.id === match.team_a.id;
+    const teamABats = inning === 1 ? battingFirst : !battingFirst;
+    return teamABats ? [teamAPlayers, teamBPlayers] : [teamBPlayers, teamAPlayers];
+  };
+
   const handleScoreAdded = (newScore: Score) => {
-    setScores(prev => [...prev, newScore]);
+    updateSavedScores(prev => prev.some(s => s.id && s.id === newScore.id) ? prev : [...prev, newScore]);
+    // Also listed with the queued balls when it was saved offline
+    queryClient.invalidateQueries({ queryKey: matchKeys.queuedScores(matchId as string) });
+  };
+
+  const handleScoreRemoved = (scoreId: string) => {
+    const remaining = scores.filter(s => s.id !== scoreId);
+    updateSavedScores(prev => prev.filter(s => s.id !== scoreId));
+    queryClient.setQueryData<Score[]>(matchKeys.queuedScores(matchId as string), prev => prev?.filter(s => s.id !== scoreId));
+
+    // The removed ball's slot is free again
+    if (!match) return;
+    const matchState = computeMatch(remaining, match.overs, getMaxWickets(match, teamAPlayers, teamBPlayers));
+    const liveInnings = matchState.innings[currentInning - 1];
+    setCurrentOver(liveInnings.nextPosition.over);
+    setCurrentBall(liveInnings.nextPosition.ball);
   };
 
   const handlePositionUpdate = (inning: number, over: number, ball: number) => {
@@ -332,19 +722,6 @@ const MatchDetail = () => {
     });
   };
 
-  const calculateTeamScore = (teamId: string, inning: number) => {
-    const teamScores = scores.filter(s => {
-      const isBatting = (inning === 1 && battingTeam?.id === teamId) || 
-                       (inning === 2 && bowlingTeam?.id === teamId);
-      return s.inning === inning && isBatting;
-    });
-
-    const totalRuns = teamScores.reduce((sum, score) => sum + score.runs + (score.extras_runs || 0), 0);
-    const wickets = teamScores.filter(s => s.wicket_type).length;
-
-    return { runs: totalRuns, wickets };
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -375,8 +752,9 @@ const MatchDetail = () => {
     );
   }
 
-  const teamAScore = calculateTeamScore(match.team_a.id, currentInning);
-  const teamBScore = calculateTeamScore(match.team_b.id, currentInning);
+  // Replayed with the chase target and squad limits so the header knows when an innings is over
+  const liveInnings = computeMatch(scores, match.overs, getMaxWickets(match, teamAPlayers, teamBPlayers)).innings[currentInning - 1];
+  const matchResult = fromResultColumns(match);
 
   return (
     <div className="min-h-screen bg-background">
@@ -389,13 +767,82 @@ const MatchDetail = () => {
           backUrl="/matches"
         />
 
+        <div className="flex items-center justify-between gap-4 mb-4">
+          {/* Tournament */}
+          {match.tournament ? (
+            <Link
+              to={`/tournaments/${match.tournament.id}`}
+              className="inline-flex items-center gap-1 text-sm font-medium text-primary hover:underline"
+            >
+              <Trophy className="h-4 w-4" />
+              {match.tournament.name}
+            </Link>
+          ) : <span />}
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={exportScorecard} disabled={exportingPdf || scores.length === 0}>
+              {exportingPdf ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileDown className="h-4 w-4 mr-2" />}
+              Export PDF
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setHistoryOpen(true)}>
+              <History className="h-4 w-4 mr-2" />
+              History
+            </Button>
+            {canManage && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" className="text-destructive hover:text-destructive" disabled={deleteMatch.isPending}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete Match</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Are you sure you want to delete "{match.name}"? Its balls, squads and stats will be removed. This action cannot be undone.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={removeMatch} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                      Delete Match
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        </div>
+
+        {/* Match Result */}
+        {match.status === 'completed' && matchResult && (
+          <Card className="mb-6">
+            <CardContent className="flex items-center justify-center gap-2 py-4">
+              <Trophy className="h-5 w-5 text-primary" />
+              <p className="font-semibold">{formatMatchResult(matchResult, getTeamName)}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {match.status === 'completed' && (
+          <PlayerOfMatchCard
+            matchId={match.id}
+            playerOfMatchId={match.player_of_match_id || null}
+            overridden={!!match.player_of_match_overridden}
+            players={[...teamAPlayers, ...teamBPlayers].map(p => p.player)}
+            canOverride={canManage}
+            saving={updateMatch.isPending}
+            onChange={changePlayerOfMatch}
+          />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Match Content (expanded to include match info) */}
           <div className="lg:col-span-3">
             <Tabs defaultValue="scorecard" className="w-full">
-              <TabsList className={`grid w-full ${isCreator ? 'grid-cols-2' : 'grid-cols-1'} rounded-full bg-muted p-1`}>
+              <TabsList className={`grid w-full ${canScore ? 'grid-cols-2' : 'grid-cols-1'} rounded-full bg-muted p-1`}>
                 <TabsTrigger value="scorecard" className="rounded-full">Scorecard</TabsTrigger>
-                {isCreator && <TabsTrigger value="scoring" className="rounded-full">Live Scoring</TabsTrigger>}
+                {canScore && <TabsTrigger value="scoring" className="rounded-full">Live Scoring</TabsTrigger>}
               </TabsList>
 
               <TabsContent value="scorecard" className="space-y-4">
@@ -409,6 +856,7 @@ const MatchDetail = () => {
                     currentOver={currentOver}
                     currentBall={currentBall}
                     totalOvers={match.overs}
+                    maxWickets={getMaxWickets(match, teamAPlayers, teamBPlayers)}
                     teamAPlayers={teamAPlayers}
                     teamBPlayers={teamBPlayers}
                     meta={{
@@ -444,10 +892,24 @@ const MatchDetail = () => {
                         <CardDescription>
                           Live updates from the current innings
                         </CardDescription>
+                        {scores.some(score => score.inning === 2) && (
+                          <div className="flex gap-2 pt-2">
+                            {[1, 2].map(inning => (
+                              <Button
+                                key={inning}
+                                size="sm"
+                                variant={(commentaryInning ?? currentInning) === inning ? 'default' : 'outline'}
+                                onClick={() => setCommentaryInning(inning)}
+                              >
+                                {inning === 1 ? '1st' : '2nd'} Innings
+                              </Button>
+                            ))}
+                          </div>
+                        )}
                       </CardHeader>
                       <CardContent>
                         {(() => {
-                          const currentInningScores = scores.filter(score => score.inning === currentInning);
+                          const currentInningScores = scores.filter(score => score.inning === (commentaryInning ?? currentInning));
                           const getPlayerName = (playerId: string) => {
                             const teamAPlayer = teamAPlayers.find(p => p.player_id === playerId);
                             const teamBPlayer = teamBPlayers.find(p => p.player_id === playerId);
@@ -458,21 +920,17 @@ const MatchDetail = () => {
                             return formatOverDisplay(overNum, ballNum);
                           };
                           
-                          const getScoreDescription = (score: any) => {
+                          const getScoreDescription = (score: Score) => {
                             let description = '';
                             
                             if (score.wicket_type) {
-                              if (score.wicket_type === 'bowled' || score.wicket_type === 'lbw' || score.wicket_type === 'hit_wicket') {
-                                description = `${score.wicket_type.replace('_', ' ')} b ${getPlayerName(score.bowler_id)}`;
-                              } else if (score.wicket_type === 'caught') {
-                                const fielderName = score.fielder_id ? getPlayerName(score.fielder_id) : 'fielder';
-                                description = `c ${fielderName} b ${getPlayerName(score.bowler_id)}`;
-                              } else if (score.wicket_type === 'stumped') {
-                                const fielderName = score.fielder_id ? getPlayerName(score.fielder_id) : 'keeper';
-                                description = `st ${fielderName} b ${getPlayerName(score.bowler_id)}`;
-                              } else if (score.wicket_type === 'run_out') {
-                                const fielderName = score.fielder_id ? getPlayerName(score.fielder_id) : 'fielder';
-                                description = `run out ${fielderName}`;
+                              description = formatDismissal(
+                                { type: score.wicket_type, bowlerId: score.bowler_id, fielderId: score.wicket_fielder_id || null },
+                                getPlayerName
+                              );
+                              // Name the batsman when the non-striker was the one run out
+                              if (score.wicket_batsman_id && score.wicket_batsman_id !== score.batsman_id) {
+                                description = `${getPlayerName(score.wicket_batsman_id)} ${description}`;
                               }
                               
                               if (score.runs > 0) {
@@ -501,7 +959,7 @@ const MatchDetail = () => {
                           ) : (
                             <div className="space-y-3 max-h-96 overflow-y-auto">
                               {currentInningScores.map((score, index) => (
-                                <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
+                                <div key={score.id || index} className="flex items-center justify-between p-3 border rounded-lg">
                                   <div className="flex items-center gap-3">
                                     <Badge variant="outline">
                                       {formatOver(score.over_number, score.ball_number)}
@@ -515,11 +973,21 @@ const MatchDetail = () => {
                                       </p>
                                     </div>
                                   </div>
-                                  {score.wicket_type && (
-                                    <Badge variant="destructive">
-                                      Wicket
-                                    </Badge>
-                                  )}
+                                  <div className="flex items-center gap-2">
+                                    {score.wicket_type && (
+                                      <Badge variant="destructive">
+                                        Wicket
+                                      </Badge>
+                                    )}
+                                    {scoreEdits.some(edit => edit.match_score_id === score.id) && (
+                                      <Badge variant="secondary">Edited</Badge>
+                                    )}
+                                    {canScore && score.id && (
+                                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingBall(score)}>
+                                        <Pencil className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                  </div>
                                 </div>
                               ))}
                             </div>
@@ -553,31 +1021,15 @@ const MatchDetail = () => {
                                 .map((player, index) => {
                                   // Check if this player is currently batting
                                   const isCurrentlyBatting = selectedBatsmen && selectedBatsmen.includes(player.player_id);
-                                  const isCurrentTeamBatting = currentInning === 1 && battingTeam?.id === match.team_a.id;
+                                  const isCurrentTeamBatting = battingTeam?.id === match.team_a.id;
                                   
                                   // Calculate player stats if they have played
-                                  let runs = 0;
-                                  let balls = 0;
-                                  let wickets = 0;
-                                  let overs = 0;
-                                  
-                                  if (isCurrentTeamBatting && isCurrentlyBatting) {
-                                    // Calculate batting stats for current batsmen
-                                    const batsmanScores = scores.filter(score => 
-                                      score.batsman_id === player.player_id && score.inning === currentInning
-                                    );
-                                    runs = batsmanScores.reduce((total, score) => total + (score.runs || 0), 0);
-                                    balls = batsmanScores.filter(score => 
-                                      !score.extras_type || ['bye', 'leg_bye'].includes(score.extras_type)
-                                    ).length;
-                                  } else if (isCurrentTeamBatting && !isCurrentlyBatting) {
-                                    // Calculate bowling stats for current bowlers
-                                    const bowlerScores = scores.filter(score => 
-                                      score.bowler_id === player.player_id && score.inning === currentInning
-                                    );
-                                    wickets = bowlerScores.filter(score => score.wicket_type).length;
-                                    overs = Math.floor(bowlerScores.length / 6) + (bowlerScores.length % 6) / 10;
-                                  }
+                                  const batting = liveInnings.batters[player.player_id];
+                                  const bowling = liveInnings.bowlers[player.player_id];
+                                  const runs = batting?.runs || 0;
+                                  const balls = batting?.balls || 0;
+                                  const wickets = bowling?.wickets || 0;
+                                  const overs = formatOvers(bowling?.balls || 0);
                                   
                                   return (
                                     <div key={player.id} className="flex items-center justify-between py-2 relative border-b border-gray-200 last:border-b-0">
@@ -600,9 +1052,9 @@ const MatchDetail = () => {
                                           <span className="text-sm font-mono">
                                             {runs}({balls})
                                           </span>
-                                        ) : isCurrentTeamBatting && !isCurrentlyBatting ? (
+                                        ) : !isCurrentTeamBatting && bowling ? (
                                           <span className="text-sm text-muted-foreground">
-                                            {wickets}/{overs.toFixed(1)}
+                                            {wickets}/{overs}
                                           </span>
                                         ) : (
                                           <span className="text-sm text-muted-foreground">
@@ -633,31 +1085,15 @@ const MatchDetail = () => {
                                 .map((player, index) => {
                                   // Check if this player is currently batting
                                   const isCurrentlyBatting = selectedBatsmen && selectedBatsmen.includes(player.player_id);
-                                  const isCurrentTeamBatting = currentInning === 2 && battingTeam?.id === match.team_b.id;
+                                  const isCurrentTeamBatting = battingTeam?.id === match.team_b.id;
                                   
                                   // Calculate player stats if they have played
-                                  let runs = 0;
-                                  let balls = 0;
-                                  let wickets = 0;
-                                  let overs = 0;
-                                  
-                                  if (isCurrentTeamBatting && isCurrentlyBatting) {
-                                    // Calculate batting stats for current batsmen
-                                    const batsmanScores = scores.filter(score => 
-                                      score.batsman_id === player.player_id && score.inning === currentInning
-                                    );
-                                    runs = batsmanScores.reduce((total, score) => total + (score.runs || 0), 0);
-                                    balls = batsmanScores.filter(score => 
-                                      !score.extras_type || ['bye', 'leg_bye'].includes(score.extras_type)
-                                    ).length;
-                                  } else if (isCurrentTeamBatting && !isCurrentlyBatting) {
-                                    // Calculate bowling stats for current bowlers
-                                    const bowlerScores = scores.filter(score => 
-                                      score.bowler_id === player.player_id && score.inning === currentInning
-                                    );
-                                    wickets = bowlerScores.filter(score => score.wicket_type).length;
-                                    overs = Math.floor(bowlerScores.length / 6) + (bowlerScores.length % 6) / 10;
-                                  }
+                                  const batting = liveInnings.batters[player.player_id];
+                                  const bowling = liveInnings.bowlers[player.player_id];
+                                  const runs = batting?.runs || 0;
+                                  const balls = batting?.balls || 0;
+                                  const wickets = bowling?.wickets || 0;
+                                  const overs = formatOvers(bowling?.balls || 0);
                                   
                                   return (
                                     <div key={player.id} className="flex items-center justify-between py-2 relative border-b border-gray-200 last:border-b-0">
@@ -680,9 +1116,9 @@ const MatchDetail = () => {
                                           <span className="text-sm font-mono">
                                             {runs}({balls})
                                           </span>
-                                        ) : isCurrentTeamBatting && !isCurrentlyBatting ? (
+                                        ) : !isCurrentTeamBatting && bowling ? (
                                           <span className="text-sm text-muted-foreground">
-                                            {wickets}/{overs.toFixed(1)}
+                                            {wickets}/{overs}
                                           </span>
                                         ) : (
                                           <span className="text-sm text-muted-foreground">
@@ -702,12 +1138,12 @@ const MatchDetail = () => {
                 </Tabs>
               </TabsContent>
 
-              {isCreator && (
+              {canScore && (
               <TabsContent value="scoring" className="space-y-4">
-                {!isCreator ? (
+                {!canScore ? (
                   <Card>
                     <CardContent className="text-center py-8">
-                      <p className="text-muted-foreground">Only the match creator can score.</p>
+                      <p className="text-muted-foreground">Only the match owner and its scorers can score.</p>
                     </CardContent>
                   </Card>
                 ) : match.status === 'scheduled' && (!match.toss_winner || !match.toss_decision) ? (
@@ -716,7 +1152,7 @@ const MatchDetail = () => {
                     teamA={match.team_a}
                     teamB={match.team_b}
                     onSaved={(winner, decision) => {
-                      setMatch(prev => prev ? { ...prev, toss_winner: winner, toss_decision: decision } : prev);
+                      patchMatch({ toss_winner: winner, toss_decision: decision });
                       if (decision === 'bat') {
                         setBattingTeam(winner);
                         setBowlingTeam(winner.id === match.team_a.id ? match.team_b : match.team_a);
@@ -734,16 +1170,12 @@ const MatchDetail = () => {
                       setSelectedBatsmen(batsmen);
                       setSelectedBowler(bowler);
                       try {
-                        const { error } = await supabase
-                          .from('matches')
-                          .update({ 
-                            status: 'in_progress',
-                            current_batsmen: batsmen,
-                            current_bowler_id: bowler
-                          })
-                          .eq('id', match.id);
-                        if (error) throw error;
-                        setMatch(prev => prev ? { ...prev, status: 'in_progress' } : prev);
+                        const started = await startScoring.mutateAsync({ scorerId: profileId, batsmen, bowlerId: bowler });
+                        if (!started) {
+                          toast({ title: 'Error', description: 'Another scorer has already started this match', variant: 'destructive' });
+                          return;
+                        }
+                        patchMatch({ status: 'in_progress', active_scorer_id: profileId });
                         toast({ title: 'Scoring started', description: 'Match is now in progress.' });
                       } catch (e) {
                         console.error(e);
@@ -751,21 +1183,77 @@ const MatchDetail = () => {
                       }
                     }}
                   />
+                ) : match.status === 'completed' ? (
+                  <Card>
+                    <CardContent className="text-center py-8">
+                      <p className="text-muted-foreground">
+                        Match complete{matchResult ? ` • ${formatMatchResult(matchResult, getTeamName)}` : ''}
+                      </p>
+                    </CardContent>
+                  </Card>
+                ) : match.status === 'in_progress' && !scoringHere ? (
+                  <Card>
+                    <CardContent className="text-center py-8 space-y-4">
+                      <p className="text-muted-foreground">
+                        {activeScorerId ? getScorerName(activeScorerId) : 'Another scorer'} is scoring this match on their device.
+                      </p>
+                      {canManage && (
+                        <Button variant="outline" onClick={takeOverScoring} disabled={handOverScoring.isPending}>
+                          {handOverScoring.isPending ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <ArrowRightLeft className="h-4 w-4 mr-2" />
+                          )}
+                          Take Over Scoring
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
                 ) : match.status === 'in_progress' && battingTeam && bowlingTeam ? (
-                  <LiveScoring
-                    key={`${match.id}-${currentInning}-${battingTeam?.id}`}
-                    matchId={match.id}
-                    currentInning={currentInning}
-                    currentOver={currentOver}
-                    currentBall={currentBall}
-                    battingTeamPlayers={battingTeam.id === match.team_a.id ? teamAPlayers : teamBPlayers}
-                    bowlingTeamPlayers={bowlingTeam.id === match.team_a.id ? teamAPlayers : teamBPlayers}
-                    totalOvers={match.overs}
-                    onScoreAdded={handleScoreAdded}
-                    onPositionUpdate={handlePositionUpdate}
-                    initialBatsmen={selectedBatsmen || undefined}
-                    initialBowler={selectedBowler || undefined}
-                  />
+                  <>
+                    <LiveScoring
+                      key={`${match.id}-${currentInning}-${battingTeam?.id}-${scoresRevision}`}
+                      matchId={match.id}
+                      currentInning={currentInning}
+                      currentOver={currentOver}
+                      currentBall={currentBall}
+                      battingTeamPlayers={battingTeam.id === match.team_a.id ? teamAPlayers : teamBPlayers}
+                      bowlingTeamPlayers={bowlingTeam.id === match.team_a.id ? teamAPlayers : teamBPlayers}
+                      totalOvers={match.overs}
+                      scores={scores}
+                      onScoreAdded={handleScoreAdded}
+                      onScoreRemoved={handleScoreRemoved}
+                      onPositionUpdate={handlePositionUpdate}
+                      initialBatsmen={selectedBatsmen || undefined}
+                      initialBowler={selectedBowler || undefined}
+                      handoverTargets={[match.created_by, ...scorers.map(s => s.scorer_id)]
+                        .filter(id => id !== profileId)
+                        .map(id => ({ id, name: id === match.created_by ? 'Match owner' : getScorerName(id) }))}
+                      onHandedOver={handleScoringHandedOver}
+                      isActiveScorer={!!profileId && match.active_scorer_id === profileId}
+                    />
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" className="w-full">
+                          Abandon Match
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Abandon Match</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The match will be closed and recorded as no result. No more balls can be added.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => completeMatch(scores)} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                            Abandon Match
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </>
                 ) : (
                   <Card>
                     <CardContent className="text-center py-8">
@@ -773,12 +1261,40 @@ const MatchDetail = () => {
                     </CardContent>
                   </Card>
                 )}
+
+                {canManage && profileId && match.status !== 'completed' && (
+                  <MatchScorersCard
+                    matchId={match.id}
+                    ownerId={match.created_by}
+                    profileId={profileId}
+                    activeScorerId={activeScorerId}
+                  />
+                )}
               </TabsContent>
               )}
             </Tabs>
           </div>
         </div>
       </div>
+
+      <BallEditDialog
+        ball={editingBall}
+        battingPlayers={editingBall ? getInningsPlayers(editingBall.inning)[0] : []}
+        bowlingPlayers={editingBall ? getInningsPlayers(editingBall.inning)[1] : []}
+        history={scoreEdits.filter(edit => edit.match_score_id === editingBall?.id)}
+        saving={savingEdit}
+        onOpenChange={(open) => !open && setEditingBall(null)}
+        onSave={(updated, reason) => correctBall('edit', updated, reason)}
+        onDelete={(reason) => correctBall('delete', null, reason)}
+      />
+
+      <MatchHistorySheet
+        matchId={match.id}
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        getPlayerName={(playerId) => [...teamAPlayers, ...teamBPlayers].find(p => p.player_id === playerId)?.player.name || 'Unknown'}
+        getTeamName={getTeamName}
+      />
     </div>
   );
 };
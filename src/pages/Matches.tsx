@@ -1,6 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,7 +12,12 @@ import { useToast } from '@/hooks/use-toast';
 import { Loader2, Plus, Trophy } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import PageHeader from '@/components/PageHeader';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
+import { computeMatch, formatOvers, wicketsForSquads } from '@/utils/scoringEngine';
+import { computeMatchResult, formatMatchResult, fromResultColumns, getBattingOrderIds, type MatchResult } from '@/utils/matchResult';
+import { useCurrentProfile } from '@/hooks/use-profile';
+import { useTeams } from '@/hooks/use-teams';
+import { useCreateMatch, useMatches, useMatchTotals, useTournamentOptions } from '@/hooks/use-matches';
 
 interface Team {
   id: string;
@@ -52,15 +56,17 @@ interface Match {
   };
   winner?: Team | null;
   result?: string;
+  tournament?: { id: string; name: string } | null;
+  result_type?: 'win' | 'tie' | 'no_result' | null;
+  winner_team_id?: string | null;
+  result_margin?: number | null;
+  result_margin_type?: 'runs' | 'wickets' | null;
+  result_balls_remaining?: number | null;
 }
 
 const Matches = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [matches, setMatches] = useState<Match[]>([]);
-  const [teams, setTeams] = useState<Team[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [creating, setCreating] = useState(false);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -69,219 +75,137 @@ const Matches = () => {
     location: '',
     team_a_id: '',
     team_b_id: '',
-    overs: 20
+    overs: 20,
+    tournament_id: ''
   });
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: profile } = useCurrentProfile(user?.id);
+  const { data: teams = [], error: teamsError } = useTeams();
+  const { data: tournaments = [], error: tournamentsError } = useTournamentOptions();
+  const { data: matchesData, isLoading: loading, error: matchesError } = useMatches();
+  const createMatch = useCreateMatch();
+  const creating = createMatch.isPending;
+
+  const completedMatchIds = useMemo(
+    () => (matchesData || []).filter(m => m.status === 'completed').map(m => m.id),
+    [matchesData]
+  );
+  const { data: totalsData, error: totalsError } = useMatchTotals(completedMatchIds);
 
   useEffect(() => {
-    if (user) {
-      fetchData();
+    const error = matchesError || teamsError;
+    if (error) {
+      console.error('Error fetching data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load matches",
+        variant: "destructive"
+      });
     }
-  }, [user]);
+  }, [matchesError, teamsError, toast]);
 
-  const fetchData = async () => {
-    try {
-      // Fetch teams
-      const { data: teamsData, error: teamsError } = await supabase
-        .from('teams')
-        .select(`
-          id,
-          name,
-          logo_url,
-          captain:profiles!teams_captain_id_fkey(name)
-        `)
-        .order('name');
-
-      if (teamsError) throw teamsError;
-      const normalizedTeams = (teamsData || []).map((t: any) => ({
-        ...t,
-        captain: Array.isArray(t.captain) ? t.captain[0] : t.captain
-      }));
-      setTeams(normalizedTeams as Team[]);
-
-      // Fetch matches with team details
-      const { data: matchesData, error: matchesError } = await supabase
-        .from('matches')
-        .select(`
-          id,
-          name,
-          date,
-          time,
-          location,
-          overs,
-          status,
-          team_a_id,
-          team_b_id,
-          toss_decision,
-          created_at,
-          team_a:teams!matches_team_a_id_fkey(
-            id,
-            name,
-            logo_url,
-            captain:profiles!teams_captain_id_fkey(name)
-          ),
-          team_b:teams!matches_team_b_id_fkey(
-            id,
-            name,
-            logo_url,
-            captain:profiles!teams_captain_id_fkey(name)
-          ),
-          toss_winner:teams!matches_toss_winner_id_fkey(
-            id,
-            name,
-            logo_url,
-            captain:profiles!teams_captain_id_fkey(name)
-          )
-        `)
-        .order('date', { ascending: false });
-
-      if (matchesError) throw matchesError;
-
-      // Normalize the data to ensure single objects instead of arrays
-      const normalizedMatches = (matchesData || []).map((match: any) => ({
-        ...match,
-        team_a: Array.isArray(match.team_a) ? match.team_a[0] : match.team_a,
-        team_b: Array.isArray(match.team_b) ? match.team_b[0] : match.team_b,
-        toss_winner: Array.isArray(match.toss_winner) ? match.toss_winner[0] : match.toss_winner
-      }));
-
-      // Fetch match scores for completed matches
-      const completedMatchIds = normalizedMatches?.filter(m => m.status === 'completed').map(m => m.id) || [];
-      let matchScores: any = {};
-      
-      if (completedMatchIds.length > 0) {
-        // First fetch team players to determine team membership
-        const { data: teamPlayersData, error: teamPlayersError } = await supabase
-          .from('match_players')
-          .select(`
-            match_id,
-            player_id,
-            team_id,
-            teams!match_players_team_id_fkey(id, name)
-          `)
-          .in('match_id', completedMatchIds);
-
-        if (teamPlayersError) {
-          console.error('Error fetching team players:', teamPlayersError);
+  useEffect(() => {
+    if (tournamentsError) console.error('Error fetching tournaments:', tournamentsError);
+    if (totalsError) console.error('Error fetching scores:', totalsError);
+  }, [tournamentsError, totalsError]);
+
+  // Open the create dialog for a tournament when linked from its page
+  useEffect(() => {
+    const tournamentId = searchParams.get('tournament');
+    const tournament = tournaments.find(t => t.id === tournamentId);
+    if (tournament) {
+      setFormData(prev => ({ ...prev, tournament_id: tournament.id, overs: tournament.overs, team_a_id: '', team_b_id: '' }));
+      setShowCreateDialog(true);
+    }
+  }, [searchParams, tournaments]);
+
+  const matches: Match[] = useMemo(() => {
+    if (!matchesData) return [];
+
+    const matchScores: Record<string, {
+      team_a: { runs: number; wickets: number; overs: number };
+      team_b: { runs: number; wickets: number; overs: number };
+      result: MatchResult | null;
+    }> = {};
+
+    if (totalsData) {
+      // Create a map of player_id to team_id for each match
+      const playerTeamMap: { [matchId: string]: { [playerId: string]: string } } = {};
+      totalsData.playerTeams.forEach(player => {
+        if (!playerTeamMap[player.match_id]) {
+          playerTeamMap[player.match_id] = {};
         }
+        playerTeamMap[player.match_id][player.player_id] = player.team_id;
+      });
 
-        // Create a map of player_id to team_id for each match
-        const playerTeamMap: { [matchId: string]: { [playerId: string]: string } } = {};
-        teamPlayersData?.forEach((player: any) => {
-          if (!playerTeamMap[player.match_id]) {
-            playerTeamMap[player.match_id] = {};
+      // Process scores to get team totals, one innings per batting side
+      matchesData.forEach(match => {
+        const rows = totalsData.scores.filter(score => score.match_id === match.id);
+        if (rows.length === 0) return;
+
+        const playerTeamMapForMatch = playerTeamMap[match.id] || {};
+        const squads = totalsData.playerTeams.filter(player => player.match_id === match.id);
+        const maxWickets = wicketsForSquads(
+          getBattingOrderIds(match.team_a_id, match.team_b_id, match.toss_winner_id, match.toss_decision),
+          squads
+        );
+        const state = computeMatch(rows, match.overs, maxWickets);
+        matchScores[match.id] = { team_a: { runs: 0, wickets: 0, overs: 0 }, team_b: { runs: 0, wickets: 0, overs: 0 }, result: null };
+        const battingOrder: string[] = [];
+
+        state.innings.forEach(innings => {
+          // The batting side is whichever team the innings' first batter plays for
+          const opener = innings.battingOrder[0];
+          const battingTeamId = opener ? playerTeamMapForMatch[opener] : undefined;
+          const total = {
+            runs: innings.runs,
+            wickets: innings.wickets,
+            overs: parseFloat(formatOvers(innings.legalBalls))
+          };
+
+          if (battingTeamId === match.team_a_id) {
+            matchScores[match.id].team_a = total;
+          } else if (battingTeamId === match.team_b_id) {
+            matchScores[match.id].team_b = total;
           }
-          playerTeamMap[player.match_id][player.player_id] = player.team_id;
+          if (battingTeamId) battingOrder.push(battingTeamId);
         });
 
-        const { data: scoresData, error: scoresError } = await supabase
-          .from('match_scores')
-          .select('*')
-          .in('match_id', completedMatchIds);
-
-        if (scoresError) {
-          console.error('Error fetching scores:', scoresError);
-        }
-
-        // Process scores to get team totals
-        if (scoresData && scoresData.length > 0) {
-          scoresData.forEach((score: any) => {
-            if (!matchScores[score.match_id]) {
-              matchScores[score.match_id] = { team_a: { runs: 0, wickets: 0, overs: 0 }, team_b: { runs: 0, wickets: 0, overs: 0 } };
-            }
-            
-            // Determine which team this score belongs to
-            const match = normalizedMatches.find(m => m.id === score.match_id);
-            if (!match) return;
-            
-            const playerTeamMapForMatch = playerTeamMap[score.match_id] || {};
-            
-            // For batting scores, add runs to the batting team
-            if (score.batsman_id && score.runs) {
-              const playerTeamId = playerTeamMapForMatch[score.batsman_id];
-              
-              if (playerTeamId === match.team_a_id) {
-                matchScores[score.match_id].team_a.runs += score.runs;
-              } else if (playerTeamId === match.team_b_id) {
-                matchScores[score.match_id].team_b.runs += score.runs;
-              }
-            }
-            
-            // For bowling scores, add wickets to the bowling team
-            if (score.bowler_id && score.wicket_type && score.wicket_type !== 'run_out') {
-              const playerTeamId = playerTeamMapForMatch[score.bowler_id];
-              if (playerTeamId === match.team_a_id) {
-                matchScores[score.match_id].team_a.wickets += 1;
-              } else if (playerTeamId === match.team_b_id) {
-                matchScores[score.match_id].team_b.wickets += 1;
-              }
-            }
-            
-            // Calculate overs from ball numbers
-            if (score.ball_number) {
-              const currentOvers = Math.floor(score.ball_number / 6) + (score.ball_number % 6) / 10;
-              
-              // Determine which team was batting (based on batsman)
-              if (score.batsman_id) {
-                const playerTeamId = playerTeamMapForMatch[score.batsman_id];
-                if (playerTeamId === match.team_a_id) {
-                  matchScores[score.match_id].team_a.overs = Math.max(matchScores[score.match_id].team_a.overs, currentOvers);
-                } else if (playerTeamId === match.team_b_id) {
-                  matchScores[score.match_id].team_b.overs = Math.max(matchScores[score.match_id].team_b.overs, currentOvers);
-                }
-              }
-            }
-          });
+        // Matches completed before results were stored get theirs worked out here
+        if (battingOrder.length === 2) {
+          matchScores[match.id].result = computeMatchResult(state, [battingOrder[0], battingOrder[1]], match.overs);
         }
-      }
+      });
+    }
 
-      // Combine match data with scores
-      const matchesWithScores = (normalizedMatches || []).map(match => {
-        const scores = matchScores[match.id];
-        
-        if (!scores) return match;
+    // Combine match data with scores
+    const matchesWithScores = matchesData.map(match => {
+      const scores = matchScores[match.id];
 
-        // Determine winner and result
-        let winner = null;
-        let result = '';
-        
-        if (match.status === 'completed' && scores.team_a && scores.team_b) {
-          if (scores.team_a.runs > scores.team_b.runs) {
-            winner = match.team_a;
-            const margin = scores.team_a.runs - scores.team_b.runs;
-            result = `${match.team_a.name} won by ${margin} runs`;
-          } else if (scores.team_b.runs > scores.team_a.runs) {
-            winner = match.team_b;
-            const margin = scores.team_b.runs - scores.team_a.runs;
-            result = `${match.team_b.name} won by ${margin} runs`;
-          }
-        }
+      // Determine winner and result, preferring the stored result
+      const matchResult = fromResultColumns(match) || scores?.result || null;
+      const getTeamName = (teamId: string) => teamId === match.team_a_id ? match.team_a.name : match.team_b.name;
+      const winner = matchResult?.winnerTeamId
+        ? (matchResult.winnerTeamId === match.team_a_id ? match.team_a : match.team_b)
+        : null;
+      const result = match.status === 'completed' && matchResult ? formatMatchResult(matchResult, getTeamName) : '';
 
-        return {
-          ...match,
-          team_a_score: scores.team_a,
-          team_b_score: scores.team_b,
-          winner,
-          result
-        };
-      });
+      if (!scores) return { ...match, winner, result };
 
-      // Ensure unique matches by ID
-      const uniqueMatches = matchesWithScores.filter((match, index, self) => 
-        index === self.findIndex(m => m.id === match.id)
-      );
+      return {
+        ...match,
+        team_a_score: scores.team_a,
+        team_b_score: scores.team_b,
+        winner,
+        result
+      };
+    });
 
-      setMatches(uniqueMatches);
-    } catch (error) {
-      console.error('Error fetching data:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load matches",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
+    // Ensure unique matches by ID
+    return matchesWithScores.filter((match, index, self) =>
+      index === self.findIndex(m => m.id === match.id)
+    );
+  }, [matchesData, totalsData]);
 
   const handleCreateMatch = async () => {
     if (!user || !formData.name.trim() || !formData.team_a_id || !formData.team_b_id) return;
@@ -312,15 +236,7 @@ const Matches = () => {
       return;
     }
 
-    setCreating(true);
     try {
-      // Get user's profile ID
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('user_id', user.id)
-        .single();
-
       if (!profile) throw new Error('Profile not found');
 
       // Create match with a more descriptive name if none provided
@@ -328,23 +244,17 @@ const Matches = () => {
       const teamBName = teams.find(t => t.id === formData.team_b_id)?.name || 'Team B';
       const matchName = formData.name.trim() || `${teamAName} vs ${teamBName}`;
       
-      // Create match
-      const { data: match, error } = await supabase
-        .from('matches')
-        .insert({
-          name: matchName,
-          date: formData.date,
-          time: formData.time,
-          location: formData.location.trim() || null,
-          team_a_id: formData.team_a_id,
-          team_b_id: formData.team_b_id,
-          overs: formData.overs,
-          created_by: profile.id
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+      await createMatch.mutateAsync({
+        name: matchName,
+        date: formData.date,
+        time: formData.time,
+        location: formData.location.trim() || null,
+        team_a_id: formData.team_a_id,
+        team_b_id: formData.team_b_id,
+        overs: formData.overs,
+        created_by: profile.id,
+        tournament_id: formData.tournament_id || null
+      });
 
       setShowCreateDialog(false);
       setFormData({
@@ -354,10 +264,13 @@ const Matches = () => {
         location: '',
         team_a_id: '',
         team_b_id: '',
-        overs: 20
+        overs: 20,
+        tournament_id: ''
       });
+      if (searchParams.get('tournament')) {
+        setSearchParams({});
+      }
 
-      await fetchData();
       toast({
         title: "Success",
         description: "Match created successfully!"
@@ -369,8 +282,6 @@ const Matches = () => {
         description: "Failed to create match",
         variant: "destructive"
       });
-    } finally {
-      setCreating(false);
     }
   };
 
@@ -391,6 +302,12 @@ const Matches = () => {
     });
   };
 
+  // Inside a tournament only its teams can be picked
+  const selectedTournament = tournaments.find(t => t.id === formData.tournament_id);
+  const selectableTeams = selectedTournament
+    ? teams.filter(team => selectedTournament.team_ids.includes(team.id))
+    : teams;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -483,6 +400,41 @@ const Matches = () => {
                   </div>
                 </div>
 
+                {tournaments.length > 0 && (
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="tournament" className="text-right">
+                      Tournament
+                    </Label>
+                    <div className="col-span-3">
+                      <Select
+                        value={formData.tournament_id || 'none'}
+                        onValueChange={(value) => {
+                          const tournament = tournaments.find(t => t.id === value);
+                          setFormData(prev => ({
+                            ...prev,
+                            tournament_id: tournament?.id || '',
+                            overs: tournament?.overs || prev.overs,
+                            team_a_id: '',
+                            team_b_id: ''
+                          }));
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="No tournament" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No tournament</SelectItem>
+                          {tournaments.map((tournament) => (
+                            <SelectItem key={tournament.id} value={tournament.id}>
+                              {tournament.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-4 items-center gap-4">
                   <Label htmlFor="team-a" className="text-right">
                     Team A
@@ -493,7 +445,7 @@ const Matches = () => {
                         <SelectValue placeholder="Select Team A" />
                       </SelectTrigger>
                       <SelectContent>
-                        {teams.map((team) => (
+                        {selectableTeams.map((team) => (
                           <SelectItem key={team.id} value={team.id}>
                             {team.name}
                           </SelectItem>
@@ -513,7 +465,7 @@ const Matches = () => {
                         <SelectValue placeholder="Select Team B" />
                       </SelectTrigger>
                       <SelectContent>
-                        {teams.map((team) => (
+                        {selectableTeams.map((team) => (
                           <SelectItem key={team.id} value={team.id}>
                             {team.name}
                           </SelectItem>
@@ -590,6 +542,15 @@ const Matches = () => {
                       <CardTitle className="text-base font-semibold text-gray-900 mb-1">
                         {match.name || `${match.team_a.name} vs ${match.team_b.name}`}
                       </CardTitle>
+                      {match.tournament && (
+                        <Link
+                          to={`/tournaments/${match.tournament.id}`}
+                          className="flex items-center gap-1 text-xs font-medium text-primary hover:underline mb-1"
+                        >
+                          <Trophy className="h-3 w-3" />
+                          {match.tournament.name}
+                        </Link>
+                      )}
                       <CardTitle className="text-sm font-medium text-gray-600">
                         {match.status === 'completed' ? 'Match Ended' : 
                          match.status === 'in_progress' ? 'Match Started' : 'Upcoming Match'}
@@ -640,7 +601,7 @@ const Matches = () => {
                     /* Fallback for completed matches without calculated scores */
                     <div className="space-y-3">
                       <div className="text-center py-2 bg-yellow-50 rounded-md">
-                        <p className="text-sm text-yellow-800">Match completed but no scores calculated</p>
+                        <p className="text-sm text-yellow-800">{match.result || 'Match completed but no scores calculated'}</p>
                       </div>
                     </div>
                   ) : (
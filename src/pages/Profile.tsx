@@ -1,6 +1,5 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,25 +12,14 @@ import { Loader2, Camera, Save, Trophy, Target, UserCircle2 } from 'lucide-react
 import Navigation from '@/components/Navigation';
 import PageHeader from '@/components/PageHeader';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { useSearchParams } from 'react-router-dom';
-
-interface Profile {
-  id: string;
-  user_id: string;
-  name: string;
-  image_url: string | null;
-  batting_style: 'right_handed' | 'left_handed' | null;
-  bowling_style: 'right_arm_fast' | 'left_arm_fast' | 'right_arm_medium' | 'left_arm_medium' | 'right_arm_spin' | 'left_arm_spin' | 'wicket_keeper' | null;
-  created_at: string;
-  updated_at: string;
-}
+import { Link, useSearchParams } from 'react-router-dom';
+import { useCreateProfile, useCurrentProfile, usePlayerStats, useSeasonMvpStandings, useUpdateProfile } from '@/hooks/use-profile';
+import { removeImage, uploadImage } from '@/lib/db';
+import { ACCEPTED_IMAGE_TYPES, cropAndResizeImage, validateImageFile } from '@/utils/imageUpload';
 
 const Profile = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -39,331 +27,80 @@ const Profile = () => {
     bowling_style: '',
     image_url: ''
   });
-  // Stats tab state
-  const [selectedProfileId, setSelectedProfileId] = useState<string>('');
-  const [statsLoading, setStatsLoading] = useState(false);
-  const [totalMatches, setTotalMatches] = useState(0);
-  const [totalRuns, setTotalRuns] = useState(0);
-  const [totalWickets, setTotalWickets] = useState(0);
-  const [totalBallsFaced, setTotalBallsFaced] = useState(0);
-  const [battingDismissals, setBattingDismissals] = useState(0);
-  const [totalBallsBowled, setTotalBallsBowled] = useState(0);
-  const [totalRunsConceded, setTotalRunsConceded] = useState(0);
-  const [matchRows, setMatchRows] = useState<Array<{
-    id: string;
-    name: string;
-    date: string;
-    overs: number;
-    batRuns: number;
-    batBalls: number;
-    batSR: number;
-    batOut: boolean;
-    bowlBalls: number;
-    bowlOvers: string;
-    bowlRuns: number;
-    bowlWkts: number;
-    bowlEcon: number;
-  }>>([]);
-
   const [searchParams] = useSearchParams();
-
+  const [uploadingImage, setUploadingImage] = useState(false);
+
+  const { data: profile, isLoading: profileLoading, isError: profileError } = useCurrentProfile(user?.id);
+  const createProfile = useCreateProfile(user?.id);
+  const { mutate: mutateCreateProfile, isIdle: createProfileIdle } = createProfile;
+  const updateProfile = useUpdateProfile(user?.id);
+  const loading = !user || profileLoading || (profile === null && !createProfile.isError);
+  const saving = updateProfile.isPending;
+
+  // Stats are for the player in the link, or the current user's own profile
+  const selectedProfileId = searchParams.get('playerId') || profile?.id || '';
+  const { data: stats, isLoading: statsLoading, isError: statsError } = usePlayerStats(selectedProfileId);
+  const { data: mvpStandings = [] } = useSeasonMvpStandings(selectedProfileId);
+  const totalMatches = stats?.matches ?? 0;
+  const totalRuns = stats?.runs ?? 0;
+  const totalWickets = stats?.wickets ?? 0;
+  const totalBallsFaced = stats?.ballsFaced ?? 0;
+  const battingDismissals = stats?.dismissals ?? 0;
+  const totalBallsBowled = stats?.ballsBowled ?? 0;
+  const totalRunsConceded = stats?.runsConceded ?? 0;
+  const highestScore = stats?.highestScore ? `${stats.highestScore.runs}${stats.highestScore.notOut ? '*' : ''}` : '—';
+  const bestBowling = stats?.bestBowling ? `${stats.bestBowling.wickets}/${stats.bestBowling.runs}` : '—';
+  const matchRecord = stats?.record ?? { won: 0, lost: 0, tied: 0, noResult: 0 };
+  const matchRows = stats?.matchRows ?? [];
+
+  // Users without a profile get one named after their email
   useEffect(() => {
-    if (user) {
-      fetchProfile();
+    if (user && profile === null && createProfileIdle) {
+      mutateCreateProfile(user.email?.split('@')[0] || '');
     }
-  }, [user]);
-
-  const fetchProfile = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', user?.id)
-        .single();
+  }, [user, profile, createProfileIdle, mutateCreateProfile]);
 
-      if (error) {
-        if (error.code === 'PGRST116') {
-          // Profile doesn't exist, create one
-          const { data: newProfile, error: createError } = await supabase
-            .from('profiles')
-            .insert({
-              user_id: user?.id,
-              name: user?.email?.split('@')[0] || '',
-              image_url: null,
-              batting_style: null,
-              bowling_style: null
-            })
-            .select()
-            .single();
+  useEffect(() => {
+    if (!profile) return;
+    setFormData({
+      name: profile.name || '',
+      batting_style: profile.batting_style || '',
+      bowling_style: profile.bowling_style || '',
+      image_url: profile.image_url || ''
+    });
+  }, [profile]);
 
-          if (createError) throw createError;
-          
-          setProfile(newProfile);
-          setFormData({
-            name: newProfile.name || '',
-            batting_style: newProfile.batting_style || '',
-            bowling_style: newProfile.bowling_style || '',
-            image_url: newProfile.image_url || ''
-          });
-          // Set the profile ID for stats
-          const qp = searchParams.get('playerId');
-          const finalProfileId = qp || newProfile.id;
-          console.log('Debug - Setting profile ID after creation:', { qp, newProfileId: newProfile.id, finalProfileId });
-          setSelectedProfileId(finalProfileId);
-        } else {
-          throw error;
-        }
-      } else {
-        setProfile(data);
-        setFormData({
-          name: data.name || '',
-          batting_style: data.batting_style || '',
-          bowling_style: data.bowling_style || '',
-          image_url: data.image_url || ''
-        });
-        // If a playerId is present in query, prefer that; otherwise current user's profile
-        const qp = searchParams.get('playerId');
-        const finalProfileId = qp || data.id;
-        console.log('Debug - Setting profile ID:', { qp, dataId: data.id, finalProfileId });
-        setSelectedProfileId(finalProfileId);
-      }
-    } catch (error) {
-      console.error('Error fetching profile:', error);
+  useEffect(() => {
+    if (profileError || createProfile.isError) {
       toast({
         title: "Error",
         description: "Failed to load profile",
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [profileError, createProfile.isError, toast]);
 
-  // Load stats whenever selectedProfileId changes
   useEffect(() => {
-    const qp = searchParams.get('playerId');
-    if (qp && qp !== selectedProfileId) {
-      setSelectedProfileId(qp);
-    }
-    if (selectedProfileId) {
-      console.log('Debug - Fetching stats for profile:', selectedProfileId);
-      fetchStats(selectedProfileId);
-    }
-  }, [selectedProfileId, searchParams]);
-
-  const fetchStats = async (profileId: string) => {
-    console.log('Debug - fetchStats called with profileId:', profileId);
-    setStatsLoading(true);
-    try {
-      // Test database connection first
-      const { data: testData, error: testError } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('id', profileId)
-        .single();
-      
-      if (testError) {
-        console.error('Debug - Database connection test failed:', testError);
-        throw testError;
-      }
-      console.log('Debug - Database connection test successful:', testData);
-
-      // Check if there are any matches in the database at all
-      const { data: allMatches, error: allMatchesError } = await supabase
-        .from('matches')
-        .select('id, name, date')
-        .limit(5);
-      
-      if (allMatchesError) {
-        console.error('Debug - Error checking all matches:', allMatchesError);
-      } else {
-        console.log('Debug - All matches in database:', allMatches);
-      }
-
-      // Get all matches this player participated in
-      const { data: matchPlayers, error: mpError } = await supabase
-        .from('match_players')
-        .select('match_id')
-        .eq('player_id', profileId);
-
-      if (mpError) throw mpError;
-
-      const matchIds = (matchPlayers || []).map(r => r.match_id);
-      console.log('Debug - Match IDs found:', matchIds);
-      setTotalMatches(matchIds.length);
-
-      if (matchIds.length === 0) {
-        // No matches played, set everything to 0
-        setTotalRuns(0);
-        setTotalWickets(0);
-        setTotalBallsFaced(0);
-        setTotalBallsBowled(0);
-        setTotalRunsConceded(0);
-        setBattingDismissals(0);
-        setMatchRows([]);
-        return;
-      }
-
-      // Get all match scores for this player (batting and bowling)
-      const { data: allScores, error: scoresError } = await supabase
-        .from('match_scores')
-        .select('*')
-        .in('match_id', matchIds);
-
-      if (scoresError) throw scoresError;
-
-      console.log('Debug - Profile Stats:', {
-        profileId,
-        matchIds,
-        allScoresCount: allScores?.length || 0,
-        allScores: allScores
-      });
-
-      // Calculate batting stats
-      const battingScores = allScores.filter(s => s.batsman_id === profileId);
-      const totalRunsScored = battingScores.reduce((sum, s) => sum + (s.runs || 0), 0);
-      const totalBallsFaced = battingScores.filter(s => 
-        s.extras_type !== 'wide' && s.extras_type !== 'no_ball'
-      ).length;
-      
-      // Calculate bowling stats
-      const bowlingScores = allScores.filter(s => s.bowler_id === profileId);
-      const totalWicketsTaken = bowlingScores.filter(s => 
-        s.wicket_type && ['bowled', 'caught', 'lbw', 'stumped', 'hit_wicket'].includes(s.wicket_type)
-      ).length;
-      const totalBallsBowled = bowlingScores.filter(s => 
-        s.extras_type !== 'wide' && s.extras_type !== 'no_ball'
-      ).length;
-      const totalRunsConceded = bowlingScores.reduce((sum, s) => {
-        let runs = s.runs || 0;
-        // Add extras to bowler's conceded runs
-        if (s.extras_type === 'wide' || s.extras_type === 'no_ball') {
-          runs += s.extras_runs || 0;
-        }
-        return sum + runs;
-      }, 0);
-
-      // Calculate dismissals for batting average
-      const dismissals = allScores.filter(s => 
-        s.wicket_batsman_id === profileId && s.wicket_type
-      ).length;
-
-      // Set the calculated stats
-      setTotalRuns(totalRunsScored);
-      setTotalWickets(totalWicketsTaken);
-      setTotalBallsFaced(totalBallsFaced);
-      setTotalBallsBowled(totalBallsBowled);
-      setTotalRunsConceded(totalRunsConceded);
-      setBattingDismissals(dismissals);
-
-      console.log('Debug - Calculated Stats:', {
-        totalRunsScored,
-        totalWicketsTaken,
-        totalBallsFaced,
-        totalBallsBowled,
-        totalRunsConceded,
-        dismissals
-      });
-
-      // Also log the state variables to see if they're being set
-      console.log('Debug - State variables after setting:', {
-        totalMatches: matchIds.length,
-        totalRuns: totalRunsScored,
-        totalWickets: totalWicketsTaken,
-        totalBallsFaced,
-        totalBallsBowled,
-        totalRunsConceded,
-        dismissals
-      });
-
-      // Get match details for per-match breakdown
-      const { data: matches, error: matchDetailsError } = await supabase
-        .from('matches')
-        .select('id, name, date, overs')
-        .in('id', matchIds)
-        .order('date', { ascending: false });
-
-      if (matchDetailsError) throw matchDetailsError;
-
-      // Calculate per-match stats
-      const perMatchStats = matches.map(match => {
-        const matchScores = allScores.filter(s => s.match_id === match.id);
-        
-        // Batting stats for this match
-        const matchBattingScores = matchScores.filter(s => s.batsman_id === profileId);
-        const matchRuns = matchBattingScores.reduce((sum, s) => sum + (s.runs || 0), 0);
-        const matchBalls = matchBattingScores.filter(s => 
-          s.extras_type !== 'wide' && s.extras_type !== 'no_ball'
-        ).length;
-        const matchSR = matchBalls > 0 ? (matchRuns * 100) / matchBalls : 0;
-        const matchOut = matchScores.some(s => s.wicket_batsman_id === profileId);
-
-        // Bowling stats for this match
-        const matchBowlingScores = matchScores.filter(s => s.bowler_id === profileId);
-        const matchBallsBowled = matchBowlingScores.filter(s => 
-          s.extras_type !== 'wide' && s.extras_type !== 'no_ball'
-        ).length;
-        const matchWickets = matchBowlingScores.filter(s => 
-          s.wicket_type && ['bowled', 'caught', 'lbw', 'stumped', 'hit_wicket'].includes(s.wicket_type)
-        ).length;
-        const matchRunsConceded = matchBowlingScores.reduce((sum, s) => {
-          let runs = s.runs || 0;
-          if (s.extras_type === 'wide' || s.extras_type === 'no_ball') {
-            runs += s.extras_runs || 0;
-          }
-          return sum + runs;
-        }, 0);
-        const matchEcon = matchBallsBowled > 0 ? (matchRunsConceded * 6) / matchBallsBowled : 0;
-
-        return {
-          id: match.id,
-          name: match.name,
-          date: match.date,
-          overs: match.overs,
-          batRuns: matchRuns,
-          batBalls: matchBalls,
-          batSR: matchSR,
-          batOut: matchOut,
-          bowlBalls: matchBallsBowled,
-          bowlOvers: `${Math.floor(matchBallsBowled / 6)}.${matchBallsBowled % 6}`,
-          bowlRuns: matchRunsConceded,
-          bowlWkts: matchWickets,
-          bowlEcon: matchEcon,
-        };
-      });
-
-      setMatchRows(perMatchStats);
-
-    } catch (error) {
-      console.error('Error fetching stats:', error);
+    if (statsError) {
       toast({
         title: "Error",
         description: "Failed to load player statistics",
         variant: "destructive"
       });
-    } finally {
-      setStatsLoading(false);
     }
-  };
+  }, [statsError, toast]);
 
   const handleSave = async () => {
     if (!user) return;
 
-    setSaving(true);
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          name: formData.name,
-          batting_style: formData.batting_style || null,
-          bowling_style: formData.bowling_style || null,
-          image_url: formData.image_url || null
-        })
-        .eq('user_id', user.id);
-
-      if (error) throw error;
+      await updateProfile.mutateAsync({
+        name: formData.name,
+        batting_style: formData.batting_style || null,
+        bowling_style: formData.bowling_style || null,
+        image_url: formData.image_url || null
+      });
 
-      await fetchProfile();
       setIsEditing(false);
       toast({
         title: "Success",
@@ -376,32 +113,52 @@ const Profile = () => {
         description: "Failed to update profile",
         variant: "destructive"
       });
-    } finally {
-      setSaving(false);
     }
   };
 
+  // Crops and shrinks the photo on the device, saves it and deletes the photo it replaces
   const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file || !user) return;
 
+    const invalid = validateImageFile(file);
+    if (invalid) {
+      toast({
+        title: "Error",
+        description: invalid,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const previousUrl = profile?.image_url || null;
+    let uploadedUrl: string | null = null;
+    setUploadingImage(true);
     try {
-      // For now, we'll use a placeholder image URL
-      // In a real app, you'd upload to Supabase Storage or a service like Imgur
-      const imageUrl = `https://api.dicebear.com/7.x/avataaars/svg?seed=${user.email}`;
-      setFormData(prev => ({ ...prev, image_url: imageUrl }));
-      
+      const image = await cropAndResizeImage(file);
+      uploadedUrl = await uploadImage('avatars', user.id, image);
+      await updateProfile.mutateAsync({ image_url: uploadedUrl });
+      setFormData(prev => ({ ...prev, image_url: uploadedUrl || '' }));
+
+      removeImage('avatars', previousUrl).catch(error => console.error('Error removing old image:', error));
+
       toast({
         title: "Image Updated",
         description: "Profile image updated successfully"
       });
     } catch (error) {
       console.error('Error uploading image:', error);
+      if (uploadedUrl) {
+        removeImage('avatars', uploadedUrl).catch(removeError => console.error('Error removing unused image:', removeError));
+      }
       toast({
         title: "Error",
         description: "Failed to upload image",
         variant: "destructive"
       });
+    } finally {
+      setUploadingImage(false);
     }
   };
 
@@ -461,16 +218,27 @@ const Profile = () => {
                       </Avatar>
                     )}
                     {isEditing && (
-                      <div className="space-y-2">
+                      <div className="flex items-center gap-3">
+                        <Avatar className="h-12 w-12">
+                          <AvatarImage src={formData.image_url} />
+                          <AvatarFallback>{formData.name.charAt(0).toUpperCase() || 'P'}</AvatarFallback>
+                        </Avatar>
                         <Label htmlFor="image-upload" className="cursor-pointer">
-                          <Button variant="outline" size="sm" asChild>
+                          <Button variant="outline" size="sm" disabled={uploadingImage} asChild>
                             <span>
-                              <Camera className="h-4 w-4 mr-2" />
-                              Change Photo
+                              {uploadingImage ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Camera className="h-4 w-4 mr-2" />}
+                              {uploadingImage ? 'Uploading...' : 'Change Photo'}
                             </span>
                           </Button>
                         </Label>
-                        <input id="image-upload" type="file" accept="image/*" onChange={handleImageUpload} className="hidden" />
+                        <input
+                          id="image-upload"
+                          type="file"
+                          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                          onChange={handleImageUpload}
+                          disabled={uploadingImage}
+                          className="hidden"
+                        />
                       </div>
                     )}
                   </div>
@@ -539,6 +307,37 @@ const Profile = () => {
                   <CardDescription>Career aggregates and per-match performance</CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  {/* Career match record table */}
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-semibold">Match Record</h3>
+                    {totalMatches === 0 ? (
+                      <div className="text-center py-4 text-muted-foreground">
+                        <p className="text-sm">No matches played yet</p>
+                      </div>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Matches</TableHead>
+                            <TableHead>Won</TableHead>
+                            <TableHead>Lost</TableHead>
+                            <TableHead>Tied</TableHead>
+                            <TableHead>NR</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          <TableRow>
+                            <TableCell>{totalMatches}</TableCell>
+                            <TableCell>{matchRecord.won}</TableCell>
+                            <TableCell>{matchRecord.lost}</TableCell>
+                            <TableCell>{matchRecord.tied}</TableCell>
+                            <TableCell>{matchRecord.noResult}</TableCell>
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+
                   {/* Career batting summary table */}
                   <div className="space-y-2">
                     <h3 className="text-lg font-semibold">Batting Summary</h3>
@@ -551,19 +350,31 @@ const Profile = () => {
                         <TableHeader>
                           <TableRow>
                             <TableHead>Matches</TableHead>
+                            <TableHead>Inns</TableHead>
                             <TableHead>Runs</TableHead>
                             <TableHead>Balls</TableHead>
+                            <TableHead>HS</TableHead>
                             <TableHead>SR</TableHead>
                             <TableHead>Avg</TableHead>
+                            <TableHead>50s</TableHead>
+                            <TableHead>100s</TableHead>
+                            <TableHead>4s</TableHead>
+                            <TableHead>6s</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
                           <TableRow>
                             <TableCell>{totalMatches}</TableCell>
+                            <TableCell>{stats?.innings ?? 0}</TableCell>
                             <TableCell>{totalRuns}</TableCell>
                             <TableCell>{totalBallsFaced}</TableCell>
+                            <TableCell>{highestScore}</TableCell>
                             <TableCell>{totalBallsFaced > 0 ? (Math.round((totalRuns * 10000) / totalBallsFaced) / 100).toFixed(2) : '0.00'}</TableCell>
                             <TableCell>{battingDismissals > 0 ? (Math.round((totalRuns * 100) / battingDismissals) / 100).toFixed(2) : '—'}</TableCell>
+                            <TableCell>{stats?.fifties ?? 0}</TableCell>
+                            <TableCell>{stats?.hundreds ?? 0}</TableCell>
+                            <TableCell>{stats?.fours ?? 0}</TableCell>
+                            <TableCell>{stats?.sixes ?? 0}</TableCell>
                           </TableRow>
                         </TableBody>
                       </Table>
@@ -585,6 +396,7 @@ const Profile = () => {
                             <TableHead>Overs</TableHead>
                             <TableHead>Runs</TableHead>
                             <TableHead>Wickets</TableHead>
+                            <TableHead>BBI</TableHead>
                             <TableHead>Econ</TableHead>
                           </TableRow>
                         </TableHeader>
@@ -594,6 +406,7 @@ const Profile = () => {
                             <TableCell>{`${Math.floor(totalBallsBowled / 6)}.${totalBallsBowled % 6}`}</TableCell>
                             <TableCell>{totalRunsConceded}</TableCell>
                             <TableCell>{totalWickets}</TableCell>
+                            <TableCell>{bestBowling}</TableCell>
                             <TableCell>{totalBallsBowled > 0 ? (Math.round((totalRunsConceded * 6 * 100) / totalBallsBowled) / 100).toFixed(2) : '0.00'}</TableCell>
                           </TableRow>
                         </TableBody>
@@ -601,6 +414,72 @@ const Profile = () => {
                     )}
                   </div>
 
+                  {/* Career fielding summary table */}
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-semibold">Fielding Summary</h3>
+                    {totalMatches === 0 ? (
+                      <div className="text-center py-4 text-muted-foreground">
+                        <p className="text-sm">No matches played yet</p>
+                      </div>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Matches</TableHead>
+                            <TableHead>Catches</TableHead>
+                            <TableHead>Stumpings</TableHead>
+                            <TableHead>Run Outs</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          <TableRow>
+                            <TableCell>{totalMatches}</TableCell>
+                            <TableCell>{stats?.catches ?? 0}</TableCell>
+                            <TableCell>{stats?.stumpings ?? 0}</TableCell>
+                            <TableCell>{stats?.runOuts ?? 0}</TableCell>
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+
+                  {/* Season MVP ranking, one row per tournament */}
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-semibold">Season MVP</h3>
+                    {mvpStandings.length === 0 ? (
+                      <div className="text-center py-4 text-muted-foreground">
+                        <p className="text-sm">No tournament MVP points yet</p>
+                      </div>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Tournament</TableHead>
+                            <TableHead>Rank</TableHead>
+                            <TableHead>Points</TableHead>
+                            <TableHead>Matches</TableHead>
+                            <TableHead>Player of the Match</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {mvpStandings.map(standing => (
+                            <TableRow key={standing.tournament_id}>
+                              <TableCell>
+                                <Link to={`/tournaments/${standing.tournament_id}`} className="hover:underline">
+                                  {standing.tournament?.name || 'Tournament'}
+                                </Link>
+                              </TableCell>
+                              <TableCell>{standing.rank} of {standing.players}</TableCell>
+                              <TableCell>{standing.points}</TableCell>
+                              <TableCell>{standing.matches}</TableCell>
+                              <TableCell>{standing.awards}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+
                   {/* Per-match performance table */}
                   <div className="space-y-2">
                     <h3 className="text-lg font-semibold">Per-match Performance</h3>
@@ -618,6 +497,7 @@ const Profile = () => {
                           <TableRow>
                             <TableHead>Date</TableHead>
                             <TableHead>Match</TableHead>
+                            <TableHead>Result</TableHead>
                             <TableHead>Overs</TableHead>
                             <TableHead>Runs</TableHead>
                             <TableHead>Balls</TableHead>
@@ -633,6 +513,7 @@ const Profile = () => {
                             <TableRow key={m.id}>
                               <TableCell>{new Date(m.date).toLocaleDateString()}</TableCell>
                               <TableCell>{m.name}</TableCell>
+                              <TableCell>{m.outcome || '—'}</TableCell>
                               <TableCell>{m.overs}</TableCell>
                               <TableCell>{m.batRuns}</TableCell>
                               <TableCell>{m.batBalls}</TableCell>
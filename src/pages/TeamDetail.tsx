@@ -13,9 +13,28 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, ArrowLeft, Crown, UserPlus, Trash2, Shield, Users, Phone, Mail, Plus } from 'lucide-react';
+import { Loader2, ArrowLeft, Crown, UserPlus, Trash2, Shield, Users, Phone, Mail, Plus, Camera, Clock, Link2 } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import PageHeader from '@/components/PageHeader';
+import TeamInvitesCard from '@/components/TeamInvitesCard';
+import { useCurrentProfile, usePlatformAdmin } from '@/hooks/use-profile';
+import {
+  useAddGuestPlayer,
+  useAddTeamPlayer,
+  useCreateTeamInvite,
+  useDeleteTeam,
+  useOwnJoinRequest,
+  useRemoveTeamPlayer,
+  useRequestToJoinTeam,
+  useTeam,
+  useTeamMembers,
+  useUpdateTeam,
+  useUpdateTeamPlayerRole,
+  useWithdrawJoinRequest
+} from '@/hooks/use-teams';
+import { fetchGuestClaimCode, removeImage, uploadImage, type TeamRole } from '@/lib/db';
+import { ACCEPTED_IMAGE_TYPES, cropAndResizeImage, validateImageFile } from '@/utils/imageUpload';
+import { canEditTeam, canManageRoster } from '@/utils/permissions';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -28,41 +47,13 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
-interface TeamMember {
-  id: string;
-  player_id: string;
-  role: 'captain' | 'vice_captain' | 'player';
-  joined_at: string;
-  player: {
-    name: string;
-    image_url: string | null;
-    batting_style: string | null;
-    bowling_style: string | null;
-  };
-}
-
-interface Team {
-  id: string;
-  name: string;
-  logo_url: string | null;
-  captain_id: string;
-  description: string | null;
-  created_at: string;
-}
-
 interface Player {
   id: string;
   name: string;
   image_url: string | null;
   batting_style: string | null;
   bowling_style: string | null;
-  is_temp?: boolean;
-}
-
-interface Contact {
-  name: string;
-  phone?: string;
-  email?: string;
+  is_guest: boolean;
 }
 
 const TeamDetail = () => {
@@ -70,102 +61,50 @@ const TeamDetail = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { toast } = useToast();
-  const [team, setTeam] = useState<Team | null>(null);
-  const [members, setMembers] = useState<TeamMember[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [isCaptain, setIsCaptain] = useState(false);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Player[]>([]);
   const [searching, setSearching] = useState(false);
   const [addingPlayer, setAddingPlayer] = useState<string | null>(null);
-  const [updatingRole, setUpdatingRole] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('members');
 
 
 
-  // Contact form
-  const [contactData, setContactData] = useState<Contact>({
-    name: '',
-    phone: '',
-    email: ''
-  });
+  // Guest player form
+  const [guestName, setGuestName] = useState('');
+
+  const { data: profile } = useCurrentProfile(user?.id);
+  const { data: isAdmin = false } = usePlatformAdmin(profile?.id);
+  const { data: team, isLoading: teamLoading, isError: teamError } = useTeam(teamId);
+  const { data: members = [], isLoading: membersLoading, isError: membersError } = useTeamMembers(teamId);
+  const addTeamPlayer = useAddTeamPlayer(teamId as string);
+  const addGuestPlayer = useAddGuestPlayer(teamId as string);
+  const updateTeamPlayerRole = useUpdateTeamPlayerRole(teamId as string);
+  const removeTeamPlayer = useRemoveTeamPlayer(teamId as string);
+  const removeTeam = useDeleteTeam();
+  const updateTeam = useUpdateTeam(teamId as string);
+  const createInvite = useCreateTeamInvite(teamId as string);
+  const { data: ownJoinRequest } = useOwnJoinRequest(teamId, profile?.id);
+  const requestToJoin = useRequestToJoinTeam(teamId as string);
+  const withdrawJoinRequest = useWithdrawJoinRequest(teamId as string);
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+  const loading = !user || teamLoading || membersLoading;
+  const viewer = { profileId: profile?.id, isAdmin };
+  const canEdit = !!team && canEditTeam(viewer, { captain_id: team.captain_id, members });
+  const canManagePlayers = !!team && canManageRoster(viewer, { captain_id: team.captain_id, members });
+  const isMember = !!profile && members.some(m => m.player_id === profile.id);
+  const joinRequestPending = ownJoinRequest?.status === 'pending';
+  const updatingRole = updateTeamPlayerRole.isPending ? updateTeamPlayerRole.variables?.memberId : null;
 
   useEffect(() => {
-    if (teamId && user) {
-      fetchTeamData();
-    }
-  }, [teamId, user]);
-
-  const fetchTeamData = async () => {
-    try {
-      // Get user's profile ID
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('user_id', user?.id)
-        .single();
-
-      if (!profile) return;
-
-      // Fetch team details
-      const { data: teamData, error: teamError } = await supabase
-        .from('teams')
-        .select('*')
-        .eq('id', teamId)
-        .single();
-
-      if (teamError) {
-        console.error('Team error:', teamError);
-        if (teamError.code === 'PGRST116') {
-          toast({
-            title: "Database Setup Required",
-            description: "Please run the database setup script in Supabase dashboard",
-            variant: "destructive"
-          });
-        } else {
-          throw teamError;
-        }
-        return;
-      }
-      
-      setTeam(teamData);
-
-      // Check if user is captain
-      setIsCaptain(teamData.captain_id === profile.id);
-
-      // Fetch team members
-      const { data: membersData, error: membersError } = await supabase
-        .from('team_players')
-        .select(`
-          *,
-          player:profiles(name, image_url, batting_style, bowling_style)
-        `)
-        .eq('team_id', teamId)
-        .order('joined_at', { ascending: true });
-
-      if (membersError) {
-        console.error('Members error:', membersError);
-        if (membersError.code === 'PGRST116') {
-          // Table doesn't exist, set empty members
-          setMembers([]);
-        } else {
-          throw membersError;
-        }
-      } else {
-        setMembers(membersData || []);
-      }
-    } catch (error) {
-      console.error('Error fetching team data:', error);
+    if (teamError || membersError) {
       toast({
         title: "Error",
         description: "Failed to load team data",
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [teamError, membersError, toast]);
 
   const searchPlayers = async (query: string) => {
     if (!query.trim()) {
@@ -177,7 +116,7 @@ const TeamDetail = () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('id, name, image_url, batting_style, bowling_style')
+        .select('id, name, image_url, batting_style, bowling_style, is_guest')
         .ilike('name', `%${query}%`)
         .limit(10);
 
@@ -185,13 +124,8 @@ const TeamDetail = () => {
 
       // Filter out players already in the team
       const existingPlayerIds = members.map(m => m.player_id);
-      const filteredResults = data
-        .filter(player => !existingPlayerIds.includes(player.id))
-        .map(player => ({
-          ...player,
-          is_temp: false
-        }));
-      
+      const filteredResults = data.filter(player => !existingPlayerIds.includes(player.id));
+
       setSearchResults(filteredResults);
     } catch (error) {
       console.error('Error searching players:', error);
@@ -202,27 +136,73 @@ const TeamDetail = () => {
 
 
 
-  const addContactPlayer = () => {
-    if (!contactData.name.trim()) return;
+  // Players without an account get a guest profile they can claim once they sign up
+  const addGuestToTeam = async (name: string) => {
+    if (!name.trim() || !profile) return;
 
-    const contactPlayer: Player = {
-      id: `contact_${Date.now()}`,
-      name: contactData.name.trim(),
-      batting_style: null,
-      bowling_style: null,
-      image_url: null,
-      is_temp: true
-    };
+    try {
+      await addGuestPlayer.mutateAsync({ createdBy: profile.id, name: name.trim() });
+      setShowAddDialog(false);
+      setGuestName('');
+
+      toast({
+        title: "Success",
+        description: `${name.trim()} added to team as a guest player`
+      });
+    } catch (error) {
+      console.error('Error adding guest player:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add guest player to team",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Roster managers share a week-long invite link; anyone else shares the team page, where players can ask to join
+  const shareTeamLink = async () => {
+    let teamUrl = `${window.location.origin}/teams/${teamId}`;
+    if (canManagePlayers && profile) {
+      try {
+        const invite = await createInvite.mutateAsync({ createdBy: profile.id, expiresInDays: 7, singleUse: false });
+        teamUrl = `${window.location.origin}/join/${invite.token}`;
+      } catch (error) {
+        console.error('Error creating invite:', error);
+        toast({
+          title: "Error",
+          description: "Failed to create invite link",
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+    shareMessage(`Join my cricket team "${team?.name}" on CricHeroes! ${teamUrl}`);
+  };
 
-    // Add to search results
-    setSearchResults(prev => [contactPlayer, ...prev]);
-    setContactData({ name: '', phone: '', email: '' });
+  // A guest's claim link moves their stats to their own profile once they sign up
+  const shareClaimLink = async (playerId: string, playerName: string) => {
+    try {
+      const code = await fetchGuestClaimCode(playerId);
+      if (!code) {
+        toast({
+          title: "Error",
+          description: "Only the player who added this guest can share their claim link",
+          variant: "destructive"
+        });
+        return;
+      }
+      shareMessage(`${playerName}, claim your CricHeroes profile to keep your stats: ${window.location.origin}/claim/${code}`);
+    } catch (error) {
+      console.error('Error loading claim link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load claim link",
+        variant: "destructive"
+      });
+    }
   };
 
-  const shareTeamLink = () => {
-    const teamUrl = `${window.location.origin}/teams/${teamId}`;
-    const message = `Join my cricket team "${team?.name}" on CricHeroes! ${teamUrl}`;
-    
+  const shareMessage = (message: string) => {
     // Check if it's a mobile device
     if (/Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent)) {
       // Mobile - open WhatsApp with pre-filled message
@@ -233,7 +213,7 @@ const TeamDetail = () => {
       navigator.clipboard.writeText(message).then(() => {
         toast({
           title: "Link Copied",
-          description: "Team link copied to clipboard! You can now share it on WhatsApp."
+          description: "Link copied to clipboard! You can now share it on WhatsApp."
         });
       }).catch(() => {
         // Fallback for older browsers
@@ -245,7 +225,7 @@ const TeamDetail = () => {
         document.body.removeChild(textArea);
         toast({
           title: "Link Copied",
-          description: "Team link copied to clipboard! You can now share it on WhatsApp."
+          description: "Link copied to clipboard! You can now share it on WhatsApp."
         });
       });
     }
@@ -261,21 +241,9 @@ const TeamDetail = () => {
       (navigator as any).contacts.select(props, opts)
         .then((contacts: any[]) => {
           if (contacts.length > 0) {
-            const contact = contacts[0];
-            const contactPlayer: Player = {
-              id: `contact_${Date.now()}`,
-              name: contact.name?.[0] || 'Unknown Contact',
-              batting_style: null,
-              bowling_style: null,
-              image_url: null,
-              is_temp: true
-            };
-            
-            setSearchResults(prev => [contactPlayer, ...prev]);
-            toast({
-              title: "Contact Added",
-              description: `${contactPlayer.name} added from contacts!`
-            });
+            // Let the captain check the name before the guest is saved
+            setGuestName(contacts[0].name?.[0] || '');
+            setActiveTab('contact');
           }
         })
         .catch((error: any) => {
@@ -303,55 +271,15 @@ const TeamDetail = () => {
 
     setAddingPlayer(playerId);
     try {
-      // Check if it's a temporary player
-      const player = searchResults.find(p => p.id === playerId);
-      
-      if (player?.is_temp) {
-        // For temporary players, we'll just add them to the local state
-        const tempMember: TeamMember = {
-          id: `temp_member_${Date.now()}`,
-          player_id: playerId,
-          role: 'player',
-          joined_at: new Date().toISOString(),
-          player: {
-            name: player.name,
-            image_url: null,
-            batting_style: player.batting_style,
-            bowling_style: player.bowling_style
-          }
-        };
-        
-        setMembers(prev => [...prev, tempMember]);
-        setShowAddDialog(false);
-        setSearchQuery('');
-        setSearchResults([]);
-        
-        toast({
-          title: "Success",
-          description: "Temporary player added to team! (Not saved to database)"
-        });
-      } else {
-        // For real players, add to database
-        const { error } = await supabase
-          .from('team_players')
-          .insert({
-            team_id: teamId,
-            player_id: playerId,
-            role: 'player'
-          });
-
-        if (error) throw error;
-
-        await fetchTeamData();
-        setShowAddDialog(false);
-        setSearchQuery('');
-        setSearchResults([]);
+      await addTeamPlayer.mutateAsync(playerId);
+      setShowAddDialog(false);
+      setSearchQuery('');
+      setSearchResults([]);
 
-        toast({
-          title: "Success",
-          description: "Player added to team successfully!"
-        });
-      }
+      toast({
+        title: "Success",
+        description: "Player added to team successfully!"
+      });
     } catch (error) {
       console.error('Error adding player:', error);
       toast({
@@ -364,41 +292,9 @@ const TeamDetail = () => {
     }
   };
 
-  const updatePlayerRole = async (memberId: string, newRole: string) => {
-    setUpdatingRole(memberId);
+  const updatePlayerRole = async (memberId: string, newRole: TeamRole) => {
     try {
-      // If making someone captain, first demote current captain
-      if (newRole === 'captain') {
-        // Find current captain
-        const currentCaptain = members.find(m => m.role === 'captain');
-        if (currentCaptain) {
-          // Demote current captain to player
-          const { error: demoteError } = await supabase
-            .from('team_players')
-            .update({ role: 'player' })
-            .eq('id', currentCaptain.id);
-
-          if (demoteError) throw demoteError;
-        }
-
-        // Update team captain_id
-        const { error: teamError } = await supabase
-          .from('teams')
-          .update({ captain_id: members.find(m => m.id === memberId)?.player_id })
-          .eq('id', teamId);
-
-        if (teamError) throw teamError;
-      }
-
-      // Update the player's role
-      const { error } = await supabase
-        .from('team_players')
-        .update({ role: newRole })
-        .eq('id', memberId);
-
-      if (error) throw error;
-
-      await fetchTeamData();
+      await updateTeamPlayerRole.mutateAsync({ memberId, role: newRole });
       toast({
         title: "Success",
         description: newRole === 'captain' 
@@ -412,21 +308,12 @@ const TeamDetail = () => {
         description: "Failed to update player role",
         variant: "destructive"
       });
-    } finally {
-      setUpdatingRole(null);
     }
   };
 
   const removePlayerFromTeam = async (memberId: string) => {
     try {
-      const { error } = await supabase
-        .from('team_players')
-        .delete()
-        .eq('id', memberId);
-
-      if (error) throw error;
-
-      await fetchTeamData();
+      await removeTeamPlayer.mutateAsync(memberId);
       toast({
         title: "Success",
         description: "Player removed from team successfully!"
@@ -441,14 +328,90 @@ const TeamDetail = () => {
     }
   };
 
-  const deleteTeam = async () => {
+  // Crops and shrinks the logo on the device, saves it and deletes the logo it replaces
+  const handleLogoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !team) return;
+
+    const invalid = validateImageFile(file);
+    if (invalid) {
+      toast({
+        title: "Error",
+        description: invalid,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const previousUrl = team.logo_url;
+    let uploadedUrl: string | null = null;
+    setUploadingLogo(true);
     try {
-      const { error } = await supabase
-        .from('teams')
-        .delete()
-        .eq('id', teamId);
+      const image = await cropAndResizeImage(file);
+      uploadedUrl = await uploadImage('team-logos', team.id, image);
+      await updateTeam.mutateAsync({ logo_url: uploadedUrl });
 
-      if (error) throw error;
+      removeImage('team-logos', previousUrl).catch(error => console.error('Error removing old logo:', error));
+
+      toast({
+        title: "Success",
+        description: "Team logo updated"
+      });
+    } catch (error) {
+      console.error('Error uploading logo:', error);
+      if (uploadedUrl) {
+        removeImage('team-logos', uploadedUrl).catch(removeError => console.error('Error removing unused logo:', removeError));
+      }
+      toast({
+        title: "Error",
+        description: "Failed to upload team logo",
+        variant: "destructive"
+      });
+    } finally {
+      setUploadingLogo(false);
+    }
+  };
+
+  const sendJoinRequest = async () => {
+    try {
+      await requestToJoin.mutateAsync();
+      toast({
+        title: "Success",
+        description: "Join request sent to the team captain"
+      });
+    } catch (error) {
+      console.error('Error requesting to join team:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send join request",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const cancelJoinRequest = async () => {
+    if (!ownJoinRequest) return;
+
+    try {
+      await withdrawJoinRequest.mutateAsync(ownJoinRequest.id);
+      toast({
+        title: "Success",
+        description: "Join request withdrawn"
+      });
+    } catch (error) {
+      console.error('Error withdrawing join request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to withdraw join request",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const deleteTeam = async () => {
+    try {
+      await removeTeam.mutateAsync(teamId as string);
 
       toast({
         title: "Success",
@@ -538,165 +501,192 @@ const TeamDetail = () => {
                     <p className="text-sm text-muted-foreground">
                       {members.length} member{members.length !== 1 ? 's' : ''}
                     </p>
+                    {canEdit && (
+                      <>
+                        <Label htmlFor="logo-upload" className="cursor-pointer">
+                          <Button variant="link" size="sm" className="h-auto p-0" asChild>
+                            <span>
+                              {uploadingLogo ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Camera className="h-3 w-3 mr-1" />}
+                              {uploadingLogo ? 'Uploading...' : 'Change Logo'}
+                            </span>
+                          </Button>
+                        </Label>
+                        <input
+                          id="logo-upload"
+                          type="file"
+                          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                          onChange={handleLogoUpload}
+                          disabled={uploadingLogo}
+                          className="hidden"
+                        />
+                      </>
+                    )}
                   </div>
                 </div>
                 {team.description && (
                   <p className="text-sm text-muted-foreground">{team.description}</p>
                 )}
                 <div className="pt-4 space-y-3">
-                  <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
-                    <DialogTrigger asChild>
-                      <Button className="w-full">
-                        <UserPlus className="h-4 w-4 mr-2" />
-                        Add Player
+                  {profile && !isMember && (
+                    joinRequestPending ? (
+                      <Button variant="outline" className="w-full" onClick={cancelJoinRequest} disabled={withdrawJoinRequest.isPending}>
+                        {withdrawJoinRequest.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Clock className="h-4 w-4 mr-2" />}
+                        Request Sent • Withdraw
                       </Button>
-                    </DialogTrigger>
-                    <DialogContent className="max-w-2xl w-[95vw] sm:w-auto">
-                      <DialogHeader>
-                        <DialogTitle>Add Player to Team</DialogTitle>
-                        <DialogDescription>
-                          Choose how you want to add a player to your team.
-                        </DialogDescription>
-                      </DialogHeader>
-                      
-                      <div className="grid grid-cols-1 gap-3">
-                        <Button 
-                          onClick={() => setActiveTab('search')}
-                          variant={activeTab === 'search' ? 'default' : 'outline'}
-                          className="w-full justify-start"
-                        >
-                          <Users className="h-4 w-4 mr-2" />
-                          Search Players
-                        </Button>
-                        <Button 
-                          onClick={() => shareTeamLink()}
-                          variant="outline"
-                          className="w-full justify-start"
-                        >
-                          <Phone className="h-4 w-4 mr-2" />
-                          Share Link on WhatsApp
-                        </Button>
-                        <Button 
-                          onClick={() => addFromContacts()}
-                          variant="outline"
-                          className="w-full justify-start"
-                        >
-                          <Users className="h-4 w-4 mr-2" />
-                          Add from Contact
+                    ) : (
+                      <Button className="w-full" onClick={sendJoinRequest} disabled={requestToJoin.isPending}>
+                        {requestToJoin.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+                        Request to Join
+                      </Button>
+                    )
+                  )}
+                  {canManagePlayers && (
+                    <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
+                      <DialogTrigger asChild>
+                        <Button className="w-full">
+                          <UserPlus className="h-4 w-4 mr-2" />
+                          Add Player
                         </Button>
-                      </div>
+                      </DialogTrigger>
+                      <DialogContent className="max-w-2xl w-[95vw] sm:w-auto">
+                        <DialogHeader>
+                          <DialogTitle>Add Player to Team</DialogTitle>
+                          <DialogDescription>
+                            Choose how you want to add a player to your team.
+                          </DialogDescription>
+                        </DialogHeader>
+                      
+                        <div className="grid grid-cols-1 gap-3">
+                          <Button 
+                            onClick={() => setActiveTab('search')}
+                            variant={activeTab === 'search' ? 'default' : 'outline'}
+                            className="w-full justify-start"
+                          >
+                            <Users className="h-4 w-4 mr-2" />
+                            Search Players
+                          </Button>
+                          <Button 
+                            onClick={() => shareTeamLink()}
+                            variant="outline"
+                            className="w-full justify-start"
+                            disabled={createInvite.isPending}
+                          >
+                            {createInvite.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Phone className="h-4 w-4 mr-2" />}
+                            Share Link on WhatsApp
+                          </Button>
+                          <Button 
+                            onClick={() => setActiveTab('contact')}
+                            variant={activeTab === 'contact' ? 'default' : 'outline'}
+                            className="w-full justify-start"
+                          >
+                            <UserPlus className="h-4 w-4 mr-2" />
+                            Add Guest Player
+                          </Button>
+                          <Button 
+                            onClick={() => addFromContacts()}
+                            variant="outline"
+                            className="w-full justify-start"
+                          >
+                            <Users className="h-4 w-4 mr-2" />
+                            Add from Contact
+                          </Button>
+                        </div>
                         
-                        {activeTab === 'search' && (
-                          <div className="space-y-4">
-                            <div className="space-y-2">
-                              <Label htmlFor="search">Search Existing Players</Label>
-                              <Input
-                                id="search"
-                                value={searchQuery}
-                                onChange={(e) => {
-                                  setSearchQuery(e.target.value);
-                                  searchPlayers(e.target.value);
-                                }}
-                                placeholder="Search by player name..."
-                              />
-                            </div>
-                            
-                            {searching && (
-                              <div className="flex items-center justify-center py-4">
-                                <Loader2 className="h-4 w-4 animate-spin" />
+                          {activeTab === 'search' && (
+                            <div className="space-y-4">
+                              <div className="space-y-2">
+                                <Label htmlFor="search">Search Existing Players</Label>
+                                <Input
+                                  id="search"
+                                  value={searchQuery}
+                                  onChange={(e) => {
+                                    setSearchQuery(e.target.value);
+                                    searchPlayers(e.target.value);
+                                  }}
+                                  placeholder="Search by player name..."
+                                />
                               </div>
-                            )}
                             
-                            {searchResults.length > 0 && (
-                              <div className="space-y-2 max-h-60 overflow-y-auto">
-                                {searchResults.map((player) => (
-                                  <div
-                                    key={player.id}
-                                    className="flex flex-col sm:flex-row sm:items-center justify-between p-3 border rounded-lg gap-3 sm:gap-0"
-                                  >
-                                    <div className="flex items-center gap-3">
-                                      <Avatar className="h-8 w-8">
-                                        <AvatarImage src={player.image_url || ''} />
-                                        <AvatarFallback>
-                                          {player.name.charAt(0).toUpperCase()}
-                                        </AvatarFallback>
-                                      </Avatar>
-                                      <div>
-                                        <div className="flex items-center gap-2">
-                                          <p className="font-medium">{player.name}</p>
-                                          {player.is_temp && (
-                                            <Badge variant="secondary" className="text-xs">Temp</Badge>
-                                          )}
+                              {searching && (
+                                <div className="flex items-center justify-center py-4">
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                </div>
+                              )}
+                            
+                              {searchResults.length > 0 && (
+                                <div className="space-y-2 max-h-60 overflow-y-auto">
+                                  {searchResults.map((player) => (
+                                    <div
+                                      key={player.id}
+                                      className="flex flex-col sm:flex-row sm:items-center justify-between p-3 border rounded-lg gap-3 sm:gap-0"
+                                    >
+                                      <div className="flex items-center gap-3">
+                                        <Avatar className="h-8 w-8">
+                                          <AvatarImage src={player.image_url || ''} />
+                                          <AvatarFallback>
+                                            {player.name.charAt(0).toUpperCase()}
+                                          </AvatarFallback>
+                                        </Avatar>
+                                        <div>
+                                          <div className="flex items-center gap-2">
+                                            <p className="font-medium">{player.name}</p>
+                                            {player.is_guest && (
+                                              <Badge variant="secondary" className="text-xs">Guest</Badge>
+                                            )}
+                                          </div>
+                                          <p className="text-sm text-muted-foreground">
+                                            {player.batting_style || 'N/A'} • {player.bowling_style || 'N/A'}
+                                          </p>
                                         </div>
-                                        <p className="text-sm text-muted-foreground">
-                                          {player.batting_style || 'N/A'} • {player.bowling_style || 'N/A'}
-                                        </p>
                                       </div>
+                                      <Button
+                                        size="sm"
+                                        onClick={() => addPlayerToTeam(player.id)}
+                                        disabled={addingPlayer === player.id}
+                                        className="sm:self-end"
+                                      >
+                                        {addingPlayer === player.id ? (
+                                          <Loader2 className="h-4 w-4 animate-spin" />
+                                        ) : (
+                                          'Add'
+                                        )}
+                                      </Button>
                                     </div>
-                                    <Button
-                                      size="sm"
-                                      onClick={() => addPlayerToTeam(player.id)}
-                                      disabled={addingPlayer === player.id}
-                                      className="sm:self-end"
-                                    >
-                                      {addingPlayer === player.id ? (
-                                        <Loader2 className="h-4 w-4 animate-spin" />
-                                      ) : (
-                                        'Add'
-                                      )}
-                                    </Button>
-                                  </div>
-                                ))}
-                              </div>
-                            )}
-                          </div>
-                        )}
-                        
-                        {activeTab === 'contact' && (
-                          <div className="space-y-4">
-                            <div className="space-y-2">
-                              <Label htmlFor="contact-name">Contact Name</Label>
-                              <Input
-                                id="contact-name"
-                                value={contactData.name}
-                                onChange={(e) => setContactData(prev => ({ ...prev, name: e.target.value }))}
-                                placeholder="Enter contact name"
-                              />
-                            </div>
-                            <div className="space-y-2">
-                              <Label htmlFor="contact-phone">Phone Number (Optional)</Label>
-                              <Input
-                                id="contact-phone"
-                                value={contactData.phone}
-                                onChange={(e) => setContactData(prev => ({ ...prev, phone: e.target.value }))}
-                                placeholder="Enter phone number"
-                                type="tel"
-                              />
+                                  ))}
+                                </div>
+                              )}
                             </div>
-                            <div className="space-y-2">
-                              <Label htmlFor="contact-email">Email (Optional)</Label>
-                              <Input
-                                id="contact-email"
-                                value={contactData.email}
-                                onChange={(e) => setContactData(prev => ({ ...prev, email: e.target.value }))}
-                                placeholder="Enter email address"
-                                type="email"
-                              />
+                          )}
+                        
+                          {activeTab === 'contact' && (
+                            <div className="space-y-4">
+                              <div className="space-y-2">
+                                <Label htmlFor="guest-name">Guest Player Name</Label>
+                                <Input
+                                  id="guest-name"
+                                  value={guestName}
+                                  onChange={(e) => setGuestName(e.target.value)}
+                                  placeholder="Enter player name"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                  Guests can be picked and scored like anyone else. Send them their claim link to keep their stats when they sign up.
+                                </p>
+                              </div>
+                              <Button 
+                                onClick={() => addGuestToTeam(guestName)} 
+                                disabled={!guestName.trim() || addGuestPlayer.isPending}
+                                className="w-full"
+                              >
+                                {addGuestPlayer.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+                                Add Guest Player
+                              </Button>
                             </div>
-                            <Button 
-                              onClick={addContactPlayer} 
-                              disabled={!contactData.name.trim()}
-                              className="w-full"
-                            >
-                              <Phone className="h-4 w-4 mr-2" />
-                              Add from Contact
-                            </Button>
-                          </div>
-                        )}
-                                          </DialogContent>
-                    </Dialog>
+                          )}
+                                            </DialogContent>
+                      </Dialog>
+                  )}
                     
-                    {isCaptain && (
+                    {canEdit && (
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
                           <Button variant="destructive" className="w-full">
@@ -726,7 +716,7 @@ const TeamDetail = () => {
           </div>
 
           {/* Team Members */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-4 sm:space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle>Team Members</CardTitle>
@@ -758,18 +748,33 @@ const TeamDetail = () => {
                           </AvatarFallback>
                         </Avatar>
                         <div>
-                          <p className="font-medium">{member.player.name || 'Unknown Player'}</p>
+                          <div className="flex items-center gap-2">
+                            <p className="font-medium">{member.player.name || 'Unknown Player'}</p>
+                            {member.player.is_guest && (
+                              <Badge variant="secondary" className="text-xs">Guest</Badge>
+                            )}
+                          </div>
                           <p className="text-sm text-muted-foreground">
                             {member.player.batting_style || 'N/A'} • {member.player.bowling_style || 'N/A'}
                           </p>
                         </div>
                       </div>
                       <div className="flex items-center gap-2 sm:flex-shrink-0">
-                        {member.role !== 'captain' ? (
+                        {canManagePlayers && member.player.is_guest && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => shareClaimLink(member.player_id, member.player.name || 'Player')}
+                            title="Share claim link"
+                          >
+                            <Link2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canManagePlayers && member.role !== 'captain' ? (
                           <div className="flex items-center gap-2">
                             <Select
                               value={member.role}
-                              onValueChange={(value) => updatePlayerRole(member.id, value)}
+                              onValueChange={(value) => updatePlayerRole(member.id, value as TeamRole)}
                               disabled={updatingRole === member.id}
                             >
                               <SelectTrigger className="w-28 sm:w-32">
@@ -778,7 +783,7 @@ const TeamDetail = () => {
                               <SelectContent>
                                 <SelectItem value="player">Player</SelectItem>
                                 <SelectItem value="vice_captain">Vice Captain</SelectItem>
-                                <SelectItem value="captain">Make Captain</SelectItem>
+                                {canEdit && <SelectItem value="captain">Make Captain</SelectItem>}
                               </SelectContent>
                             </Select>
                             <AlertDialog>
@@ -820,6 +825,10 @@ const TeamDetail = () => {
                 </div>
               </CardContent>
             </Card>
+
+            {canManagePlayers && profile && (
+              <TeamInvitesCard teamId={team.id} profileId={profile.id} />
+            )}
           </div>
         </div>
       </div>
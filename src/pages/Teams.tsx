@@ -1,6 +1,5 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -14,6 +13,8 @@ import { Loader2, Plus, Users, Crown } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import PageHeader from '@/components/PageHeader';
 import { Link } from 'react-router-dom';
+import { useCurrentProfile } from '@/hooks/use-profile';
+import { useCreateTeam, useTeams } from '@/hooks/use-teams';
 
 interface Team {
   id: string;
@@ -33,9 +34,6 @@ interface Team {
 const Teams = () => {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [teams, setTeams] = useState<Team[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [creating, setCreating] = useState(false);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
@@ -44,105 +42,38 @@ const Teams = () => {
     addMyself: true
   });
 
-  useEffect(() => {
-    if (user) {
-      fetchTeams();
-    }
-  }, [user]);
-
-  const fetchTeams = async () => {
-    try {
-      // Get user's profile ID
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('user_id', user?.id)
-        .single();
-
-      if (!profile) return;
-
-      // Fetch teams with captain info and player count
-      const { data: teamsData, error } = await supabase
-        .from('teams')
-        .select(`
-          *,
-          captain:profiles!teams_captain_id_fkey(name, image_url),
-          team_players(count)
-        `);
-
-      if (error) throw error;
-
-      // Add player count to teams
-      const teamsWithPlayerCount = teamsData.map((team) => ({
-        ...team,
-        player_count: team.team_players?.[0]?.count || 0
-      }));
+  const { data: profile } = useCurrentProfile(user?.id);
+  const { data: teams = [], isLoading, isError } = useTeams();
+  const createTeam = useCreateTeam();
+  const loading = !user || isLoading;
+  const creating = createTeam.isPending;
 
-      setTeams(teamsWithPlayerCount);
-    } catch (error) {
-      console.error('Error fetching teams:', error);
+  useEffect(() => {
+    if (isError) {
       toast({
         title: "Error",
         description: "Failed to load teams",
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [isError, toast]);
 
   const handleCreateTeam = async () => {
     if (!user || !formData.name.trim()) return;
 
-    setCreating(true);
     try {
-      // Get user's profile ID
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('user_id', user.id)
-        .single();
-
       if (!profile) throw new Error('Profile not found');
 
-      // Create team
-      const { data: team, error: teamError } = await supabase
-        .from('teams')
-        .insert({
-          name: formData.name.trim(),
-          description: formData.description.trim() || null,
-          logo_url: formData.logo_url.trim() || null,
-          captain_id: profile.id
-        })
-        .select()
-        .single();
-
-      if (teamError) {
-        console.error('Team creation error:', teamError);
-        throw teamError;
-      }
-
-      // Add captain as team player if checkbox is checked
-      if (formData.addMyself) {
-        const { error: playerError } = await supabase
-          .from('team_players')
-          .insert({
-            team_id: team.id,
-            player_id: profile.id,
-            role: 'captain'
-          });
-
-        if (playerError) {
-          console.error('Player addition error:', playerError);
-          console.warn('Team created but failed to add captain as player:', playerError);
-        }
-      }
+      await createTeam.mutateAsync({
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        logo_url: formData.logo_url.trim() || null,
+        captainId: profile.id,
+        addCaptain: formData.addMyself
+      });
 
       setShowCreateDialog(false);
       setFormData({ name: '', description: '', logo_url: '', addMyself: true });
-      
-      // Refresh teams list
-      await fetchTeams();
 
       toast({
         title: "Success",
@@ -155,8 +86,6 @@ const Teams = () => {
         description: "Failed to create team",
         variant: "destructive"
       });
-    } finally {
-      setCreating(false);
     }
   };
 
@@ -0,0 +1,1146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Trophy, Users, Calendar, MapPin, UserMinus, Crown, Settings, Shuffle, ArrowRight } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import PageHeader from '@/components/PageHeader';
+import TournamentMvpCard from '@/components/TournamentMvpCard';
+import { formatMatchResult, fromResultColumns, getBattingOrderIds } from '@/utils/matchResult';
+import { computeMatch, wicketsForSquads } from '@/utils/scoringEngine';
+import { formatFixtureSource, generateFixtures, knockoutRoundName } from '@/utils/fixtures';
+import { fetchProfileByUser, fetchTournament, fetchTournamentFixtures, fetchTournamentTeams } from '@/lib/db';
+import {
+  computePointsTable,
+  formatNetRunRate,
+  TIE_BREAKER_LABELS,
+  type PointsTableMatch,
+  type PointsTableRow,
+  type PointsTableSettings,
+  type TieBreaker
+} from '@/utils/pointsTable';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+interface Team {
+  id: string;
+  name: string;
+  logo_url: string | null;
+  captain?: {
+    name: string;
+  };
+}
+
+interface Tournament {
+  id: string;
+  name: string;
+  description: string | null;
+  location: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  overs: number;
+  status: 'upcoming' | 'ongoing' | 'completed';
+  format: 'league' | 'groups' | 'knockout';
+  points_for_win: number;
+  points_for_tie: number;
+  points_for_no_result: number;
+  tie_breakers: TieBreaker[];
+  mvp_rules: unknown;
+  created_by: string;
+  created_at: string;
+}
+
+interface TournamentMatch {
+  id: string;
+  name: string;
+  date: string;
+  time: string;
+  location: string | null;
+  overs: number;
+  status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+  team_a_id: string;
+  team_b_id: string;
+  team_a: Team;
+  team_b: Team;
+  toss_winner_id: string | null;
+  toss_decision: 'bat' | 'bowl' | null;
+  result_type?: 'win' | 'tie' | 'no_result' | null;
+  winner_team_id?: string | null;
+  result_margin?: number | null;
+  result_margin_type?: 'runs' | 'wickets' | null;
+  result_balls_remaining?: number | null;
+}
+
+// A row of tournament_matches. Knockout fixtures have no match until both teams are known.
+interface Fixture {
+  id: string;
+  stage: 'league' | 'group' | 'knockout';
+  group_name: string | null;
+  round: number | null;
+  match_number: number | null;
+  team_a_id: string | null;
+  team_b_id: string | null;
+  team_a_source: string | null;
+  team_b_source: string | null;
+  scheduled_date: string | null;
+  scheduled_time: string | null;
+  match: TournamentMatch | null;
+}
+
+type GroupedPointsMatch = PointsTableMatch & { groupName: string | null };
+
+const getFixtureDateTime = (fixture: Fixture) => fixture.match
+  ? `${fixture.match.date}T${fixture.match.time}`
+  : `${fixture.scheduled_date || ''}T${fixture.scheduled_time || ''}`;
+
+// Groups and their teams, taken from the group-stage fixtures
+const getGroups = (fixtures: Fixture[]) => {
+  const groups = new Map<string, Set<string>>();
+  fixtures.filter(f => f.stage === 'group' && f.group_name).forEach(f => {
+    const teamIds = groups.get(f.group_name as string) || new Set<string>();
+    [f.team_a_id, f.team_b_id].forEach(id => id && teamIds.add(id));
+    groups.set(f.group_name as string, teamIds);
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, teamIds]) => ({ name, teamIds: [...teamIds] }));
+};
+
+const getPointsSettings = (tournament: Tournament): PointsTableSettings => ({
+  pointsForWin: tournament.points_for_win,
+  pointsForTie: tournament.points_for_tie,
+  pointsForNoResult: tournament.points_for_no_result,
+  tieBreakers: tournament.tie_breakers || []
+});
+
+// Replays completed league and group matches to get the innings totals the points table needs
+const fetchPointsMatches = async (tournamentFixtures: Fixture[]): Promise<GroupedPointsMatch[]> => {
+  const completedFixtures = tournamentFixtures.filter(f =>
+    f.stage !== 'knockout' && f.match?.status === 'completed' && fromResultColumns(f.match)
+  );
+  const completed = completedFixtures.map(f => f.match as TournamentMatch);
+  if (completed.length === 0) return [];
+
+  const matchIds = completed.map(m => m.id);
+  const [{ data: scoresData, error: scoresError }, { data: playersData, error: playersError }] = await Promise.all([
+    supabase.from('match_scores').select('*').in('match_id', matchIds),
+    supabase.from('match_players').select('match_id, team_id, is_playing_xi').in('match_id', matchIds)
+  ]);
+
+  if (scoresError) throw scoresError;
+  if (playersError) throw playersError;
+
+  return completed.map((match, index) => {
+    const battingOrder = getBattingOrderIds(match.team_a_id, match.team_b_id, match.toss_winner_id, match.toss_decision);
+    const maxWickets = wicketsForSquads(battingOrder, (playersData || []).filter(p => p.match_id === match.id));
+    const state = computeMatch((scoresData || []).filter(s => s.match_id === match.id), match.overs, maxWickets);
+
+    return {
+      groupName: completedFixtures[index].group_name,
+      teamAId: match.team_a_id,
+      teamBId: match.team_b_id,
+      totalOvers: match.overs,
+      result: fromResultColumns(match)!,
+      innings: state.innings.map((innings, index) => ({
+        battingTeamId: battingOrder[index],
+        runs: innings.runs,
+        legalBalls: innings.legalBalls,
+        allOut: innings.endReason === 'all_out'
+      }))
+    };
+  });
+};
+
+const TournamentDetail = () => {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [allTeams, setAllTeams] = useState<Team[]>([]);
+  const [fixtures, setFixtures] = useState<Fixture[]>([]);
+  const [matches, setMatches] = useState<TournamentMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isCreator, setIsCreator] = useState(false);
+  const [showAddTeamsDialog, setShowAddTeamsDialog] = useState(false);
+  const [selectedTeamIds, setSelectedTeamIds] = useState<string[]>([]);
+  const [addingTeams, setAddingTeams] = useState(false);
+  const [pointsMatches, setPointsMatches] = useState<GroupedPointsMatch[]>([]);
+  const [showSettingsDialog, setShowSettingsDialog] = useState(false);
+  const [settingsForm, setSettingsForm] = useState<PointsTableSettings | null>(null);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [showFixturesDialog, setShowFixturesDialog] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [fillingQualifiers, setFillingQualifiers] = useState(false);
+  const [fixtureForm, setFixtureForm] = useState({
+    start_date: '',
+    time: '10:00',
+    matches_per_day: 2,
+    double_round_robin: false,
+    group_count: 2,
+    qualifiers_per_group: 2
+  });
+
+  const fetchTournamentData = useCallback(async () => {
+    try {
+      // Get user's profile ID
+      const profile = await fetchProfileByUser(user?.id);
+      if (!profile) return;
+
+      // Fetch tournament details
+      const tournamentData = await fetchTournament(tournamentId);
+      setTournament(tournamentData);
+      setIsCreator(tournamentData.created_by === profile.id);
+
+      // Fetch participating teams
+      const participatingTeams = await fetchTournamentTeams(tournamentId);
+      setTeams(participatingTeams.sort((a, b) => a.name.localeCompare(b.name)));
+
+      // Fetch all teams for adding participants
+      const { data: allTeamsData, error: allTeamsError } = await supabase
+        .from('teams')
+        .select('id, name, logo_url')
+        .order('name');
+
+      if (allTeamsError) throw allTeamsError;
+      setAllTeams(allTeamsData || []);
+
+      // Fetch tournament fixtures with their matches
+      const tournamentFixtures: Fixture[] = (await fetchTournamentFixtures(tournamentId))
+        .sort((a: Fixture, b: Fixture) =>
+          a.match_number && b.match_number
+            ? a.match_number - b.match_number
+            : getFixtureDateTime(a).localeCompare(getFixtureDateTime(b))
+        );
+      setFixtures(tournamentFixtures);
+      setMatches(tournamentFixtures.map(f => f.match).filter(Boolean) as TournamentMatch[]);
+      setPointsMatches(await fetchPointsMatches(tournamentFixtures));
+    } catch (error) {
+      console.error('Error fetching tournament data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load tournament",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, tournamentId, toast]);
+
+  useEffect(() => {
+    if (tournamentId && user) {
+      fetchTournamentData();
+    }
+  }, [tournamentId, user, fetchTournamentData]);
+
+  const saveSettings = async () => {
+    if (!tournament || !settingsForm) return;
+
+    setSavingSettings(true);
+    try {
+      const updates = {
+        points_for_win: settingsForm.pointsForWin,
+        points_for_tie: settingsForm.pointsForTie,
+        points_for_no_result: settingsForm.pointsForNoResult,
+        tie_breakers: settingsForm.tieBreakers
+      };
+      const { error } = await supabase
+        .from('tournaments')
+        .update(updates)
+        .eq('id', tournament.id);
+
+      if (error) throw error;
+
+      setTournament(prev => prev ? { ...prev, ...updates } : prev);
+      setShowSettingsDialog(false);
+      toast({
+        title: "Success",
+        description: "Points table settings saved"
+      });
+    } catch (error) {
+      console.error('Error saving points settings:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save points table settings",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  // Set one tie-breaker slot, dropping it from any other slot
+  const setTieBreaker = (slot: number, value: string) => {
+    setSettingsForm(prev => {
+      if (!prev) return prev;
+      const tieBreakers = [...prev.tieBreakers];
+      if (value === 'none') {
+        tieBreakers.splice(slot);
+      } else {
+        const existing = tieBreakers.indexOf(value as TieBreaker);
+        if (existing !== -1) tieBreakers.splice(existing, 1);
+        tieBreakers.splice(Math.min(slot, tieBreakers.length), 1, value as TieBreaker);
+      }
+      return { ...prev, tieBreakers };
+    });
+  };
+
+  const getTeamName = (teamId: string) => teams.find(t => t.id === teamId)?.name || 'Unknown Team';
+
+  const openFixturesDialog = (open: boolean) => {
+    setShowFixturesDialog(open);
+    if (open && tournament) {
+      setFixtureForm(prev => ({
+        ...prev,
+        start_date: prev.start_date || tournament.start_date || new Date().toISOString().slice(0, 10)
+      }));
+    }
+  };
+
+  const plannedFixtures = tournament && fixtureForm.start_date
+    ? generateFixtures({
+      format: tournament.format,
+      teamIds: teams.map(t => t.id),
+      doubleRoundRobin: fixtureForm.double_round_robin,
+      groupCount: fixtureForm.group_count,
+      qualifiersPerGroup: fixtureForm.qualifiers_per_group,
+      startDate: fixtureForm.start_date,
+      matchesPerDay: fixtureForm.matches_per_day
+    })
+    : [];
+
+  // Creates every fixture, plus a match for each one whose teams are already known
+  const generateTournamentFixtures = async () => {
+    if (!tournament || plannedFixtures.length === 0) return;
+
+    setGenerating(true);
+    try {
+      // Ids are assigned up front so fixtures can point at each other in a single insert
+      const fixtureIds = plannedFixtures.map(() => crypto.randomUUID());
+      const matchIds = plannedFixtures.map(f => f.teamAId && f.teamBId ? crypto.randomUUID() : null);
+
+      const matchRows = plannedFixtures.flatMap((fixture, index) => matchIds[index] ? [{
+        id: matchIds[index],
+        name: `${getTeamName(fixture.teamAId as string)} vs ${getTeamName(fixture.teamBId as string)}`,
+        date: fixture.date,
+        time: fixtureForm.time,
+        location: tournament.location,
+        team_a_id: fixture.teamAId,
+        team_b_id: fixture.teamBId,
+        overs: tournament.overs,
+        created_by: tournament.created_by
+      }] : []);
+
+      if (matchRows.length > 0) {
+        const { error: matchesError } = await supabase
+          .from('matches')
+          .insert(matchRows);
+
+        if (matchesError) throw matchesError;
+      }
+
+      const { error: fixturesError } = await supabase
+        .from('tournament_matches')
+        .insert(plannedFixtures.map((fixture, index) => ({
+          id: fixtureIds[index],
+          tournament_id: tournament.id,
+          match_id: matchIds[index],
+          stage: fixture.stage,
+          group_name: fixture.groupName,
+          round: fixture.round,
+          match_number: fixture.matchNumber,
+          team_a_id: fixture.teamAId,
+          team_b_id: fixture.teamBId,
+          team_a_source: fixture.teamASource,
+          team_b_source: fixture.teamBSource,
+          scheduled_date: fixture.date,
+          scheduled_time: fixtureForm.time,
+          next_fixture_id: fixture.nextFixture === null ? null : fixtureIds[fixture.nextFixture],
+          next_fixture_slot: fixture.nextSlot
+        })));
+
+      if (fixturesError) {
+        // Don't leave matches behind that belong to no fixture
+        await supabase.from('matches').delete().in('id', matchRows.map(m => m.id));
+        throw fixturesError;
+      }
+
+      setShowFixturesDialog(false);
+      await fetchTournamentData();
+      toast({
+        title: "Success",
+        description: `${plannedFixtures.length} fixtures created`
+      });
+    } catch (error) {
+      console.error('Error generating fixtures:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate fixtures",
+        variant: "destructive"
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // Puts the group qualifiers into their knockout fixtures once the group stage is over
+  const fillQualifiers = async () => {
+    if (!tournament) return;
+
+    setFillingQualifiers(true);
+    try {
+      const standings = new Map<string, string>();
+      getGroups(fixtures).forEach(group => {
+        computePointsTable(group.teamIds, pointsMatches.filter(m => m.groupName === group.name), getPointsSettings(tournament))
+          .forEach((row, index) => standings.set(`group:${group.name}:${index + 1}`, row.teamId));
+      });
+
+      const pending = fixtures.filter(f =>
+        f.stage === 'knockout' && !f.match &&
+        [f.team_a_source, f.team_b_source].some(source => source?.startsWith('group:'))
+      );
+
+      for (const fixture of pending) {
+        const teamAId = fixture.team_a_id || standings.get(fixture.team_a_source || '') || null;
+        const teamBId = fixture.team_b_id || standings.get(fixture.team_b_source || '') || null;
+
+        let matchId: string | null = null;
+        if (teamAId && teamBId) {
+          const { data: match, error: matchError } = await supabase
+            .from('matches')
+            .insert({
+              name: `${getTeamName(teamAId)} vs ${getTeamName(teamBId)}`,
+              date: fixture.scheduled_date || new Date().toISOString().slice(0, 10),
+              time: fixture.scheduled_time || '10:00',
+              location: tournament.location,
+              team_a_id: teamAId,
+              team_b_id: teamBId,
+              overs: tournament.overs,
+              created_by: tournament.created_by
+            })
+            .select('id')
+            .single();
+
+          if (matchError) throw matchError;
+          matchId = match.id;
+        }
+
+        const { error } = await supabase
+          .from('tournament_matches')
+          .update({ team_a_id: teamAId, team_b_id: teamBId, match_id: matchId })
+          .eq('id', fixture.id);
+
+        if (error) throw error;
+      }
+
+      await fetchTournamentData();
+      toast({
+        title: "Success",
+        description: "Qualifiers added to the knockout fixtures"
+      });
+    } catch (error) {
+      console.error('Error filling qualifiers:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add qualifiers",
+        variant: "destructive"
+      });
+    } finally {
+      setFillingQualifiers(false);
+    }
+  };
+
+  const addTeams = async () => {
+    if (!tournament || selectedTeamIds.length === 0) return;
+
+    setAddingTeams(true);
+    try {
+      const { error } = await supabase
+        .from('tournament_teams')
+        .insert(selectedTeamIds.map(teamId => ({
+          tournament_id: tournament.id,
+          team_id: teamId
+        })));
+
+      if (error) throw error;
+
+      setShowAddTeamsDialog(false);
+      setSelectedTeamIds([]);
+      await fetchTournamentData();
+      toast({
+        title: "Success",
+        description: "Teams added to the tournament"
+      });
+    } catch (error) {
+      console.error('Error adding teams:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add teams",
+        variant: "destructive"
+      });
+    } finally {
+      setAddingTeams(false);
+    }
+  };
+
+  const removeTeam = async (teamId: string) => {
+    if (!tournament) return;
+
+    try {
+      const { error } = await supabase
+        .from('tournament_teams')
+        .delete()
+        .eq('tournament_id', tournament.id)
+        .eq('team_id', teamId);
+
+      if (error) throw error;
+
+      setTeams(prev => prev.filter(t => t.id !== teamId));
+      toast({
+        title: "Success",
+        description: "Team removed from the tournament"
+      });
+    } catch (error) {
+      console.error('Error removing team:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove team",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const formatTime = (timeString: string) => {
+    return new Date(`2000-01-01T${timeString}`).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: true
+    });
+  };
+
+  const getMatchResultText = (match: TournamentMatch) => {
+    const result = fromResultColumns(match);
+    if (!result) return null;
+    return formatMatchResult(result, (teamId) => teamId === match.team_a_id ? match.team_a.name : match.team_b.name);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="container mx-auto px-4 py-8">
+          <Card>
+            <CardContent className="text-center py-12">
+              <Trophy className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">Tournament Not Found</h3>
+              <Link to="/tournaments">
+                <Button variant="outline">Back to Tournaments</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const availableTeams = allTeams.filter(team => !teams.some(t => t.id === team.id));
+  const teamsWithMatches = new Set([
+    ...matches.flatMap(m => [m.team_a_id, m.team_b_id]),
+    ...fixtures.flatMap(f => [f.team_a_id, f.team_b_id]).filter(Boolean) as string[]
+  ]);
+  const hasPointsTable = tournament.format !== 'knockout';
+  const groups = getGroups(fixtures);
+  // One table per group, or a single league table
+  const pointsTables: { name: string | null; rows: PointsTableRow[] }[] = !hasPointsTable
+    ? []
+    : groups.length > 0
+      ? groups.map(group => ({
+        name: group.name,
+        rows: computePointsTable(group.teamIds, pointsMatches.filter(m => m.groupName === group.name), getPointsSettings(tournament))
+      }))
+      : [{ name: null, rows: computePointsTable(teams.map(t => t.id), pointsMatches, getPointsSettings(tournament)) }];
+
+  const groupFixtures = fixtures.filter(f => f.stage === 'group');
+  const canFillQualifiers = groupFixtures.length > 0 &&
+    groupFixtures.every(f => f.match?.status === 'completed') &&
+    fixtures.some(f => f.stage === 'knockout' && !f.match &&
+      [f.team_a_source, f.team_b_source].some(source => source?.startsWith('group:')));
+  const knockoutRounds = Math.max(0, ...fixtures.filter(f => f.stage === 'knockout').map(f => f.round || 0));
+
+  const getFixtureLabel = (fixture: Fixture) => [
+    fixture.match_number && `Match ${fixture.match_number}`,
+    fixture.stage === 'group' && fixture.group_name && `Group ${fixture.group_name}`,
+    fixture.stage === 'knockout' && fixture.round && knockoutRoundName(fixture.round, knockoutRounds)
+  ].filter(Boolean).join(' • ');
+
+  const getFixtureTeamName = (teamId: string | null, source: string | null) =>
+    teamId ? getTeamName(teamId) : formatFixtureSource(source);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8">
+        <PageHeader
+          title={tournament.name}
+          subtitle={tournament.description || `${tournament.overs} overs per innings`}
+          showBack
+          backUrl="/tournaments"
+        />
+
+        <Card className="mb-6">
+          <CardContent className="flex flex-wrap items-center gap-4 py-4 text-sm text-muted-foreground">
+            {tournament.start_date && (
+              <span className="flex items-center gap-1">
+                <Calendar className="h-4 w-4" />
+                {formatDate(tournament.start_date)}
+                {tournament.end_date && ` – ${formatDate(tournament.end_date)}`}
+              </span>
+            )}
+            {tournament.location && (
+              <span className="flex items-center gap-1">
+                <MapPin className="h-4 w-4" />
+                {tournament.location}
+              </span>
+            )}
+            <span className="flex items-center gap-1">
+              <Users className="h-4 w-4" />
+              {teams.length} teams
+            </span>
+            <Badge variant="outline" className="text-xs uppercase">{tournament.status}</Badge>
+          </CardContent>
+        </Card>
+
+        <Tabs defaultValue="matches" className="w-full">
+          <TabsList className={`grid w-full ${hasPointsTable ? 'grid-cols-4' : 'grid-cols-3'} rounded-full bg-muted p-1`}>
+            <TabsTrigger value="matches" className="rounded-full">Matches</TabsTrigger>
+            {hasPointsTable && <TabsTrigger value="points" className="rounded-full">Points Table</TabsTrigger>}
+            <TabsTrigger value="mvp" className="rounded-full">MVP</TabsTrigger>
+            <TabsTrigger value="teams" className="rounded-full">Teams</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="matches" className="space-y-4">
+            {isCreator && (
+              <div className="flex flex-wrap justify-end gap-2">
+                {canFillQualifiers && (
+                  <Button variant="outline" onClick={fillQualifiers} disabled={fillingQualifiers}>
+                    {fillingQualifiers ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <ArrowRight className="h-4 w-4 mr-2" />
+                    )}
+                    Add Qualifiers to Knockouts
+                  </Button>
+                )}
+                {fixtures.length === 0 && teams.length >= 2 && (
+                  <Dialog open={showFixturesDialog} onOpenChange={openFixturesDialog}>
+                    <DialogTrigger asChild>
+                      <Button variant="outline">
+                        <Shuffle className="h-4 w-4 mr-2" />
+                        Generate Fixtures
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Generate Fixtures</DialogTitle>
+                        <DialogDescription>
+                          Create every {tournament.format === 'knockout' ? 'knockout' : tournament.format === 'groups' ? 'group and knockout' : 'league'} match
+                          for {teams.length} teams. Teams are seeded in the order listed under Teams.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="fixtures-start-date">Start Date</Label>
+                            <Input
+                              id="fixtures-start-date"
+                              type="date"
+                              value={fixtureForm.start_date}
+                              onChange={(e) => setFixtureForm(prev => ({ ...prev, start_date: e.target.value }))}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="fixtures-time">Start Time</Label>
+                            <Input
+                              id="fixtures-time"
+                              type="time"
+                              value={fixtureForm.time}
+                              onChange={(e) => setFixtureForm(prev => ({ ...prev, time: e.target.value }))}
+                            />
+                          </div>
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="fixtures-per-day">Matches per Day</Label>
+                          <Input
+                            id="fixtures-per-day"
+                            type="number"
+                            min="1"
+                            max="20"
+                            value={fixtureForm.matches_per_day}
+                            onChange={(e) => {
+                              const value = parseInt(e.target.value) || 1;
+                              setFixtureForm(prev => ({ ...prev, matches_per_day: Math.min(Math.max(value, 1), 20) }));
+                            }}
+                          />
+                        </div>
+                        {tournament.format === 'groups' && (
+                          <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="fixtures-groups">Groups</Label>
+                              <Input
+                                id="fixtures-groups"
+                                type="number"
+                                min="1"
+                                max={Math.max(Math.floor(teams.length / 2), 1)}
+                                value={fixtureForm.group_count}
+                                onChange={(e) => {
+                                  const value = parseInt(e.target.value) || 1;
+                                  setFixtureForm(prev => ({ ...prev, group_count: Math.min(Math.max(value, 1), Math.max(Math.floor(teams.length / 2), 1)) }));
+                                }}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="fixtures-qualifiers">Qualifiers per Group</Label>
+                              <Input
+                                id="fixtures-qualifiers"
+                                type="number"
+                                min="1"
+                                value={fixtureForm.qualifiers_per_group}
+                                onChange={(e) => {
+                                  const value = parseInt(e.target.value) || 1;
+                                  setFixtureForm(prev => ({ ...prev, qualifiers_per_group: Math.max(value, 1) }));
+                                }}
+                              />
+                            </div>
+                          </div>
+                        )}
+                        {tournament.format !== 'knockout' && (
+                          <div className="flex items-center space-x-2">
+                            <Checkbox
+                              id="fixtures-double"
+                              checked={fixtureForm.double_round_robin}
+                              onCheckedChange={(checked) => setFixtureForm(prev => ({ ...prev, double_round_robin: checked === true }))}
+                            />
+                            <Label htmlFor="fixtures-double" className="text-sm font-normal">
+                              Double round-robin (teams meet twice)
+                            </Label>
+                          </div>
+                        )}
+                        {plannedFixtures.length > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            {plannedFixtures.length} matches from {plannedFixtures[0].date} to {plannedFixtures[plannedFixtures.length - 1].date}
+                          </p>
+                        )}
+                        <div className="flex gap-2 pt-4">
+                          <Button onClick={generateTournamentFixtures} disabled={generating || plannedFixtures.length === 0}>
+                            {generating ? (
+                              <>
+                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                Generating...
+                              </>
+                            ) : (
+                              'Generate'
+                            )}
+                          </Button>
+                          <Button variant="outline" onClick={() => setShowFixturesDialog(false)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    </DialogContent>
+                  </Dialog>
+                )}
+                <Link to={`/matches?tournament=${tournament.id}`}>
+                  <Button>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Match
+                  </Button>
+                </Link>
+              </div>
+            )}
+
+            {fixtures.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-12">
+                  <Trophy className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No Matches Yet</h3>
+                  <p className="text-muted-foreground">
+                    Matches created for this tournament will appear here.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {fixtures.map((fixture) => {
+                  const match = fixture.match;
+                  const label = getFixtureLabel(fixture);
+                  const card = (
+                    <Card className={match ? 'hover:shadow-md transition-shadow' : 'border-dashed'}>
+                      <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 py-4">
+                        <div>
+                          {label && <p className="text-xs text-muted-foreground">{label}</p>}
+                          <p className="font-semibold text-sm">
+                            {match
+                              ? `${match.team_a.name} vs ${match.team_b.name}`
+                              : `${getFixtureTeamName(fixture.team_a_id, fixture.team_a_source)} vs ${getFixtureTeamName(fixture.team_b_id, fixture.team_b_source)}`}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {match ? (
+                              <>
+                                {formatDate(match.date)} • {formatTime(match.time)}
+                                {match.location && ` • ${match.location}`}
+                              </>
+                            ) : (
+                              <>
+                                {fixture.scheduled_date && formatDate(fixture.scheduled_date)}
+                                {fixture.scheduled_time && ` • ${formatTime(fixture.scheduled_time)}`}
+                              </>
+                            )}
+                          </p>
+                        </div>
+                        <div className="text-left sm:text-right">
+                          {!match ? (
+                            <Badge variant="secondary" className="text-xs uppercase">Awaiting teams</Badge>
+                          ) : match.status === 'completed' ? (
+                            <p className="text-sm font-medium">{getMatchResultText(match) || 'Completed'}</p>
+                          ) : (
+                            <Badge variant="outline" className="text-xs uppercase">
+                              {match.status.replace('_', ' ')}
+                            </Badge>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+
+                  return match ? (
+                    <Link key={fixture.id} to={`/matches/${match.id}`} className="block">
+                      {card}
+                    </Link>
+                  ) : (
+                    <div key={fixture.id}>{card}</div>
+                  );
+                })}
+              </div>
+            )}
+          </TabsContent>
+
+          {hasPointsTable && (
+            <TabsContent value="points" className="space-y-4">
+              {isCreator && (
+                <div className="flex justify-end">
+                  <Dialog
+                    open={showSettingsDialog}
+                    onOpenChange={(open) => {
+                      setShowSettingsDialog(open);
+                      if (open) setSettingsForm(getPointsSettings(tournament));
+                    }}
+                  >
+                    <DialogTrigger asChild>
+                      <Button variant="outline">
+                        <Settings className="h-4 w-4 mr-2" />
+                        Points Settings
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Points Table Settings</DialogTitle>
+                        <DialogDescription>
+                          Points for each result, and how teams level on points are separated.
+                        </DialogDescription>
+                      </DialogHeader>
+                      {settingsForm && (
+                        <div className="space-y-4">
+                          <div className="grid grid-cols-3 gap-4">
+                            <div className="space-y-2">
+                              <Label htmlFor="points-win">Win</Label>
+                              <Input
+                                id="points-win"
+                                type="number"
+                                min="0"
+                                value={settingsForm.pointsForWin}
+                                onChange={(e) => setSettingsForm(prev => prev ? { ...prev, pointsForWin: Math.max(parseInt(e.target.value) || 0, 0) } : prev)}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="points-tie">Tie</Label>
+                              <Input
+                                id="points-tie"
+                                type="number"
+                                min="0"
+                                value={settingsForm.pointsForTie}
+                                onChange={(e) => setSettingsForm(prev => prev ? { ...prev, pointsForTie: Math.max(parseInt(e.target.value) || 0, 0) } : prev)}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor="points-nr">No Result</Label>
+                              <Input
+                                id="points-nr"
+                                type="number"
+                                min="0"
+                                value={settingsForm.pointsForNoResult}
+                                onChange={(e) => setSettingsForm(prev => prev ? { ...prev, pointsForNoResult: Math.max(parseInt(e.target.value) || 0, 0) } : prev)}
+                              />
+                            </div>
+                          </div>
+                          {[0, 1, 2, 3].map(slot => (
+                            <div key={slot} className="space-y-2">
+                              <Label>Tie-breaker {slot + 1}</Label>
+                              <Select
+                                value={settingsForm.tieBreakers[slot] || 'none'}
+                                onValueChange={(value) => setTieBreaker(slot, value)}
+                                disabled={slot > settingsForm.tieBreakers.length}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="None" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">None</SelectItem>
+                                  {(Object.keys(TIE_BREAKER_LABELS) as TieBreaker[]).map(tieBreaker => (
+                                    <SelectItem key={tieBreaker} value={tieBreaker}>
+                                      {TIE_BREAKER_LABELS[tieBreaker]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          ))}
+                          <div className="flex gap-2 pt-4">
+                            <Button onClick={saveSettings} disabled={savingSettings}>
+                              {savingSettings ? (
+                                <>
+                                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                  Saving...
+                                </>
+                              ) : (
+                                'Save Settings'
+                              )}
+                            </Button>
+                            <Button variant="outline" onClick={() => setShowSettingsDialog(false)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </DialogContent>
+                  </Dialog>
+                </div>
+              )}
+
+              {pointsTables.map(table => (
+                <Card key={table.name || 'league'}>
+                  {table.name && (
+                    <CardHeader className="pb-0">
+                      <CardTitle className="text-base">Group {table.name}</CardTitle>
+                    </CardHeader>
+                  )}
+                  <CardContent className="pt-6">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>#</TableHead>
+                          <TableHead>Team</TableHead>
+                          <TableHead>P</TableHead>
+                          <TableHead>W</TableHead>
+                          <TableHead>L</TableHead>
+                          <TableHead>T</TableHead>
+                          <TableHead>NR</TableHead>
+                          <TableHead>Pts</TableHead>
+                          <TableHead>NRR</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {table.rows.map((row, index) => (
+                          <TableRow key={row.teamId}>
+                            <TableCell>{index + 1}</TableCell>
+                            <TableCell className="font-medium">{getTeamName(row.teamId)}</TableCell>
+                            <TableCell>{row.played}</TableCell>
+                            <TableCell>{row.won}</TableCell>
+                            <TableCell>{row.lost}</TableCell>
+                            <TableCell>{row.tied}</TableCell>
+                            <TableCell>{row.noResult}</TableCell>
+                            <TableCell className="font-semibold">{row.points}</TableCell>
+                            <TableCell>{formatNetRunRate(row.nrr)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Win {tournament.points_for_win} • Tie {tournament.points_for_tie} • No result {tournament.points_for_no_result} pts.
+                {tournament.tie_breakers?.length > 0 && ` Level on points: ${tournament.tie_breakers.map(t => TIE_BREAKER_LABELS[t]).join(', ')}.`}
+              </p>
+            </TabsContent>
+          )}
+
+          <TabsContent value="mvp" className="space-y-4">
+            <TournamentMvpCard
+              tournamentId={tournament.id}
+              mvpRules={tournament.mvp_rules}
+              canEditRules={isCreator}
+              onRulesSaved={(rules) => setTournament(prev => prev ? { ...prev, mvp_rules: rules } : prev)}
+            />
+          </TabsContent>
+
+          <TabsContent value="teams" className="space-y-4">
+            {isCreator && (
+              <div className="flex justify-end">
+                <Dialog open={showAddTeamsDialog} onOpenChange={setShowAddTeamsDialog}>
+                  <DialogTrigger asChild>
+                    <Button disabled={availableTeams.length === 0}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Teams
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Add Teams</DialogTitle>
+                      <DialogDescription>
+                        Pick the teams joining {tournament.name}.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="max-h-60 overflow-y-auto space-y-2 border rounded-md p-3">
+                      {availableTeams.map((team) => (
+                        <div key={team.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`add-team-${team.id}`}
+                            checked={selectedTeamIds.includes(team.id)}
+                            onCheckedChange={(checked) => setSelectedTeamIds(prev =>
+                              checked ? [...prev, team.id] : prev.filter(id => id !== team.id)
+                            )}
+                          />
+                          <Label htmlFor={`add-team-${team.id}`} className="text-sm font-normal">
+                            {team.name}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex gap-2 pt-4">
+                      <Button onClick={addTeams} disabled={addingTeams || selectedTeamIds.length === 0}>
+                        {addingTeams ? (
+                          <>
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            Adding...
+                          </>
+                        ) : (
+                          'Add Teams'
+                        )}
+                      </Button>
+                      <Button variant="outline" onClick={() => setShowAddTeamsDialog(false)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </DialogContent>
+                </Dialog>
+              </div>
+            )}
+
+            {teams.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-12">
+                  <Users className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-semibold mb-2">No Teams Yet</h3>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {teams.map((team) => (
+                  <Card key={team.id}>
+                    <CardHeader className="pb-3">
+                      <div className="flex items-center gap-3">
+                        <Avatar className="h-8 w-8">
+                          <AvatarImage src={team.logo_url || ''} />
+                          <AvatarFallback className="text-sm">
+                            {team.name.charAt(0).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1 min-w-0">
+                          <CardTitle className="text-sm truncate">
+                            <Link to={`/teams/${team.id}`} className="hover:underline">{team.name}</Link>
+                          </CardTitle>
+                          {team.captain && (
+                            <CardDescription className="flex items-center gap-1 text-xs">
+                              <Crown className="h-3 w-3" />
+                              {team.captain.name}
+                            </CardDescription>
+                          )}
+                        </div>
+                        {isCreator && !teamsWithMatches.has(team.id) && (
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="outline" size="sm">
+                                <UserMinus className="h-4 w-4" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Remove Team</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Remove {team.name} from {tournament.name}?
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => removeTeam(team.id)}>
+                                  Remove
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        )}
+                      </div>
+                    </CardHeader>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default TournamentDetail;
@@ -0,0 +1,419 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus, Trophy, Users, Calendar } from 'lucide-react';
+import Navigation from '@/components/Navigation';
+import PageHeader from '@/components/PageHeader';
+import { Link } from 'react-router-dom';
+import { fetchTournaments } from '@/lib/db';
+
+interface Team {
+  id: string;
+  name: string;
+  logo_url: string | null;
+}
+
+interface Tournament {
+  id: string;
+  name: string;
+  description: string | null;
+  location: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  overs: number;
+  format: 'league' | 'groups' | 'knockout';
+  status: 'upcoming' | 'ongoing' | 'completed';
+  created_by: string;
+  created_at: string;
+  team_count: number;
+}
+
+const Tournaments = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    location: '',
+    start_date: '',
+    end_date: '',
+    overs: 20,
+    format: 'league' as Tournament['format'],
+    team_ids: [] as string[]
+  });
+
+  const fetchData = useCallback(async () => {
+    try {
+      // Fetch teams for the participant picker
+      const { data: teamsData, error: teamsError } = await supabase
+        .from('teams')
+        .select('id, name, logo_url')
+        .order('name');
+
+      if (teamsError) throw teamsError;
+      setTeams(teamsData || []);
+
+      // Fetch tournaments with participating team count
+      setTournaments(await fetchTournaments());
+    } catch (error) {
+      console.error('Error fetching tournaments:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load tournaments",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, fetchData]);
+
+  const toggleTeam = (teamId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      team_ids: checked
+        ? [...prev.team_ids, teamId]
+        : prev.team_ids.filter(id => id !== teamId)
+    }));
+  };
+
+  const handleCreateTournament = async () => {
+    if (!user || !formData.name.trim()) return;
+
+    if (formData.team_ids.length < 2) {
+      toast({
+        title: "Error",
+        description: "Select at least two teams for the tournament",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.start_date && formData.end_date && formData.end_date < formData.start_date) {
+      toast({
+        title: "Error",
+        description: "End date cannot be before the start date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setCreating(true);
+    try {
+      // Get user's profile ID
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('user_id', user.id)
+        .single();
+
+      if (!profile) throw new Error('Profile not found');
+
+      // Create tournament
+      const { data: tournament, error: tournamentError } = await supabase
+        .from('tournaments')
+        .insert({
+          name: formData.name.trim(),
+          description: formData.description.trim() || null,
+          location: formData.location.trim() || null,
+          start_date: formData.start_date || null,
+          end_date: formData.end_date || null,
+          overs: formData.overs,
+          format: formData.format,
+          created_by: profile.id
+        })
+        .select()
+        .single();
+
+      if (tournamentError) throw tournamentError;
+
+      // Add participating teams
+      const { error: teamsError } = await supabase
+        .from('tournament_teams')
+        .insert(formData.team_ids.map(teamId => ({
+          tournament_id: tournament.id,
+          team_id: teamId
+        })));
+
+      if (teamsError) throw teamsError;
+
+      setShowCreateDialog(false);
+      setFormData({ name: '', description: '', location: '', start_date: '', end_date: '', overs: 20, format: 'league', team_ids: [] });
+
+      await fetchData();
+      toast({
+        title: "Success",
+        description: "Tournament created successfully!"
+      });
+    } catch (error) {
+      console.error('Error creating tournament:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create tournament",
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const getStatusBadge = (status: Tournament['status']) => {
+    if (status === 'ongoing') return <Badge className="bg-green-100 text-green-800 text-xs">ONGOING</Badge>;
+    if (status === 'completed') return <Badge variant="secondary" className="text-xs">COMPLETED</Badge>;
+    return <Badge variant="outline" className="text-xs">UPCOMING</Badge>;
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navigation />
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-8">
+        <PageHeader
+          title="Tournaments"
+          subtitle="Run a season of matches between your teams"
+        />
+
+        <div className="flex justify-end mb-8">
+          <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Create Tournament
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Create New Tournament</DialogTitle>
+                <DialogDescription>
+                  Name the tournament and pick the teams taking part.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="tournament-name">Tournament Name</Label>
+                  <Input
+                    id="tournament-name"
+                    value={formData.name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g., Summer League 2025"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tournament-description">Description (Optional)</Label>
+                  <Textarea
+                    id="tournament-description"
+                    value={formData.description}
+                    onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                    placeholder="Describe the tournament"
+                    rows={3}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tournament-location">Location (Optional)</Label>
+                  <Input
+                    id="tournament-location"
+                    value={formData.location}
+                    onChange={(e) => setFormData(prev => ({ ...prev, location: e.target.value }))}
+                    placeholder="e.g., City Cricket Ground"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="tournament-start">Start Date</Label>
+                    <Input
+                      id="tournament-start"
+                      type="date"
+                      value={formData.start_date}
+                      onChange={(e) => setFormData(prev => ({ ...prev, start_date: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="tournament-end">End Date</Label>
+                    <Input
+                      id="tournament-end"
+                      type="date"
+                      value={formData.end_date}
+                      onChange={(e) => setFormData(prev => ({ ...prev, end_date: e.target.value }))}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tournament-overs">Overs per Innings</Label>
+                  <Input
+                    id="tournament-overs"
+                    type="number"
+                    min="1"
+                    max="999"
+                    value={formData.overs}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value) || 1;
+                      setFormData(prev => ({ ...prev, overs: Math.min(Math.max(value, 1), 999) }));
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Format</Label>
+                  <Select
+                    value={formData.format}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, format: value as Tournament['format'] }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="league">League</SelectItem>
+                      <SelectItem value="groups">Groups</SelectItem>
+                      <SelectItem value="knockout">Knockout</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Teams ({formData.team_ids.length} selected)</Label>
+                  {teams.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No teams yet. Create teams first.</p>
+                  ) : (
+                    <div className="max-h-48 overflow-y-auto space-y-2 border rounded-md p-3">
+                      {teams.map((team) => (
+                        <div key={team.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`team-${team.id}`}
+                            checked={formData.team_ids.includes(team.id)}
+                            onCheckedChange={(checked) => toggleTeam(team.id, checked as boolean)}
+                          />
+                          <Label htmlFor={`team-${team.id}`} className="text-sm font-normal">
+                            {team.name}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2 pt-4">
+                  <Button onClick={handleCreateTournament} disabled={creating || !formData.name.trim() || formData.team_ids.length < 2}>
+                    {creating ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Creating...
+                      </>
+                    ) : (
+                      'Create Tournament'
+                    )}
+                  </Button>
+                  <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {tournaments.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Trophy className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No Tournaments Yet</h3>
+              <p className="text-muted-foreground mb-4">
+                Create a tournament to schedule a season of matches.
+              </p>
+              <Button onClick={() => setShowCreateDialog(true)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create First Tournament
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+            {tournaments.map((tournament) => (
+              <Card key={tournament.id} className="relative">
+                <CardHeader className="pb-2">
+                  <div className="flex items-center gap-3">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src="" />
+                      <AvatarFallback className="text-sm">
+                        {tournament.name.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-sm truncate">{tournament.name}</CardTitle>
+                      {tournament.start_date && (
+                        <CardDescription className="flex items-center gap-1 text-xs">
+                          <Calendar className="h-3 w-3" />
+                          {formatDate(tournament.start_date)}
+                          {tournament.end_date && ` – ${formatDate(tournament.end_date)}`}
+                        </CardDescription>
+                      )}
+                    </div>
+                    {getStatusBadge(tournament.status)}
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-0 pb-3">
+                  {tournament.description && (
+                    <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
+                      {tournament.description}
+                    </p>
+                  )}
+
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Users className="h-3 w-3" />
+                      {tournament.team_count} teams • {tournament.overs} overs • <span className="capitalize">{tournament.format}</span>
+                    </div>
+
+                    <Link to={`/tournaments/${tournament.id}`}>
+                      <Button variant="outline" size="sm" className="text-xs px-3 py-1">
+                        <Trophy className="h-3 w-3 mr-1" />
+                        View
+                      </Button>
+                    </Link>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Tournaments;
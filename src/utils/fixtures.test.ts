@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bracketOrder,
+  formatFixtureSource,
+  generateFixtures,
+  roundRobinRounds,
+  type FixtureOptions
+} from '@/utils/fixtures';
+
+const teams = (count: number) => Array.from({ length: count }, (_, i) => `t${i + 1}`);
+
+const pairKey = ([a, b]: [string, string]) => [a, b].sort().join('-');
+
+const options = (overrides: Partial<FixtureOptions>): FixtureOptions => ({
+  format: 'league',
+  teamIds: teams(4),
+  doubleRoundRobin: false,
+  groupCount: 2,
+  qualifiersPerGroup: 2,
+  startDate: '2025-09-01',
+  matchesPerDay: 2,
+  ...overrides
+});
+
+describe('roundRobinRounds', () => {
+  it.each([2, 3, 4, 5, 6, 7, 8])('pairs %i teams so every pair meets exactly once', count => {
+    const rounds = roundRobinRounds(teams(count));
+    const pairs = rounds.flat();
+
+    expect(pairs).toHaveLength((count * (count - 1)) / 2);
+    expect(new Set(pairs.map(pairKey)).size).toBe(pairs.length);
+  });
+
+  it('needs one round fewer than the teams when the count is even', () => {
+    const rounds = roundRobinRounds(teams(6));
+
+    expect(rounds).toHaveLength(5);
+    rounds.forEach(pairs => {
+      expect(pairs).toHaveLength(3);
+      expect(new Set(pairs.flat()).size).toBe(6);
+    });
+  });
+
+  it('gives each team one bye when the count is odd', () => {
+    const teamIds = teams(5);
+    const rounds = roundRobinRounds(teamIds);
+
+    expect(rounds).toHaveLength(5);
+    const sittingOut = rounds.map(pairs => {
+      expect(pairs).toHaveLength(2);
+      const playing = new Set(pairs.flat());
+      return teamIds.filter(teamId => !playing.has(teamId));
+    });
+    expect(sittingOut.flat().sort()).toEqual(teamIds);
+  });
+
+  it('plays the second leg with home and away swapped', () => {
+    const rounds = roundRobinRounds(teams(4), true);
+    const firstLeg = rounds.slice(0, 3).flat();
+    const secondLeg = rounds.slice(3).flat();
+
+    expect(rounds).toHaveLength(6);
+    expect(secondLeg).toEqual(firstLeg.map(([a, b]) => [b, a]));
+    expect(new Set(rounds.flat().map(([a, b]) => `${a}-${b}`)).size).toBe(12);
+  });
+});
+
+describe('bracketOrder', () => {
+  it('keeps the top two seeds apart until the final', () => {
+    expect(bracketOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe('formatFixtureSource', () => {
+  it('describes group places and earlier winners', () => {
+    expect(formatFixtureSource('group:A:1')).toBe('Winner Group A');
+    expect(formatFixtureSource('group:B:2')).toBe('Runner-up Group B');
+    expect(formatFixtureSource('group:C:3')).toBe('Group C #3');
+    expect(formatFixtureSource('winner:7')).toBe('Winner of Match 7');
+    expect(formatFixtureSource(null)).toBe('TBD');
+  });
+});
+
+describe('generateFixtures', () => {
+  it('schedules a league up to the daily limit', () => {
+    const fixtures = generateFixtures(options({ teamIds: teams(5) }));
+
+    expect(fixtures).toHaveLength(10);
+    expect(fixtures.map(f => f.matchNumber)).toEqual(Array.from({ length: 10 }, (_, i) => i + 1));
+    expect(fixtures.map(f => f.date).slice(0, 3)).toEqual(['2025-09-01', '2025-09-01', '2025-09-02']);
+    expect(fixtures[9].date).toBe('2025-09-05');
+  });
+
+  it('gives the top seeds the byes in a knockout of an odd number of teams', () => {
+    const fixtures = generateFixtures(options({ format: 'knockout', teamIds: teams(5) }));
+
+    // Seeds 4 and 5 play off; the other three go straight into the semi-finals
+    expect(fixtures).toHaveLength(4);
+    expect(fixtures[0]).toMatchObject({ round: 1, teamAId: 't4', teamBId: 't5', nextFixture: 1, nextSlot: 'b' });
+    expect(fixtures[1]).toMatchObject({ round: 2, teamAId: 't1', teamBId: null, teamBSource: 'winner:1' });
+    expect(fixtures[2]).toMatchObject({ round: 2, teamAId: 't2', teamBId: 't3' });
+    expect(fixtures[3]).toMatchObject({ round: 3, teamASource: 'winner:2', teamBSource: 'winner:3', nextFixture: null });
+
+    // Each knockout round waits for the one before
+    expect(new Set(fixtures.map(f => f.date)).size).toBe(3);
+  });
+
+  it('seeds group winners against runners-up from the other group', () => {
+    const fixtures = generateFixtures(options({ format: 'groups', teamIds: teams(8) }));
+    const groupStage = fixtures.filter(f => f.stage === 'group');
+    const knockout = fixtures.filter(f => f.stage === 'knockout');
+
+    expect(groupStage).toHaveLength(12);
+    expect(new Set(groupStage.map(f => pairKey([f.teamAId as string, f.teamBId as string]))).size).toBe(12);
+    expect(knockout.map(f => [f.teamASource, f.teamBSource])).toEqual([
+      ['group:A:1', 'group:B:2'],
+      ['group:B:1', 'group:A:2'],
+      ['winner:13', 'winner:14']
+    ]);
+  });
+
+  it('needs at least two teams', () => {
+    expect(generateFixtures(options({ teamIds: ['t1'] }))).toEqual([]);
+  });
+});
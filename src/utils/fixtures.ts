@@ -0,0 +1,276 @@
+// Tournament fixture generation: round-robin, groups with qualifiers and knockout brackets
+
+export type FixtureStage = 'league' | 'group' | 'knockout';
+
+export type TournamentFormat = 'league' | 'groups' | 'knockout';
+
+export interface FixtureOptions {
+  format: TournamentFormat;
+  teamIds: string[];
+  doubleRoundRobin: boolean;
+  groupCount: number;
+  qualifiersPerGroup: number;
+  startDate: string;
+  matchesPerDay: number;
+}
+
+export interface PlannedFixture {
+  stage: FixtureStage;
+  groupName: string | null;
+  round: number;
+  matchNumber: number;
+  teamAId: string | null;
+  teamBId: string | null;
+  // Where a team still to be decided comes from, e.g. 'group:A:1' or 'winner:7'
+  teamASource: string | null;
+  teamBSource: string | null;
+  date: string;
+  // Index into the plan of the fixture the winner moves on to
+  nextFixture: number | null;
+  nextSlot: 'a' | 'b' | null;
+}
+
+interface BracketEntrant {
+  teamId: string | null;
+  source: string | null;
+}
+
+type UnscheduledFixture = Omit<PlannedFixture, 'matchNumber' | 'date'>;
+
+/**
+ * Pairs teams so each plays every other once per leg (circle method)
+ * @param teamIds - Teams to pair
+ * @param doubleRoundRobin - Add a second leg with home and away swapped
+ * @returns Rounds of pairings; a team sits out a round when the count is odd
+ */
+export const roundRobinRounds = (teamIds: string[], doubleRoundRobin = false): [string, string][][] => {
+  const slots: (string | null)[] = teamIds.length % 2 === 0 ? [...teamIds] : [...teamIds, null];
+  const rounds: [string, string][][] = [];
+
+  for (let round = 0; round < slots.length - 1; round++) {
+    const pairs: [string, string][] = [];
+    for (let i = 0; i < slots.length / 2; i++) {
+      const home = slots[i];
+      const away = slots[slots.length - 1 - i];
+      if (home && away) {
+        // Alternate who is listed first so no team is always team A
+        pairs.push(round % 2 === 0 ? [home, away] : [away, home]);
+      }
+    }
+    rounds.push(pairs);
+    // Keep the first slot fixed and rotate the rest
+    slots.splice(1, 0, slots.pop() as string | null);
+  }
+
+  if (!doubleRoundRobin) return rounds;
+  return [...rounds, ...rounds.map(pairs => pairs.map(([a, b]) => [b, a] as [string, string]))];
+};
+
+/**
+ * Seeds in bracket order so the top two seeds can only meet in the final
+ * @param size - Bracket size (a power of two)
+ * @returns 1-based seeds, paired off two at a time for the first round
+ */
+export const bracketOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const length = order.length * 2;
+    order = order.flatMap(seed => [seed, length + 1 - seed]);
+  }
+  return order;
+};
+
+/**
+ * Names a knockout round by how far it is from the final
+ * @param round - Round number, starting at 1
+ * @param totalRounds - Rounds in the bracket
+ * @returns "Final", "Semi-final", "Quarter-final" or "Round N"
+ */
+export const knockoutRoundName = (round: number, totalRounds: number): string => {
+  const fromFinal = totalRounds - round;
+  if (fromFinal === 0) return 'Final';
+  if (fromFinal === 1) return 'Semi-final';
+  if (fromFinal === 2) return 'Quarter-final';
+  return `Round ${round}`;
+};
+
+/**
+ * Describes where a team still to be decided will come from
+ * @param source - A fixture source such as 'group:A:1' or 'winner:7'
+ * @returns Text like "Winner Group A" or "Winner of Match 7"
+ */
+export const formatFixtureSource = (source: string | null): string => {
+  if (!source) return 'TBD';
+  const [kind, ...parts] = source.split(':');
+  if (kind === 'winner') return `Winner of Match ${parts[0]}`;
+  if (kind === 'group') {
+    const [groupName, position] = parts;
+    if (position === '1') return `Winner Group ${groupName}`;
+    if (position === '2') return `Runner-up Group ${groupName}`;
+    return `Group ${groupName} #${position}`;
+  }
+  return 'TBD';
+};
+
+const groupName = (index: number) => String.fromCharCode(65 + index);
+
+// Single-elimination bracket. Top seeds get the byes and go straight into round 2.
+const knockoutFixtures = (entrants: BracketEntrant[], offset: number): UnscheduledFixture[] => {
+  let size = 2;
+  while (size < entrants.length) size *= 2;
+  const totalRounds = Math.log2(size);
+
+  // Every slot of the full bracket, round by round
+  const fixtures: UnscheduledFixture[] = [];
+  const roundStart: number[] = [];
+  for (let round = 1; round <= totalRounds; round++) {
+    roundStart.push(fixtures.length);
+    const count = size / 2 ** round;
+    for (let i = 0; i < count; i++) {
+      fixtures.push({
+        stage: 'knockout',
+        groupName: null,
+        round,
+        teamAId: null,
+        teamBId: null,
+        teamASource: null,
+        teamBSource: null,
+        nextFixture: round < totalRounds ? roundStart[round - 1] + count + Math.floor(i / 2) : null,
+        nextSlot: round < totalRounds ? (i % 2 === 0 ? 'a' : 'b') : null
+      });
+    }
+  }
+
+  const order = bracketOrder(size);
+  const byes = new Set<number>();
+  for (let i = 0; i < size / 2; i++) {
+    const a = entrants[order[i * 2] - 1];
+    const b = entrants[order[i * 2 + 1] - 1];
+    const fixture = fixtures[i];
+    if (a && b) {
+      Object.assign(fixture, { teamAId: a.teamId, teamBId: b.teamId, teamASource: a.source, teamBSource: b.source });
+    } else {
+      // A bye: the seeded entrant moves straight into the next round
+      const entrant = (a || b) as BracketEntrant;
+      const next = fixtures[fixture.nextFixture as number];
+      if (fixture.nextSlot === 'a') Object.assign(next, { teamAId: entrant.teamId, teamASource: entrant.source });
+      else Object.assign(next, { teamBId: entrant.teamId, teamBSource: entrant.source });
+      byes.add(i);
+    }
+  }
+
+  // Drop the bye slots and renumber links into the plan
+  const kept = fixtures.map((_, index) => index).filter(index => !byes.has(index));
+  const position = new Map(kept.map((index, i) => [index, offset + i]));
+  const planned = kept.map(index => ({
+    ...fixtures[index],
+    nextFixture: fixtures[index].nextFixture === null ? null : position.get(fixtures[index].nextFixture as number) ?? null
+  }));
+
+  // Later rounds wait on the winners of earlier fixtures
+  planned.forEach((fixture, i) => {
+    if (fixture.nextFixture === null) return;
+    const next = planned[fixture.nextFixture - offset];
+    const source = `winner:${offset + i + 1}`;
+    if (fixture.nextSlot === 'a') next.teamASource = source;
+    else next.teamBSource = source;
+  });
+
+  return planned;
+};
+
+const roundRobinFixtures = (teamIds: string[], doubleRoundRobin: boolean, stage: FixtureStage, group: string | null) =>
+  roundRobinRounds(teamIds, doubleRoundRobin).map((pairs, round) =>
+    pairs.map(([teamAId, teamBId]): UnscheduledFixture => ({
+      stage,
+      groupName: group,
+      round: round + 1,
+      teamAId,
+      teamBId,
+      teamASource: null,
+      teamBSource: null,
+      nextFixture: null,
+      nextSlot: null
+    }))
+  );
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+};
+
+/**
+ * Gives each fixture a date, filling each day up to the daily limit. A new knockout
+ * round always starts on a fresh day because it depends on the previous results.
+ * @param fixtures - Fixtures in playing order
+ * @param startDate - First match day (YYYY-MM-DD)
+ * @param matchesPerDay - Matches that can be played in a day
+ * @returns The fixtures numbered and dated
+ */
+const scheduleFixtures = (fixtures: UnscheduledFixture[], startDate: string, matchesPerDay: number): PlannedFixture[] => {
+  let day = 0;
+  let playedToday = 0;
+
+  return fixtures.map((fixture, index) => {
+    const previous = fixtures[index - 1];
+    const newStage = previous && fixture.stage === 'knockout' &&
+      (previous.stage !== 'knockout' || previous.round !== fixture.round);
+    if (playedToday >= Math.max(matchesPerDay, 1) || (newStage && playedToday > 0)) {
+      day += 1;
+      playedToday = 0;
+    }
+    playedToday += 1;
+
+    return { ...fixture, matchNumber: index + 1, date: addDays(startDate, day) };
+  });
+};
+
+/**
+ * Builds the full fixture list for a tournament
+ * @param options - Format, teams in seed order and scheduling settings
+ * @returns Fixtures in playing order, numbered from 1
+ */
+export const generateFixtures = (options: FixtureOptions): PlannedFixture[] => {
+  const { format, teamIds, doubleRoundRobin, startDate, matchesPerDay } = options;
+  if (teamIds.length < 2) return [];
+
+  if (format === 'knockout') {
+    const entrants = teamIds.map(teamId => ({ teamId, source: null }));
+    return scheduleFixtures(knockoutFixtures(entrants, 0), startDate, matchesPerDay);
+  }
+
+  if (format === 'league') {
+    return scheduleFixtures(roundRobinFixtures(teamIds, doubleRoundRobin, 'league', null).flat(), startDate, matchesPerDay);
+  }
+
+  // Snake seeding spreads the top seeds across the groups
+  const groupCount = Math.min(Math.max(options.groupCount, 1), Math.floor(teamIds.length / 2));
+  const groups: string[][] = Array.from({ length: groupCount }, () => []);
+  teamIds.forEach((teamId, index) => {
+    const pass = Math.floor(index / groupCount);
+    const slot = index % groupCount;
+    groups[pass % 2 === 0 ? slot : groupCount - 1 - slot].push(teamId);
+  });
+
+  // Play the groups side by side, round by round
+  const groupRounds = groups.map((groupTeams, index) =>
+    roundRobinFixtures(groupTeams, doubleRoundRobin, 'group', groupName(index))
+  );
+  const roundCount = Math.max(...groupRounds.map(rounds => rounds.length));
+  const groupFixtures: UnscheduledFixture[] = [];
+  for (let round = 0; round < roundCount; round++) {
+    groupRounds.forEach(rounds => groupFixtures.push(...(rounds[round] || [])));
+  }
+
+  // Group winners are seeded first, then runners-up, so teams from the same group meet late
+  const smallestGroup = Math.min(...groups.map(groupTeams => groupTeams.length));
+  const qualifiers = Math.min(Math.max(options.qualifiersPerGroup, 1), smallestGroup);
+  const entrants: BracketEntrant[] = [];
+  for (let position = 1; position <= qualifiers; position++) {
+    groups.forEach((_, index) => entrants.push({ teamId: null, source: `group:${groupName(index)}:${position}` }));
+  }
+
+  const knockout = entrants.length >= 2 ? knockoutFixtures(entrants, groupFixtures.length) : [];
+  return scheduleFixtures([...groupFixtures, ...knockout], startDate, matchesPerDay);
+};
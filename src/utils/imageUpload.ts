@@ -0,0 +1,86 @@
+// Checks and prepares photos and logos in the browser before they are uploaded
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+export const MAX_IMAGE_FILE_SIZE = 10 * 1024 * 1024; // Before resizing
+export const IMAGE_SIZE = 512; // Width and height of the stored square image
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+/**
+ * Picks the file extension for a prepared image from the format the browser actually encoded
+ * @param image - The prepared image
+ * @returns The extension, without the dot
+ */
+export const getImageExtension = (image: Blob): string => IMAGE_EXTENSIONS[image.type] ?? 'png';
+
+/**
+ * Checks that a chosen file is an image we accept and not too large to process
+ * @param file - The file the user picked
+ * @returns An error message, or null when the file is fine
+ */
+export const validateImageFile = (file: File): string | null => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return 'Please choose a JPEG, PNG or WebP image';
+  }
+  if (file.size > MAX_IMAGE_FILE_SIZE) {
+    return 'Please choose an image smaller than 10 MB';
+  }
+  return null;
+};
+
+const loadImage = (file: File): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(image);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('The image could not be read'));
+  };
+  image.src = url;
+});
+
+/**
+ * Crops an image to a centred square and scales it down
+ * @param file - The image the user picked
+ * @param size - Width and height of the result in pixels
+ * @returns A WebP image ready to upload. Browsers that cannot encode WebP, such as Safari,
+ * return a PNG instead, so read the format from the blob's type.
+ */
+export const cropAndResizeImage = async (file: File, size = IMAGE_SIZE): Promise<Blob> => {
+  const image = await loadImage(file);
+  const side = Math.min(image.naturalWidth, image.naturalHeight);
+  const output = Math.min(size, side);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = output;
+  canvas.height = output;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Images cannot be processed in this browser');
+
+  context.drawImage(
+    image,
+    (image.naturalWidth - side) / 2,
+    (image.naturalHeight - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    output,
+    output
+  );
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('The image could not be converted')),
+      'image/webp',
+      0.85
+    );
+  });
+};
@@ -0,0 +1,104 @@
+// Leaderboard rankings, with qualifying thresholds for the rate stats
+
+import { economyRate, strikeRate } from '@/utils/scoringEngine';
+
+export interface LeaderboardEntry {
+  innings: number;
+  runs: number;
+  balls_faced: number;
+  dismissals: number;
+  sixes: number;
+  balls_bowled: number;
+  runs_conceded: number;
+  wickets: number;
+  catches: number;
+  stumpings: number;
+}
+
+export type LeaderboardStat = 'runs' | 'average' | 'strike_rate' | 'sixes' | 'wickets' | 'economy' | 'catches' | 'stumpings';
+
+// Rates from a handful of balls would top the tables, so players need this much cricket to rank
+export const MIN_INNINGS_FOR_AVERAGE = 3;
+export const MIN_BALLS_FOR_STRIKE_RATE = 30;
+export const MIN_BALLS_FOR_ECONOMY = 30;
+
+interface StatDefinition {
+  value: (entry: LeaderboardEntry) => number;
+  qualifies: (entry: LeaderboardEntry) => boolean;
+  lowerIsBetter: boolean;
+  qualification: string | null;
+}
+
+/**
+ * Batting average (runs per dismissal)
+ * @param runs - Runs scored
+ * @param dismissals - Times out
+ * @returns Average, or null when never dismissed
+ */
+export const battingAverage = (runs: number, dismissals: number): number | null => {
+  return dismissals > 0 ? runs / dismissals : null;
+};
+
+export const LEADERBOARD_STATS: Record<LeaderboardStat, StatDefinition> = {
+  runs: {
+    value: e => e.runs,
+    qualifies: e => e.runs > 0,
+    lowerIsBetter: false,
+    qualification: null
+  },
+  average: {
+    value: e => battingAverage(e.runs, e.dismissals) ?? 0,
+    qualifies: e => e.innings >= MIN_INNINGS_FOR_AVERAGE && e.dismissals > 0,
+    lowerIsBetter: false,
+    qualification: `Minimum ${MIN_INNINGS_FOR_AVERAGE} innings and one dismissal`
+  },
+  strike_rate: {
+    value: e => strikeRate(e.runs, e.balls_faced),
+    qualifies: e => e.balls_faced >= MIN_BALLS_FOR_STRIKE_RATE,
+    lowerIsBetter: false,
+    qualification: `Minimum ${MIN_BALLS_FOR_STRIKE_RATE} balls faced`
+  },
+  sixes: {
+    value: e => e.sixes,
+    qualifies: e => e.sixes > 0,
+    lowerIsBetter: false,
+    qualification: null
+  },
+  wickets: {
+    value: e => e.wickets,
+    qualifies: e => e.wickets > 0,
+    lowerIsBetter: false,
+    qualification: null
+  },
+  economy: {
+    value: e => economyRate(e.runs_conceded, e.balls_bowled),
+    qualifies: e => e.balls_bowled >= MIN_BALLS_FOR_ECONOMY,
+    lowerIsBetter: true,
+    qualification: `Minimum ${MIN_BALLS_FOR_ECONOMY / 6} overs bowled`
+  },
+  catches: {
+    value: e => e.catches,
+    qualifies: e => e.catches > 0,
+    lowerIsBetter: false,
+    qualification: null
+  },
+  stumpings: {
+    value: e => e.stumpings,
+    qualifies: e => e.stumpings > 0,
+    lowerIsBetter: false,
+    qualification: null
+  }
+};
+
+/**
+ * Ranks players by one stat, leaving out those who do not qualify
+ * @param entries - Player totals
+ * @param stat - The stat to rank by
+ * @returns Qualifying players, best first
+ */
+export const rankLeaderboard = <T extends LeaderboardEntry>(entries: T[], stat: LeaderboardStat): T[] => {
+  const { value, qualifies, lowerIsBetter } = LEADERBOARD_STATS[stat];
+  return entries
+    .filter(qualifies)
+    .sort((a, b) => (lowerIsBetter ? value(a) - value(b) : value(b) - value(a)));
+};
@@ -0,0 +1,139 @@
+// Match result computation from a replayed match
+
+import type { MatchState } from '@/utils/scoringEngine';
+
+export type MatchResultType = 'win' | 'tie' | 'no_result';
+
+export interface MatchResult {
+  type: MatchResultType;
+  winnerTeamId: string | null;
+  margin: number | null;
+  marginType: 'runs' | 'wickets' | null;
+  ballsRemaining: number | null;
+}
+
+// Result columns stored on the matches table
+export interface MatchResultColumns {
+  result_type: MatchResultType | null;
+  winner_team_id: string | null;
+  result_margin: number | null;
+  result_margin_type: 'runs' | 'wickets' | null;
+  result_balls_remaining: number | null;
+}
+
+const NO_RESULT: MatchResult = {
+  type: 'no_result',
+  winnerTeamId: null,
+  margin: null,
+  marginType: null,
+  ballsRemaining: null
+};
+
+/**
+ * Works out the result of a match
+ * @param state - The replayed match
+ * @param battingOrder - Team IDs in batting order (first innings, second innings)
+ * @param totalOvers - Overs per innings
+ * @returns Winner and margin, a tie, or no result when the match did not finish
+ */
+export const computeMatchResult = (
+  state: MatchState,
+  battingOrder: [string, string],
+  totalOvers: number
+): MatchResult => {
+  if (!state.isComplete) return NO_RESULT;
+
+  const [first, second] = state.innings;
+  const [firstTeamId, secondTeamId] = battingOrder;
+
+  if (second.runs > first.runs) {
+    return {
+      type: 'win',
+      winnerTeamId: secondTeamId,
+      margin: second.maxWickets - second.wickets,
+      marginType: 'wickets',
+      ballsRemaining: Math.max(0, totalOvers * 6 - second.legalBalls)
+    };
+  }
+
+  if (first.runs > second.runs) {
+    return {
+      type: 'win',
+      winnerTeamId: firstTeamId,
+      margin: first.runs - second.runs,
+      marginType: 'runs',
+      ballsRemaining: null
+    };
+  }
+
+  return { ...NO_RESULT, type: 'tie' };
+};
+
+/**
+ * Formats a result for display
+ * @param result - The match result
+ * @param getTeamName - Looks up a team name by ID
+ * @returns Text like "Lions won by 4 wickets (7 balls left)"
+ */
+export const formatMatchResult = (result: MatchResult, getTeamName: (teamId: string) => string): string => {
+  if (result.type === 'tie') return 'Match tied';
+  if (result.type === 'no_result' || !result.winnerTeamId) return 'No result';
+
+  const winner = getTeamName(result.winnerTeamId);
+  const unit = result.marginType === 'wickets' ? 'wicket' : 'run';
+  const margin = `${result.margin} ${unit}${result.margin === 1 ? '' : 's'}`;
+
+  if (result.marginType === 'wickets' && result.ballsRemaining) {
+    const balls = `${result.ballsRemaining} ball${result.ballsRemaining === 1 ? '' : 's'} left`;
+    return `${winner} won by ${margin} (${balls})`;
+  }
+  return `${winner} won by ${margin}`;
+};
+
+/**
+ * Maps a result to the matches table columns
+ * @param result - The match result
+ * @returns Column values to update
+ */
+export const toResultColumns = (result: MatchResult): MatchResultColumns => ({
+  result_type: result.type,
+  winner_team_id: result.winnerTeamId,
+  result_margin: result.margin,
+  result_margin_type: result.marginType,
+  result_balls_remaining: result.ballsRemaining
+});
+
+/**
+ * Reads a stored result from a matches row
+ * @param row - A matches row with result columns
+ * @returns The result, or null when none has been recorded
+ */
+export const fromResultColumns = (row: Partial<MatchResultColumns>): MatchResult | null => {
+  if (!row.result_type) return null;
+  return {
+    type: row.result_type,
+    winnerTeamId: row.winner_team_id ?? null,
+    margin: row.result_margin ?? null,
+    marginType: row.result_margin_type ?? null,
+    ballsRemaining: row.result_balls_remaining ?? null
+  };
+};
+
+/**
+ * Works out which team bats first from the toss
+ * @param teamAId - ID of team A
+ * @param teamBId - ID of team B
+ * @param tossWinnerId - ID of the toss winner, if the toss has happened
+ * @param tossDecision - What the toss winner chose to do
+ * @returns Team IDs in batting order (team A first until the toss is recorded)
+ */
+export const getBattingOrderIds = (
+  teamAId: string,
+  teamBId: string,
+  tossWinnerId?: string | null,
+  tossDecision?: 'bat' | 'bowl' | null
+): [string, string] => {
+  if (!tossWinnerId || !tossDecision) return [teamAId, teamBId];
+  const tossLoserId = tossWinnerId === teamAId ? teamBId : teamAId;
+  return tossDecision === 'bat' ? [tossWinnerId, tossLoserId] : [tossLoserId, tossWinnerId];
+};
@@ -0,0 +1,118 @@
+// MVP points for each player in a match, used to suggest the Player of the Match
+
+import { economyRate, strikeRate, type MatchState } from '@/utils/scoringEngine';
+
+export interface MvpRules {
+  perRun: number;
+  perFour: number;
+  perSix: number;
+  strikeRateBaseline: number;
+  perStrikeRatePoint: number;
+  minBallsForStrikeRate: number;
+  perWicket: number;
+  perDotBall: number;
+  economyBaseline: number;
+  perEconomyPoint: number;
+  minBallsForEconomy: number;
+  perCatch: number;
+}
+
+export const DEFAULT_MVP_RULES: MvpRules = {
+  perRun: 1,
+  perFour: 1,
+  perSix: 2,
+  strikeRateBaseline: 100,
+  perStrikeRatePoint: 0.1,
+  minBallsForStrikeRate: 10,
+  perWicket: 20,
+  perDotBall: 1,
+  economyBaseline: 8,
+  perEconomyPoint: 2,
+  minBallsForEconomy: 12,
+  perCatch: 8
+};
+
+export const MVP_RULE_LABELS: Record<keyof MvpRules, string> = {
+  perRun: 'Per run',
+  perFour: 'Per four',
+  perSix: 'Per six',
+  strikeRateBaseline: 'Strike rate baseline',
+  perStrikeRatePoint: 'Per strike rate point above baseline',
+  minBallsForStrikeRate: 'Balls faced before strike rate counts',
+  perWicket: 'Per wicket',
+  perDotBall: 'Per dot ball',
+  economyBaseline: 'Economy baseline',
+  perEconomyPoint: 'Per run an over under baseline',
+  minBallsForEconomy: 'Balls bowled before economy counts',
+  perCatch: 'Per catch'
+};
+
+export interface MvpPoints {
+  playerId: string;
+  batting: number;
+  bowling: number;
+  fielding: number;
+  total: number;
+}
+
+const round = (points: number) => Math.round(points * 10) / 10;
+
+/**
+ * Reads MVP rules saved on a tournament, filling in defaults for anything missing
+ * @param value - The saved rules, or null when the tournament uses the defaults
+ * @returns Complete rules
+ */
+export const parseMvpRules = (value: unknown): MvpRules => {
+  const saved = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof MvpRules, unknown>>;
+  const rules = { ...DEFAULT_MVP_RULES };
+  (Object.keys(DEFAULT_MVP_RULES) as (keyof MvpRules)[]).forEach(key => {
+    if (typeof saved[key] === 'number') rules[key] = saved[key] as number;
+  });
+  return rules;
+};
+
+/**
+ * Works out every player's MVP points from the replayed match.
+ * Strike rate and economy add points above the baseline and take them away below it.
+ * @param state - The computed match
+ * @param rules - Points awarded for each contribution
+ * @returns One entry per player involved, highest total first
+ */
+export const computeMvpPoints = (state: MatchState, rules: MvpRules = DEFAULT_MVP_RULES): MvpPoints[] => {
+  const points: Record<string, MvpPoints> = {};
+  const entry = (playerId: string) => {
+    points[playerId] = points[playerId] || { playerId, batting: 0, bowling: 0, fielding: 0, total: 0 };
+    return points[playerId];
+  };
+
+  state.innings.forEach(innings => {
+    Object.values(innings.batters).forEach(batter => {
+      const player = entry(batter.playerId);
+      player.batting += batter.runs * rules.perRun + batter.fours * rules.perFour + batter.sixes * rules.perSix;
+      if (batter.balls >= rules.minBallsForStrikeRate) {
+        player.batting += (strikeRate(batter.runs, batter.balls) - rules.strikeRateBaseline) * rules.perStrikeRatePoint;
+      }
+
+      const fielderId = batter.dismissal?.type === 'caught' ? batter.dismissal.fielderId : null;
+      if (fielderId) entry(fielderId).fielding += rules.perCatch;
+    });
+
+    Object.values(innings.bowlers).forEach(bowler => {
+      const player = entry(bowler.playerId);
+      player.bowling += bowler.wickets * rules.perWicket + bowler.dots * rules.perDotBall;
+      if (bowler.balls >= rules.minBallsForEconomy) {
+        player.bowling += (rules.economyBaseline - economyRate(bowler.runs, bowler.balls)) * rules.perEconomyPoint;
+      }
+    });
+  });
+
+  return Object.values(points)
+    .map(player => ({
+      playerId: player.playerId,
+      batting: round(player.batting),
+      bowling: round(player.bowling),
+      fielding: round(player.fielding),
+      total: round(player.batting + player.bowling + player.fielding)
+    }))
+    .sort((a, b) => b.total - a.total);
+};
@@ -3,7 +3,8 @@
 export interface OverPosition {
   inning: number;
   over: number;
-  ball: number;
+  ball: number; // Legal ball of the over (1-6)
+  delivery?: number; // Delivery sequence within the over, including wides and no-balls
 }
 
 export interface TeamSwitch {
@@ -50,30 +51,39 @@ export const decimalToOver = (decimalOver: number): { over: number; ball: number
  * @param currentPosition - Current over position
  * @param totalOvers - Total overs allowed for the match
  * @param runs - Runs scored (for determining batsmen swap)
+ * @param isLegal - Whether the delivery counts towards the over (false for wides and no-balls)
+ * @param endInnings - Whether the innings closed early (all out or target reached)
  * @returns Next position and team switch requirements
  */
 export const calculateNextPosition = (
   currentPosition: OverPosition,
   totalOvers: number,
-  runs: number
+  runs: number,
+  isLegal: boolean = true,
+  endInnings: boolean = false
 ): { nextPosition: OverPosition; teamSwitch: TeamSwitch } => {
   const { inning, over, ball } = currentPosition;
+  const delivery = currentPosition.delivery ?? ball;
   
   let nextInning = inning;
   let nextOver = over;
-  let nextBall = ball + 1;
+  // Wides and no-balls are re-bowled: only the delivery sequence moves on
+  let nextBall = isLegal ? ball + 1 : ball;
+  let nextDelivery = delivery + 1;
   
   // Check if over is complete
   if (nextBall > 6) {
     nextOver = nextOver + 1;
     nextBall = 1;
+    nextDelivery = 1;
   }
   
-  // Check if innings is complete (when over reaches totalOvers)
-  if (nextOver >= totalOvers) {
+  // Check if innings is complete (when over reaches totalOvers, or it ended early)
+  if (endInnings || nextOver >= totalOvers) {
     nextInning = nextInning + 1;
     nextOver = 0;
     nextBall = 1;
+    nextDelivery = 1;
   }
   
   // Ensure we never exceed total overs in any innings
@@ -92,7 +102,8 @@ export const calculateNextPosition = (
   const nextPosition: OverPosition = {
     inning: nextInning,
     over: nextOver,
-    ball: nextBall
+    ball: nextBall,
+    delivery: nextDelivery
   };
   
   const teamSwitch: TeamSwitch = {
@@ -135,13 +146,13 @@ export const isValidPosition = (position: OverPosition, totalOvers: number): boo
 
 /**
  * Gets the current over display string
- * @param position - Current over position
- * @returns Formatted over string
+ * @param position - Current over position (the next legal ball to be bowled)
+ * @returns Formatted over string of legal balls bowled so far
  */
 export const getCurrentOverDisplay = (position: OverPosition): string => {
   if (position.inning > 2) return 'Match Complete';
   if (position.over === 0 && position.ball === 1) return 'Not Started';
-  return formatOverDisplay(position.over, position.ball);
+  return formatOverDisplay(position.over, position.ball - 1);
 };
 
 /**
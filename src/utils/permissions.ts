@@ -0,0 +1,74 @@
+// Who may use which controls. These mirror the role checks in the database policies
+// (is_team_captain, can_manage_team_roster, can_manage_match, can_score_match) and hand_over_scoring.
+
+interface Viewer {
+  profileId: string | null | undefined;
+  isAdmin: boolean;
+}
+
+interface TeamRoles {
+  captain_id: string;
+  members: { player_id: string; role: string | null }[];
+}
+
+interface MatchRoles {
+  created_by: string;
+  scorerIds: string[];
+}
+
+/**
+ * Checks whether someone runs a team: renaming it, changing its logo, deleting it and choosing the captain
+ * @param viewer - The signed-in player
+ * @param team - The team's captain and members
+ * @returns True for the captain and admins
+ */
+export const canEditTeam = (viewer: Viewer, team: TeamRoles): boolean =>
+  viewer.isAdmin || (!!viewer.profileId && team.captain_id === viewer.profileId);
+
+/**
+ * Checks whether someone manages a team's roster: adding and removing players, roles, invites and join requests
+ * @param viewer - The signed-in player
+ * @param team - The team's captain and members
+ * @returns True for the captain, vice-captains and admins
+ */
+export const canManageRoster = (viewer: Viewer, team: TeamRoles): boolean =>
+  canEditTeam(viewer, team) || team.members.some(member =>
+    member.player_id === viewer.profileId && (member.role === 'captain' || member.role === 'vice_captain')
+  );
+
+/**
+ * Checks whether someone owns a match: deleting it, overriding Player of the Match and assigning scorers
+ * @param viewer - The signed-in player
+ * @param match - The match's creator and scorers
+ * @returns True for the match creator and admins
+ */
+export const canManageMatch = (viewer: Viewer, match: MatchRoles): boolean =>
+  viewer.isAdmin || (!!viewer.profileId && match.created_by === viewer.profileId);
+
+/**
+ * Checks whether someone may score a match and correct its balls
+ * @param viewer - The signed-in player
+ * @param match - The match's creator and scorers
+ * @returns True for the match owner, its assigned scorers and admins
+ */
+export const canScoreMatch = (viewer: Viewer, match: MatchRoles): boolean =>
+  canManageMatch(viewer, match) || (!!viewer.profileId && match.scorerIds.includes(viewer.profileId));
+
+/**
+ * Finds who is scoring a match, ignoring a scorer who has since been taken off it
+ * @param match - The match's creator, scorers and active scorer
+ * @returns The active scorer's profile id, or null when the match is free to score
+ */
+export const getActiveScorerId = (match: MatchRoles & { active_scorer_id: string | null }): string | null =>
+  match.active_scorer_id && (match.active_scorer_id === match.created_by || match.scorerIds.includes(match.active_scorer_id))
+    ? match.active_scorer_id
+    : null;
+
+/**
+ * Checks whether this device should record balls: scoring is held by one scorer at a time
+ * @param viewer - The signed-in player
+ * @param match - The match's creator, scorers and active scorer
+ * @returns True for scorers when they hold the match, or when no current scorer holds it
+ */
+export const isScoringHere = (viewer: Viewer, match: MatchRoles & { active_scorer_id: string | null }): boolean =>
+  canScoreMatch(viewer, match) && (getActiveScorerId(match) ?? viewer.profileId) === viewer.profileId;
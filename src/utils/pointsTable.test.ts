@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computePointsTable,
+  DEFAULT_POINTS_SETTINGS,
+  netRunRate,
+  type PointsTableInnings,
+  type PointsTableMatch
+} from '@/utils/pointsTable';
+
+const innings = (battingTeamId: string, runs: number, legalBalls = 120, allOut = false): PointsTableInnings => ({
+  battingTeamId,
+  runs,
+  legalBalls,
+  allOut
+});
+
+// A 20-over match the first side won, batting first with both innings played out
+const win = (winner: string, loser: string, winnerRuns = 100, loserRuns = 90): PointsTableMatch => ({
+  teamAId: winner,
+  teamBId: loser,
+  totalOvers: 20,
+  result: { type: 'win', winnerTeamId: winner, margin: winnerRuns - loserRuns, marginType: 'runs', ballsRemaining: null },
+  innings: [innings(winner, winnerRuns), innings(loser, loserRuns)]
+});
+
+describe('netRunRate', () => {
+  it('subtracts runs per over conceded from runs per over scored', () => {
+    expect(netRunRate(150, 120, 120, 120)).toBeCloseTo(1.5);
+    expect(netRunRate(0, 0, 0, 0)).toBe(0);
+  });
+});
+
+describe('computePointsTable', () => {
+  it('counts a side bowled out as having faced its full overs', () => {
+    const match: PointsTableMatch = {
+      ...win('a', 'b', 150, 100),
+      innings: [innings('a', 150, 120), innings('b', 100, 90, true)]
+    };
+
+    const [first, second] = computePointsTable(['a', 'b'], [match]);
+
+    expect(first).toMatchObject({ teamId: 'a', won: 1, points: 2, ballsBowled: 120 });
+    expect(first.nrr).toBeCloseTo(2.5);
+    expect(second).toMatchObject({ teamId: 'b', lost: 1, points: 0, ballsFaced: 120 });
+    expect(second.nrr).toBeCloseTo(-2.5);
+  });
+
+  it('shares the tie points and leaves no-results out of net run rate', () => {
+    const tie: PointsTableMatch = {
+      teamAId: 'a',
+      teamBId: 'b',
+      totalOvers: 20,
+      result: { type: 'tie', winnerTeamId: null, margin: null, marginType: null, ballsRemaining: null },
+      innings: [innings('a', 140), innings('b', 140, 120, true)]
+    };
+    const abandoned: PointsTableMatch = {
+      teamAId: 'a',
+      teamBId: 'b',
+      totalOvers: 20,
+      result: { type: 'no_result', winnerTeamId: null, margin: null, marginType: null, ballsRemaining: null },
+      innings: [innings('a', 60, 30)]
+    };
+
+    const table = computePointsTable(['a', 'b'], [tie, abandoned]);
+
+    table.forEach(row => {
+      expect(row).toMatchObject({ played: 2, tied: 1, noResult: 1, points: 2, runsFor: 140, ballsFaced: 120 });
+      expect(row.nrr).toBe(0);
+    });
+  });
+
+  it('ignores matches against teams outside the league', () => {
+    const [row] = computePointsTable(['a'], [win('a', 'z')]);
+    expect(row).toMatchObject({ played: 0, points: 0 });
+  });
+
+  it('breaks a tie on points by head to head between the two teams', () => {
+    // b beat a, but a has the better run rate from thrashing c
+    const matches = [win('b', 'a', 100, 99), win('a', 'c', 200, 50)];
+    const headToHeadFirst = { ...DEFAULT_POINTS_SETTINGS, tieBreakers: ['head_to_head' as const, 'nrr' as const] };
+    const nrrFirst = { ...DEFAULT_POINTS_SETTINGS, tieBreakers: ['nrr' as const, 'head_to_head' as const] };
+
+    expect(computePointsTable(['a', 'b', 'c'], matches, headToHeadFirst).map(row => row.teamId)).toEqual(['b', 'a', 'c']);
+    expect(computePointsTable(['a', 'b', 'c'], matches, nrrFirst).map(row => row.teamId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('ranks a three-way tie by a mini league between the tied teams, whatever order they come in', () => {
+    // a, b and c beat each other in a circle, but a beat b twice; b and c split on runs scored
+    const matches = [
+      win('a', 'b'),
+      win('a', 'b'),
+      win('b', 'c'),
+      win('c', 'a'),
+      win('b', 'd'),
+      win('c', 'd', 200)
+    ];
+    const settings = { ...DEFAULT_POINTS_SETTINGS, tieBreakers: ['head_to_head' as const, 'runs_for' as const] };
+    const orders = [['a', 'b', 'c', 'd'], ['c', 'b', 'a', 'd'], ['b', 'd', 'c', 'a'], ['d', 'c', 'a', 'b']];
+
+    orders.forEach(teamIds => {
+      expect(computePointsTable(teamIds, matches, settings).map(row => row.teamId)).toEqual(['a', 'c', 'b', 'd']);
+      expect(computePointsTable(teamIds, [...matches].reverse(), settings).map(row => row.teamId)).toEqual(['a', 'c', 'b', 'd']);
+    });
+  });
+});
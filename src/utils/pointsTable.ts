@@ -0,0 +1,203 @@
+// League points table with net run rate
+
+import type { MatchResult } from '@/utils/matchResult';
+
+export type TieBreaker = 'wins' | 'nrr' | 'head_to_head' | 'runs_for';
+
+export const TIE_BREAKER_LABELS: Record<TieBreaker, string> = {
+  wins: 'Most wins',
+  nrr: 'Net run rate',
+  head_to_head: 'Head to head',
+  runs_for: 'Most runs scored'
+};
+
+export interface PointsTableSettings {
+  pointsForWin: number;
+  pointsForTie: number;
+  pointsForNoResult: number;
+  tieBreakers: TieBreaker[];
+}
+
+export const DEFAULT_POINTS_SETTINGS: PointsTableSettings = {
+  pointsForWin: 2,
+  pointsForTie: 1,
+  pointsForNoResult: 1,
+  tieBreakers: ['wins', 'nrr', 'head_to_head']
+};
+
+export interface PointsTableInnings {
+  battingTeamId: string;
+  runs: number;
+  legalBalls: number;
+  allOut: boolean;
+}
+
+export interface PointsTableMatch {
+  teamAId: string;
+  teamBId: string;
+  totalOvers: number;
+  result: MatchResult;
+  innings: PointsTableInnings[];
+}
+
+export interface PointsTableRow {
+  teamId: string;
+  played: number;
+  won: number;
+  lost: number;
+  tied: number;
+  noResult: number;
+  points: number;
+  runsFor: number;
+  ballsFaced: number;
+  runsAgainst: number;
+  ballsBowled: number;
+  nrr: number;
+}
+
+const emptyRow = (teamId: string): PointsTableRow => ({
+  teamId,
+  played: 0,
+  won: 0,
+  lost: 0,
+  tied: 0,
+  noResult: 0,
+  points: 0,
+  runsFor: 0,
+  ballsFaced: 0,
+  runsAgainst: 0,
+  ballsBowled: 0,
+  nrr: 0
+});
+
+/**
+ * Calculates net run rate from aggregate figures
+ * @param runsFor - Runs scored
+ * @param ballsFaced - Legal balls faced (full quota when bowled out)
+ * @param runsAgainst - Runs conceded
+ * @param ballsBowled - Legal balls bowled (full quota when the opponent was bowled out)
+ * @returns Runs per over scored minus runs per over conceded
+ */
+export const netRunRate = (runsFor: number, ballsFaced: number, runsAgainst: number, ballsBowled: number): number => {
+  const forRate = ballsFaced > 0 ? (runsFor * 6) / ballsFaced : 0;
+  const againstRate = ballsBowled > 0 ? (runsAgainst * 6) / ballsBowled : 0;
+  return forRate - againstRate;
+};
+
+/**
+ * Formats net run rate with an explicit sign
+ * @param nrr - Net run rate
+ * @returns Text like "+1.235" or "-0.480"
+ */
+export const formatNetRunRate = (nrr: number): string => {
+  const fixed = nrr.toFixed(3);
+  return nrr > 0 ? `+${fixed}` : fixed;
+};
+
+// Points one team took off the other in matches between them
+const headToHeadPoints = (matches: PointsTableMatch[], teamId: string, opponentId: string, settings: PointsTableSettings): number => {
+  return matches
+    .filter(m => (m.teamAId === teamId && m.teamBId === opponentId) || (m.teamAId === opponentId && m.teamBId === teamId))
+    .reduce((points, m) => {
+      if (m.result.type === 'win') return points + (m.result.winnerTeamId === teamId ? settings.pointsForWin : 0);
+      if (m.result.type === 'tie') return points + settings.pointsForTie;
+      return points + settings.pointsForNoResult;
+    }, 0);
+};
+
+/**
+ * Builds a league points table
+ * @param teamIds - Teams in the league
+ * @param matches - Completed matches with their result and innings totals
+ * @param settings - Points awarded and tie-breakers, applied in order after points
+ * @returns Rows sorted from first to last place
+ */
+export const computePointsTable = (
+  teamIds: string[],
+  matches: PointsTableMatch[],
+  settings: PointsTableSettings = DEFAULT_POINTS_SETTINGS
+): PointsTableRow[] => {
+  const rows: Record<string, PointsTableRow> = {};
+  teamIds.forEach(id => { rows[id] = emptyRow(id); });
+
+  const counted = matches.filter(m => rows[m.teamAId] && rows[m.teamBId]);
+
+  counted.forEach(match => {
+    const teams = [rows[match.teamAId], rows[match.teamBId]];
+    teams.forEach(row => { row.played += 1; });
+
+    if (match.result.type === 'no_result') {
+      teams.forEach(row => {
+        row.noResult += 1;
+        row.points += settings.pointsForNoResult;
+      });
+      // Abandoned matches do not count towards net run rate
+      return;
+    }
+
+    if (match.result.type === 'tie') {
+      teams.forEach(row => {
+        row.tied += 1;
+        row.points += settings.pointsForTie;
+      });
+    } else {
+      teams.forEach(row => {
+        if (row.teamId === match.result.winnerTeamId) {
+          row.won += 1;
+          row.points += settings.pointsForWin;
+        } else {
+          row.lost += 1;
+        }
+      });
+    }
+
+    // A side bowled out is treated as having faced its full quota of overs
+    match.innings.forEach(innings => {
+      const batting = rows[innings.battingTeamId];
+      const bowling = innings.battingTeamId === match.teamAId ? rows[match.teamBId] : rows[match.teamAId];
+      if (!batting || !bowling) return;
+      const balls = innings.allOut ? match.totalOvers * 6 : innings.legalBalls;
+      batting.runsFor += innings.runs;
+      batting.ballsFaced += balls;
+      bowling.runsAgainst += innings.runs;
+      bowling.ballsBowled += balls;
+    });
+  });
+
+  const table = Object.values(rows).map(row => ({
+    ...row,
+    nrr: netRunRate(row.runsFor, row.ballsFaced, row.runsAgainst, row.ballsBowled)
+  }));
+
+  // Head to head is a mini league between the teams still level when it is applied, so three or
+  // more sides that beat each other in a circle still sort the same way whatever order they start in
+  const headToHead: Record<string, number> = {};
+  const tieBreakerValue = (row: PointsTableRow, tieBreaker: TieBreaker): number => {
+    if (tieBreaker === 'wins') return row.won;
+    if (tieBreaker === 'nrr') return row.nrr;
+    if (tieBreaker === 'runs_for') return row.runsFor;
+    return headToHead[row.teamId] ?? 0;
+  };
+
+  const headToHeadAt = settings.tieBreakers.indexOf('head_to_head');
+  if (headToHeadAt >= 0) {
+    const earlier = settings.tieBreakers.slice(0, headToHeadAt);
+    const isLevel = (a: PointsTableRow, b: PointsTableRow) =>
+      a.points === b.points && earlier.every(tieBreaker => tieBreakerValue(a, tieBreaker) === tieBreakerValue(b, tieBreaker));
+
+    table.forEach(row => {
+      headToHead[row.teamId] = table
+        .filter(other => other.teamId !== row.teamId && isLevel(row, other))
+        .reduce((points, other) => points + headToHeadPoints(counted, row.teamId, other.teamId, settings), 0);
+    });
+  }
+
+  return table.sort((a, b) => {
+    if (b.points !== a.points) return b.points - a.points;
+    for (const tieBreaker of settings.tieBreakers) {
+      const diff = tieBreakerValue(b, tieBreaker) - tieBreakerValue(a, tieBreaker);
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  });
+};
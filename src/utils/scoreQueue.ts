@@ -0,0 +1,126 @@
+// Local IndexedDB queue for balls recorded while offline
+
+const DB_NAME = 'cricheroes';
+const DB_VERSION = 1;
+const STORE = 'score_queue';
+
+// A match_scores row waiting to be saved. The id is generated on the device so the
+// ball keeps the same identity locally and once synced.
+export interface QueuedScore {
+  id: string;
+  match_id: string;
+  inning: number;
+  over_number: number;
+  ball_number: number;
+  delivery_number: number;
+  batsman_id: string;
+  bowler_id: string;
+  runs: number;
+  extras_type: string | null;
+  extras_runs: number;
+  wicket_type: string | null;
+  wicket_batsman_id: string | null;
+  wicket_fielder_id: string | null;
+  run_out_end: string | null;
+  queued_at: number;
+  // Why the server refused the ball, when it did
+  conflict: string | null;
+}
+
+export type QueuedScoreRow = Omit<QueuedScore, 'queued_at' | 'conflict'>;
+
+export type InsertOutcome = 'saved' | 'offline' | 'rejected';
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+    store.createIndex('match_id', 'match_id');
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+/**
+ * Adds or replaces a ball in the queue
+ * @param score - The queued ball
+ */
+export const putQueuedScore = async (score: QueuedScore): Promise<void> => {
+  await withStore('readwrite', store => store.put(score));
+};
+
+/**
+ * Removes a ball from the queue
+ * @param id - ID of the queued ball
+ */
+export const removeQueuedScore = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+/**
+ * Lists the balls waiting to be saved for a match
+ * @param matchId - ID of the match
+ * @returns Queued balls in the order they were recorded
+ */
+export const getQueuedScores = async (matchId: string): Promise<QueuedScore[]> => {
+  const queued = await withStore<QueuedScore[]>('readonly', store => store.index('match_id').getAll(matchId));
+  return queued.sort((a, b) =>
+    a.queued_at - b.queued_at ||
+    a.inning - b.inning ||
+    a.over_number - b.over_number ||
+    a.delivery_number - b.delivery_number
+  );
+};
+
+/**
+ * Strips the queue bookkeeping from a queued ball
+ * @param score - The queued ball
+ * @returns The match_scores row to insert
+ */
+export const toScoreRow = ({ queued_at, conflict, ...row }: QueuedScore): QueuedScoreRow => row;
+
+/**
+ * Works out what a failed or successful insert means for a queued ball
+ * @param error - Error returned by the insert, if any
+ * @returns 'saved' when the ball is stored (including an earlier attempt that did get through),
+ * 'offline' when the server could not be reached, 'rejected' when it refused the ball
+ */
+export const getInsertOutcome = (error: { code?: string; message?: string } | null): InsertOutcome => {
+  if (!error) return 'saved';
+  // Network failures come back without a database error code
+  if (!error.code) return 'offline';
+  // Same id already stored: a previous attempt succeeded but its response was lost
+  if (error.code === '23505' && error.message?.includes('match_scores_pkey')) return 'saved';
+  return 'rejected';
+};
+
+/**
+ * Describes why the server refused a queued ball
+ * @param error - Error returned by the insert
+ * @returns Text to show the scorer
+ */
+export const describeRejection = (error: { code?: string; message?: string }): string => {
+  if (error.code === '23505') return 'Another ball is already recorded at this position';
+  // Row-level security refuses balls once another scorer holds the match
+  if (error.code === '42501') return 'Another scorer is scoring this match';
+  return error.message || 'The server refused this ball';
+};
@@ -0,0 +1,167 @@
+// Printable match scorecard, built in the browser so it works without a connection
+
+import { jsPDF } from 'jspdf';
+import autoTable, { type UserOptions } from 'jspdf-autotable';
+import { economyRate, formatDismissal, formatOvers, strikeRate, type MatchState } from '@/utils/scoringEngine';
+
+export interface ScorecardPdfInnings {
+  teamName: string;
+  squad: { playerId: string; name: string }[];
+}
+
+export interface ScorecardPdfData {
+  title: string;
+  teams: string;
+  date: string;
+  location: string | null;
+  overs: number;
+  tournamentName: string | null;
+  toss: string | null;
+  result: string | null;
+  playerOfMatch: string | null;
+  state: MatchState;
+  innings: ScorecardPdfInnings[]; // In batting order
+  getPlayerName: (playerId: string) => string;
+}
+
+const MARGIN = 14;
+
+const TABLE_STYLES: Partial<UserOptions> = {
+  theme: 'striped',
+  styles: { fontSize: 9, cellPadding: 1.5 },
+  headStyles: { fillColor: [30, 64, 175] },
+  margin: { left: MARGIN, right: MARGIN }
+};
+
+/**
+ * Builds the scorecard document: match details, then each innings' batting and bowling tables
+ * @param data - The match, its computed innings and the names to print
+ * @returns The PDF document
+ */
+export const buildScorecardPdf = (data: ScorecardPdfData): jsPDF => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let y = 18;
+
+  // Continues below the last table, on a new page when there is no room left
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      doc.addPage();
+      y = 18;
+    }
+  };
+
+  const addTable = (options: UserOptions) => {
+    autoTable(doc, {
+      ...TABLE_STYLES,
+      ...options,
+      startY: y,
+      didDrawPage: ({ cursor }) => {
+        if (cursor) y = cursor.y;
+      }
+    });
+    y += 4;
+  };
+
+  const addText = (text: string, size = 10, bold = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    const lines: string[] = doc.splitTextToSize(text, pageWidth - MARGIN * 2);
+    ensureSpace(lines.length * size * 0.45);
+    doc.text(lines, MARGIN, y);
+    y += lines.length * size * 0.45 + 2;
+  };
+
+  // Match header
+  addText(data.title, 16, true);
+  addText(data.teams, 12, true);
+  addText([
+    data.date,
+    data.location,
+    `${data.overs} overs`,
+    data.tournamentName
+  ].filter(Boolean).join(' • '));
+  if (data.toss) addText(`Toss: ${data.toss}`);
+  if (data.result) addText(`Result: ${data.result}`, 10, true);
+  if (data.playerOfMatch) addText(`Player of the Match: ${data.playerOfMatch}`, 10, true);
+  y += 2;
+
+  data.innings.forEach((side, index) => {
+    const innings = data.state.innings[index];
+    if (!innings || innings.deliveries === 0) return;
+
+    ensureSpace(30);
+    addText(`${index === 0 ? '1st' : '2nd'} Innings: ${side.teamName} ${innings.runs}/${innings.wickets} (${formatOvers(innings.legalBalls)} ov)`, 12, true);
+
+    const { extras } = innings;
+    addTable({
+      head: [['Batter', 'How out', 'R', 'B', '4s', '6s', 'SR']],
+      body: [
+        ...innings.battingOrder.map(playerId => {
+          const batter = innings.batters[playerId];
+          const howOut = batter.isOut
+            ? (batter.dismissal ? formatDismissal(batter.dismissal, data.getPlayerName) : 'out')
+            : 'not out';
+          return [
+            data.getPlayerName(playerId),
+            howOut,
+            batter.runs,
+            batter.balls,
+            batter.fours,
+            batter.sixes,
+            strikeRate(batter.runs, batter.balls).toFixed(2)
+          ];
+        }),
+        ['Extras', `w ${extras.wides}, nb ${extras.noBalls}, b ${extras.byes}, lb ${extras.legByes}`, extras.total, '', '', '', ''],
+        ['Total', `${formatOvers(innings.legalBalls)} overs`, `${innings.runs}/${innings.wickets}`, '', '', '', '']
+      ]
+    });
+
+    const didNotBat = side.squad.filter(p => !innings.batters[p.playerId]);
+    if (didNotBat.length > 0) {
+      addText(`Did not bat: ${didNotBat.map(p => p.name).join(', ')}`, 9);
+    }
+
+    if (innings.bowlingOrder.length > 0) {
+      addTable({
+        head: [['Bowler', 'O', 'M', 'R', 'W', 'Econ', 'Wd', 'NB']],
+        body: innings.bowlingOrder.map(playerId => {
+          const bowler = innings.bowlers[playerId];
+          return [
+            data.getPlayerName(playerId),
+            formatOvers(bowler.balls),
+            bowler.maidens,
+            bowler.runs,
+            bowler.wickets,
+            economyRate(bowler.runs, bowler.balls).toFixed(2),
+            bowler.wides,
+            bowler.noBalls
+          ];
+        })
+      });
+    }
+
+    if (innings.fallOfWickets.length > 0) {
+      addText('Fall of Wickets', 10, true);
+      addText(
+        innings.fallOfWickets
+          .map(fow => `${fow.wicket}-${fow.runs} (${data.getPlayerName(fow.playerId)}, ${formatOvers(fow.legalBalls)} ov)`)
+          .join(', '),
+        9
+      );
+    }
+    y += 4;
+  });
+
+  return doc;
+};
+
+/**
+ * Builds the scorecard and downloads it
+ * @param data - The match, its computed innings and the names to print
+ * @param fileName - Name of the downloaded file
+ */
+export const exportScorecardPdf = (data: ScorecardPdfData, fileName: string): void => {
+  buildScorecardPdf(data).save(fileName);
+};
@@ -0,0 +1,257 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeInnings,
+  computeMatch,
+  formatDismissal,
+  isBowlerWicket,
+  playerMatchStats,
+  wicketsToEndInnings,
+  type BallRecord
+} from '@/utils/scoringEngine';
+
+const OPENERS = ['a', 'b'];
+
+// Builds the balls of an innings in the order they were bowled, numbering them the way
+// LiveScoring stores them: wides and no-balls keep the legal ball number.
+const bowl = (inning: number, balls: Partial<BallRecord>[]): BallRecord[] => {
+  let over = 0;
+  let ball = 1;
+  let delivery = 1;
+
+  return balls.map(partial => {
+    const record: BallRecord = {
+      inning,
+      over_number: over,
+      ball_number: ball,
+      delivery_number: delivery,
+      batsman_id: 'a',
+      bowler_id: 'x',
+      runs: 0,
+      ...partial
+    };
+    const legal = record.extras_type !== 'wide' && record.extras_type !== 'no_ball';
+    delivery += 1;
+    if (legal) ball += 1;
+    if (ball > 6) {
+      over += 1;
+      ball = 1;
+      delivery = 1;
+    }
+    return record;
+  });
+};
+
+const dots = (count: number, ball: Partial<BallRecord> = {}) => Array.from({ length: count }, () => ({ ...ball }));
+
+describe('applyDelivery', () => {
+  it('re-bowls wides and no-balls without counting them as legal balls', () => {
+    const innings = computeInnings(bowl(1, [
+      { extras_type: 'wide', extras_runs: 1 },
+      { extras_type: 'no_ball', extras_runs: 1, runs: 2 },
+      {}
+    ]), 1, { totalOvers: 5, openers: OPENERS });
+
+    expect(innings.legalBalls).toBe(1);
+    expect(innings.deliveries).toBe(3);
+    expect(innings.runs).toBe(4);
+    expect(innings.extras).toMatchObject({ wides: 1, noBalls: 1, total: 2 });
+    expect(innings.batters.a).toMatchObject({ runs: 2, balls: 2 });
+    expect(innings.bowlers.x).toMatchObject({ balls: 1, runs: 4, wides: 1, noBalls: 1 });
+    expect(innings.nextPosition).toEqual({ inning: 1, over: 0, ball: 2, delivery: 4 });
+  });
+
+  it('adds byes and leg byes to the total without charging the bowler', () => {
+    const innings = computeInnings(bowl(1, [
+      { extras_type: 'bye', extras_runs: 2 },
+      { extras_type: 'leg_bye', extras_runs: 4 }
+    ]), 1, { totalOvers: 5, openers: OPENERS });
+
+    expect(innings.runs).toBe(6);
+    expect(innings.extras).toMatchObject({ byes: 2, legByes: 4, total: 6 });
+    expect(innings.batters.a).toMatchObject({ runs: 0, balls: 2 });
+    expect(innings.bowlers.x).toMatchObject({ balls: 2, runs: 0, dots: 2 });
+  });
+
+  it('rotates the strike on odd runs, including byes that were run', () => {
+    const single = computeInnings(bowl(1, [{ runs: 1 }]), 1, { totalOvers: 5, openers: OPENERS });
+    expect(single.striker).toBe('b');
+    expect(single.nonStriker).toBe('a');
+
+    const two = computeInnings(bowl(1, [{ runs: 2 }]), 1, { totalOvers: 5, openers: OPENERS });
+    expect(two.striker).toBe('a');
+
+    const bye = computeInnings(bowl(1, [{ extras_type: 'bye', extras_runs: 1 }]), 1, { totalOvers: 5, openers: OPENERS });
+    expect(bye.striker).toBe('b');
+  });
+
+  it('changes ends at the end of an over', () => {
+    const maiden = computeInnings(bowl(1, dots(6)), 1, { totalOvers: 5, openers: OPENERS });
+    expect(maiden.striker).toBe('b');
+    expect(maiden.nonStriker).toBe('a');
+    expect(maiden.previousBowler).toBe('x');
+    expect(maiden.next.needsNewBowler).toBe(true);
+
+    // A single off the last ball brings the same batsman back on strike
+    const single = computeInnings(bowl(1, [...dots(5), { runs: 1 }]), 1, { totalOvers: 5, openers: OPENERS });
+    expect(single.striker).toBe('a');
+  });
+
+  it('puts the new batsman at the end the run-out happened', () => {
+    const atStrikersEnd = computeInnings(bowl(1, [
+      { runs: 1, wicket_type: 'run_out', wicket_batsman_id: 'a', run_out_end: 'striker' }
+    ]), 1, { totalOvers: 5, openers: OPENERS });
+    expect(atStrikersEnd.striker).toBeNull();
+    expect(atStrikersEnd.nonStriker).toBe('b');
+
+    const atNonStrikersEnd = computeInnings(bowl(1, [
+      { runs: 1, wicket_type: 'run_out', wicket_batsman_id: 'b', run_out_end: 'non_striker' }
+    ]), 1, { totalOvers: 5, openers: OPENERS });
+    expect(atNonStrikersEnd.striker).toBe('a');
+    expect(atNonStrikersEnd.nonStriker).toBeNull();
+    expect(atNonStrikersEnd.batters.b.isOut).toBe(true);
+    expect(atNonStrikersEnd.bowlers.x.wickets).toBe(0);
+  });
+
+  it('swaps the run-out ends when the wicket falls on the last ball of the over', () => {
+    const innings = computeInnings(bowl(1, [
+      ...dots(5),
+      { runs: 0, wicket_type: 'run_out', wicket_batsman_id: 'b', run_out_end: 'non_striker' }
+    ]), 1, { totalOvers: 5, openers: OPENERS });
+
+    expect(innings.striker).toBeNull();
+    expect(innings.nonStriker).toBe('a');
+  });
+
+  it('counts maidens only for overs that cost the bowler nothing', () => {
+    const innings = computeInnings(bowl(1, [
+      ...dots(5),
+      { extras_type: 'leg_bye', extras_runs: 1 },
+      { bowler_id: 'y' },
+      { bowler_id: 'y', extras_type: 'wide', extras_runs: 1 },
+      ...dots(5, { bowler_id: 'y' })
+    ]), 1, { totalOvers: 5, openers: OPENERS });
+
+    expect(innings.bowlers.x.maidens).toBe(1);
+    expect(innings.bowlers.y.maidens).toBe(0);
+    expect(innings.bowlers.y.balls).toBe(6);
+  });
+
+  it('does not credit the bowler with a wicket off a no-ball', () => {
+    const innings = computeInnings(bowl(1, [
+      { extras_type: 'no_ball', extras_runs: 1, wicket_type: 'run_out', wicket_batsman_id: 'b', run_out_end: 'non_striker' },
+      { extras_type: 'no_ball', extras_runs: 1, wicket_type: 'caught', wicket_fielder_id: 'f' }
+    ]), 1, { totalOvers: 5, openers: OPENERS });
+
+    expect(innings.legalBalls).toBe(0);
+    expect(innings.bowlers.x.wickets).toBe(0);
+    expect(isBowlerWicket('caught', 'no_ball')).toBe(false);
+    expect(isBowlerWicket('stumped', 'wide')).toBe(true);
+    expect(isBowlerWicket('run_out')).toBe(false);
+  });
+
+  it('records the fall of each wicket and the partnership it ended', () => {
+    const innings = computeInnings(bowl(1, [
+      { runs: 4 },
+      { runs: 1 },
+      { batsman_id: 'b', wicket_type: 'bowled' },
+      { batsman_id: 'c', runs: 2 }
+    ]), 1, { totalOvers: 5, openers: OPENERS });
+
+    expect(innings.fallOfWickets).toEqual([{ wicket: 1, runs: 5, legalBalls: 3, playerId: 'b' }]);
+    expect(innings.partnerships).toHaveLength(1);
+    expect(innings.partnerships[0]).toMatchObject({ runs: 5, balls: 3, wicket: 1 });
+    expect([...innings.partnerships[0].batterIds].sort()).toEqual(['a', 'b']);
+    expect(innings.partnership).toEqual({ runs: 2, balls: 1 });
+    expect(innings.battingOrder).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('formatDismissal', () => {
+  const names: Record<string, string> = { x: 'Khan', f: 'Sharma' };
+  const getPlayerName = (playerId: string) => names[playerId];
+
+  it('prints dismissals the way a scorecard does', () => {
+    expect(formatDismissal({ type: 'bowled', bowlerId: 'x', fielderId: null }, getPlayerName)).toBe('b Khan');
+    expect(formatDismissal({ type: 'lbw', bowlerId: 'x', fielderId: null }, getPlayerName)).toBe('lbw b Khan');
+    expect(formatDismissal({ type: 'caught', bowlerId: 'x', fielderId: 'f' }, getPlayerName)).toBe('c Sharma b Khan');
+    expect(formatDismissal({ type: 'caught', bowlerId: 'x', fielderId: 'x' }, getPlayerName)).toBe('c & b Khan');
+    expect(formatDismissal({ type: 'stumped', bowlerId: 'x', fielderId: 'f' }, getPlayerName)).toBe('st Sharma b Khan');
+    expect(formatDismissal({ type: 'hit_wicket', bowlerId: 'x', fielderId: null }, getPlayerName)).toBe('hit wicket b Khan');
+    expect(formatDismissal({ type: 'run_out', bowlerId: 'x', fielderId: 'f' }, getPlayerName)).toBe('run out (Sharma)');
+    expect(formatDismissal({ type: 'run_out', bowlerId: 'x', fielderId: null }, getPlayerName)).toBe('run out');
+  });
+
+  it('spells out every underscore of an unlisted dismissal', () => {
+    expect(formatDismissal({ type: 'hit_the_ball_twice', bowlerId: 'x', fielderId: null }, getPlayerName))
+      .toBe('hit the ball twice');
+  });
+});
+
+describe('computeMatch', () => {
+  it('bowls a short squad out one wicket before it runs out of players', () => {
+    const maxWickets = wicketsToEndInnings(6);
+    expect(maxWickets).toBe(5);
+    expect(wicketsToEndInnings(11)).toBe(10);
+    expect(wicketsToEndInnings(15)).toBe(10);
+
+    const wickets = bowl(1, dots(5, { wicket_type: 'bowled' }));
+    const match = computeMatch(wickets, 5, [maxWickets, 10]);
+
+    expect(match.innings[0]).toMatchObject({ wickets: 5, isComplete: true, endReason: 'all_out' });
+    expect(match.innings[0].next.needsNewBatsman).toBe(false);
+    expect(match.currentInning).toBe(2);
+    expect(match.target).toBe(1);
+
+    // The default of ten wickets keeps the same innings open
+    expect(computeMatch(wickets, 5).innings[0].isComplete).toBe(false);
+  });
+
+  it('ends the chase as soon as the target is reached', () => {
+    const first = bowl(1, [...dots(5), { runs: 6 }, ...dots(6)]);
+    const second = bowl(2, [{ runs: 4 }, { runs: 2 }, { runs: 1 }]);
+    const match = computeMatch([...first, ...second], 2);
+
+    expect(match.innings[0]).toMatchObject({ runs: 6, isComplete: true, endReason: 'overs' });
+    expect(match.target).toBe(7);
+    expect(match.innings[1]).toMatchObject({ runs: 7, legalBalls: 3, isComplete: true, endReason: 'target' });
+    expect(match.innings[1].next).toEqual({ needsNewBatsman: false, needsNewBowler: false });
+    expect(match.isComplete).toBe(true);
+  });
+
+  it('ends the first innings when its overs run out', () => {
+    const match = computeMatch(bowl(1, [...dots(5), { runs: 3 }]), 1);
+
+    expect(match.innings[0]).toMatchObject({ legalBalls: 6, runs: 3, isComplete: true, endReason: 'overs' });
+    expect(match.innings[0].next).toEqual({ needsNewBatsman: false, needsNewBowler: false });
+    expect(match.currentInning).toBe(2);
+    expect(match.target).toBe(4);
+    expect(match.isComplete).toBe(false);
+  });
+
+  it('keeps the chase open while the target is still to get', () => {
+    const first = bowl(1, [...dots(5), { runs: 6 }, ...dots(6)]);
+    const match = computeMatch([...first, ...bowl(2, [{ runs: 6 }])], 2);
+
+    expect(match.innings[1].isComplete).toBe(false);
+    expect(match.isComplete).toBe(false);
+  });
+});
+
+describe('playerMatchStats', () => {
+  it('combines a player\'s batting in one innings with their bowling in the other', () => {
+    const first = bowl(1, [{ runs: 4 }, { runs: 6, extras_type: 'no_ball', extras_runs: 1 }, ...dots(5)]);
+    const second = bowl(2, [
+      { batsman_id: 'p', bowler_id: 'a', wicket_type: 'bowled' },
+      { batsman_id: 'q', bowler_id: 'a', runs: 2 }
+    ]);
+    const match = computeMatch([...first, ...second], 1);
+
+    const stats = playerMatchStats(match, 'a');
+    expect(stats.batted).toBe(true);
+    expect(stats.batting).toMatchObject({ runs: 10, balls: 7, fours: 1, sixes: 1, isOut: false });
+    expect(stats.bowled).toBe(true);
+    expect(stats.bowling).toMatchObject({ balls: 2, runs: 2, wickets: 1 });
+
+    expect(playerMatchStats(match, 'z')).toMatchObject({ batted: false, bowled: false });
+  });
+});
@@ -0,0 +1,605 @@
+// Framework-free ball-by-ball scoring engine.
+// Replays ordered match_scores rows and derives the full innings state.
+
+import { calculateNextPosition, shouldSwapBatsmen, type OverPosition } from '@/utils/overManagement';
+
+export interface BallRecord {
+  id?: string;
+  match_id?: string;
+  inning: number;
+  over_number: number;
+  ball_number: number;
+  delivery_number?: number | null;
+  batsman_id: string;
+  bowler_id: string;
+  runs: number;
+  extras_type?: string | null;
+  extras_runs?: number | null;
+  wicket_type?: string | null;
+  wicket_batsman_id?: string | null;
+  wicket_fielder_id?: string | null;
+  run_out_end?: string | null;
+  created_at?: string;
+}
+
+export interface Dismissal {
+  type: string;
+  bowlerId: string;
+  fielderId: string | null;
+}
+
+export interface BatterStats {
+  playerId: string;
+  runs: number;
+  balls: number;
+  fours: number;
+  sixes: number;
+  isOut: boolean;
+  dismissal: Dismissal | null;
+}
+
+export interface BowlerStats {
+  playerId: string;
+  balls: number;
+  runs: number;
+  wickets: number;
+  maidens: number;
+  dots: number;
+  wides: number;
+  noBalls: number;
+}
+
+export interface ExtrasBreakdown {
+  wides: number;
+  noBalls: number;
+  byes: number;
+  legByes: number;
+  total: number;
+}
+
+export interface FallOfWicket {
+  wicket: number;
+  runs: number;
+  legalBalls: number;
+  playerId: string;
+}
+
+export interface Partnership {
+  runs: number;
+  balls: number;
+}
+
+export interface PartnershipRecord extends Partnership {
+  wicket: number; // The wicket that ended it
+  batterIds: string[];
+}
+
+export interface NextAction {
+  needsNewBatsman: boolean;
+  needsNewBowler: boolean;
+}
+
+export type InningsEndReason = 'overs' | 'all_out' | 'target';
+
+export interface InningsState {
+  inning: number;
+  runs: number;
+  wickets: number;
+  legalBalls: number;
+  extras: ExtrasBreakdown;
+  striker: string | null;
+  nonStriker: string | null;
+  bowler: string | null;
+  previousBowler: string | null;
+  partnership: Partnership;
+  partnerships: PartnershipRecord[]; // Partnerships ended by a wicket, in order
+  batters: Record<string, BatterStats>;
+  battingOrder: string[];
+  bowlers: Record<string, BowlerStats>;
+  bowlingOrder: string[];
+  fallOfWickets: FallOfWicket[];
+  deliveries: number;
+  overRuns: number;
+  nextPosition: OverPosition;
+  maxWickets: number;
+  isComplete: boolean;
+  endReason: InningsEndReason | null;
+  next: NextAction;
+}
+
+export interface InningsOptions {
+  totalOvers: number;
+  openers?: string[] | null;
+  maxWickets?: number; // Wickets that bowl the side out (defaults to 10)
+  target?: number | null; // Runs the chasing side needs to win
+}
+
+export interface MatchState {
+  innings: InningsState[];
+  currentInning: number;
+  target: number | null;
+  isComplete: boolean;
+}
+
+const BALLS_PER_OVER = 6;
+const MAX_WICKETS = 10;
+const BOWLER_CREDITED_WICKETS = ['bowled', 'caught', 'lbw', 'stumped', 'hit_wicket'];
+
+/**
+ * Checks whether a delivery counts towards the six legal balls of an over
+ * @param extrasType - The extras type recorded for the ball
+ * @returns True unless the ball is a wide or no-ball
+ */
+export const isLegalDelivery = (extrasType?: string | null): boolean => {
+  return extrasType !== 'wide' && extrasType !== 'no_ball';
+};
+
+/**
+ * Checks whether a delivery counts as a ball faced by the striker
+ * @param extrasType - The extras type recorded for the ball
+ * @returns True unless the ball is a wide
+ */
+export const isBallFaced = (extrasType?: string | null): boolean => {
+  return extrasType !== 'wide';
+};
+
+/**
+ * Checks whether a dismissal is credited to the bowler
+ * @param wicketType - The wicket type recorded for the ball
+ * @param extrasType - The extras type recorded for the ball
+ * @returns True for bowled, caught, lbw, stumped and hit wicket, except off a no-ball
+ */
+export const isBowlerWicket = (wicketType?: string | null, extrasType?: string | null): boolean => {
+  return !!wicketType && extrasType !== 'no_ball' && BOWLER_CREDITED_WICKETS.includes(wicketType);
+};
+
+/**
+ * Runs charged to the bowler for a delivery (byes and leg byes are not)
+ * @param ball - The recorded delivery
+ * @returns Runs conceded by the bowler
+ */
+export const bowlerRunsConceded = (ball: BallRecord): number => {
+  const extrasToBowler = ball.extras_type === 'wide' || ball.extras_type === 'no_ball';
+  return (ball.runs || 0) + (extrasToBowler ? (ball.extras_runs || 0) : 0);
+};
+
+/**
+ * Total runs added to the batting side for a delivery
+ * @param ball - The recorded delivery
+ * @returns Runs off the bat plus extras
+ */
+export const totalRunsForBall = (ball: BallRecord): number => {
+  return (ball.runs || 0) + (ball.extras_runs || 0);
+};
+
+/**
+ * Runs physically completed between the wickets, used for strike rotation
+ * @param ball - The recorded delivery
+ * @returns Number of runs the batsmen ran
+ */
+export const runsCompleted = (ball: BallRecord): number => {
+  const extras = ball.extras_runs || 0;
+  if (ball.extras_type === 'bye' || ball.extras_type === 'leg_bye') {
+    return (ball.runs || 0) + extras;
+  }
+  if (ball.extras_type === 'wide') {
+    // The first wide run is the penalty, anything beyond it was run
+    return Math.max(0, extras - 1);
+  }
+  return ball.runs || 0;
+};
+
+/**
+ * Describes a dismissal the way a scorecard prints it (e.g., "c Sharma b Khan", "run out (Patel)")
+ * @param dismissal - How the batsman was out
+ * @param getPlayerName - Looks up a player's name by id
+ * @returns The dismissal text
+ */
+export const formatDismissal = (dismissal: Dismissal, getPlayerName: (playerId: string) => string): string => {
+  const bowler = getPlayerName(dismissal.bowlerId);
+  const fielder = dismissal.fielderId ? getPlayerName(dismissal.fielderId) : null;
+
+  switch (dismissal.type) {
+    case 'bowled':
+      return `b ${bowler}`;
+    case 'lbw':
+      return `lbw b ${bowler}`;
+    case 'hit_wicket':
+      return `hit wicket b ${bowler}`;
+    case 'caught':
+      if (dismissal.fielderId === dismissal.bowlerId) return `c & b ${bowler}`;
+      return fielder ? `c ${fielder} b ${bowler}` : `c b ${bowler}`;
+    case 'stumped':
+      return fielder ? `st ${fielder} b ${bowler}` : `st b ${bowler}`;
+    case 'run_out':
+      return fielder ? `run out (${fielder})` : 'run out';
+    case 'obstructing_field':
+      return 'obstructing the field';
+    default:
+      return dismissal.type.replace(/_/g, ' ');
+  }
+};
+
+/**
+ * Formats a legal ball count as overs (e.g., 14 balls -> "2.2")
+ * @param legalBalls - Number of legal deliveries
+ * @returns Formatted overs string
+ */
+export const formatOvers = (legalBalls: number): string => {
+  return `${Math.floor(legalBalls / BALLS_PER_OVER)}.${legalBalls % BALLS_PER_OVER}`;
+};
+
+/**
+ * Strike rate (runs per 100 balls)
+ * @param runs - Runs scored
+ * @param balls - Balls faced
+ * @returns Strike rate, 0 when no balls were faced
+ */
+export const strikeRate = (runs: number, balls: number): number => {
+  return balls > 0 ? (runs * 100) / balls : 0;
+};
+
+/**
+ * Economy rate (runs per over)
+ * @param runs - Runs conceded
+ * @param balls - Legal balls bowled
+ * @returns Economy, 0 when no balls were bowled
+ */
+export const economyRate = (runs: number, balls: number): number => {
+  return balls > 0 ? (runs * BALLS_PER_OVER) / balls : 0;
+};
+
+/**
+ * Works out how many wickets end an innings for a squad
+ * @param squadSize - Players available to the batting side
+ * @returns 10 for a full side, one fewer than the squad otherwise
+ */
+export const wicketsToEndInnings = (squadSize: number): number => {
+  if (!squadSize || squadSize < 2) return MAX_WICKETS;
+  return Math.min(MAX_WICKETS, squadSize - 1);
+};
+
+/**
+ * Works out the wickets that end each innings from the squads picked for a match
+ * @param battingTeamIds - The teams in batting order
+ * @param players - The match's squad rows
+ * @returns Wickets for each innings, counting the playing XI when one was picked
+ */
+export const wicketsForSquads = (
+  battingTeamIds: string[],
+  players: { team_id: string; is_playing_xi: boolean | null }[]
+): number[] => {
+  return battingTeamIds.map(teamId => {
+    const squad = players.filter(p => p.team_id === teamId);
+    return wicketsToEndInnings(squad.filter(p => p.is_playing_xi).length || squad.length);
+  });
+};
+
+/**
+ * Sorts deliveries in the order they were bowled
+ * @param rows - Recorded deliveries
+ * @returns A new, ordered array
+ */
+export const sortDeliveries = <T extends BallRecord>(rows: T[]): T[] => {
+  return [...rows].sort((a, b) =>
+    a.inning - b.inning ||
+    a.over_number - b.over_number ||
+    (a.delivery_number ?? a.ball_number) - (b.delivery_number ?? b.ball_number) ||
+    (a.created_at || '').localeCompare(b.created_at || '')
+  );
+};
+
+const emptyBatter = (playerId: string): BatterStats => ({
+  playerId,
+  runs: 0,
+  balls: 0,
+  fours: 0,
+  sixes: 0,
+  isOut: false,
+  dismissal: null
+});
+
+const emptyBowler = (playerId: string): BowlerStats => ({
+  playerId,
+  balls: 0,
+  runs: 0,
+  wickets: 0,
+  maidens: 0,
+  dots: 0,
+  wides: 0,
+  noBalls: 0
+});
+
+/**
+ * Creates the state of an innings before its first ball
+ * @param inning - The innings number
+ * @param options - Match limits and optional opening pair
+ * @returns Initial innings state
+ */
+export const createInningsState = (inning: number, options: InningsOptions): InningsState => {
+  const [striker, nonStriker] = options.openers || [];
+  const battingOrder = [striker, nonStriker].filter(Boolean) as string[];
+  const batters: Record<string, BatterStats> = {};
+  battingOrder.forEach(id => { batters[id] = emptyBatter(id); });
+
+  return {
+    inning,
+    runs: 0,
+    wickets: 0,
+    legalBalls: 0,
+    extras: { wides: 0, noBalls: 0, byes: 0, legByes: 0, total: 0 },
+    striker: striker || null,
+    nonStriker: nonStriker || null,
+    bowler: null,
+    previousBowler: null,
+    partnership: { runs: 0, balls: 0 },
+    partnerships: [],
+    batters,
+    battingOrder,
+    bowlers: {},
+    bowlingOrder: [],
+    fallOfWickets: [],
+    deliveries: 0,
+    overRuns: 0,
+    nextPosition: { inning, over: 0, ball: 1, delivery: 1 },
+    maxWickets: options.maxWickets || MAX_WICKETS,
+    isComplete: false,
+    endReason: null,
+    next: { needsNewBatsman: false, needsNewBowler: false }
+  };
+};
+
+/**
+ * Applies one recorded delivery to an innings state
+ * @param state - State before the delivery
+ * @param ball - The recorded delivery
+ * @param options - Match limits
+ * @returns State after the delivery (the input is not mutated)
+ */
+export const applyDelivery = (state: InningsState, ball: BallRecord, options: InningsOptions): InningsState => {
+  const batters = { ...state.batters };
+  const bowlers = { ...state.bowlers };
+  const battingOrder = [...state.battingOrder];
+  const bowlingOrder = [...state.bowlingOrder];
+  const fallOfWickets = [...state.fallOfWickets];
+  const partnerships = [...state.partnerships];
+  const extras = { ...state.extras };
+  let { striker, nonStriker } = state;
+
+  // Bring the batsman on strike to the striker's end. A batsman we have not
+  // seen yet replaces whoever left the crease.
+  if (striker !== ball.batsman_id) {
+    if (nonStriker === ball.batsman_id) {
+      nonStriker = striker;
+    } else {
+      nonStriker = nonStriker ?? striker;
+    }
+    striker = ball.batsman_id;
+  }
+  [striker, nonStriker].forEach(id => {
+    if (id && !batters[id]) {
+      batters[id] = emptyBatter(id);
+      battingOrder.push(id);
+    }
+  });
+
+  if (!bowlers[ball.bowler_id]) {
+    bowlers[ball.bowler_id] = emptyBowler(ball.bowler_id);
+    bowlingOrder.push(ball.bowler_id);
+  }
+
+  const legal = isLegalDelivery(ball.extras_type);
+  const ballRuns = totalRunsForBall(ball);
+  const batRuns = ball.runs || 0;
+  const extrasRuns = ball.extras_runs || 0;
+  const legalBalls = state.legalBalls + (legal ? 1 : 0);
+
+  // Batting
+  const batter = { ...batters[ball.batsman_id] };
+  batter.runs += batRuns;
+  if (isBallFaced(ball.extras_type)) batter.balls += 1;
+  if (batRuns === 4) batter.fours += 1;
+  if (batRuns === 6) batter.sixes += 1;
+  batters[ball.batsman_id] = batter;
+
+  // Bowling
+  const bowler = { ...bowlers[ball.bowler_id] };
+  const conceded = bowlerRunsConceded(ball);
+  bowler.runs += conceded;
+  if (legal) bowler.balls += 1;
+  if (legal && conceded === 0) bowler.dots += 1;
+  if (ball.extras_type === 'wide') bowler.wides += 1;
+  if (ball.extras_type === 'no_ball') bowler.noBalls += 1;
+  if (isBowlerWicket(ball.wicket_type, ball.extras_type)) bowler.wickets += 1;
+  const isEndOfOver = legal && legalBalls % BALLS_PER_OVER === 0;
+  const overRuns = state.overRuns + conceded;
+  if (isEndOfOver && overRuns === 0) bowler.maidens += 1;
+  bowlers[ball.bowler_id] = bowler;
+
+  // Extras
+  if (ball.extras_type === 'wide') extras.wides += extrasRuns;
+  if (ball.extras_type === 'no_ball') extras.noBalls += extrasRuns;
+  if (ball.extras_type === 'bye') extras.byes += extrasRuns;
+  if (ball.extras_type === 'leg_bye') extras.legByes += extrasRuns;
+  extras.total = extras.wides + extras.noBalls + extras.byes + extras.legByes;
+
+  const runs = state.runs + ballRuns;
+  let partnership = {
+    runs: state.partnership.runs + ballRuns,
+    balls: state.partnership.balls + (legal ? 1 : 0)
+  };
+
+  // Strike rotation: odd runs first, then the change of ends after the over
+  if (shouldSwapBatsmen(runsCompleted(ball), false)) {
+    [striker, nonStriker] = [nonStriker, striker];
+  }
+  if (isEndOfOver) {
+    [striker, nonStriker] = [nonStriker, striker];
+  }
+
+  // Dismissal
+  let wickets = state.wickets;
+  if (ball.wicket_type) {
+    wickets += 1;
+    const dismissedId = ball.wicket_batsman_id || ball.batsman_id;
+    const dismissed = { ...(batters[dismissedId] || emptyBatter(dismissedId)) };
+    if (!batters[dismissedId]) battingOrder.push(dismissedId);
+    dismissed.isOut = true;
+    dismissed.dismissal = {
+      type: ball.wicket_type,
+      bowlerId: ball.bowler_id,
+      fielderId: ball.wicket_fielder_id || null
+    };
+    batters[dismissedId] = dismissed;
+    fallOfWickets.push({ wicket: wickets, runs, legalBalls, playerId: dismissedId });
+    partnerships.push({ ...partnership, wicket: wickets, batterIds: [striker, nonStriker].filter(Boolean) as string[] });
+    if (ball.run_out_end) {
+      // The new batsman takes the end the wicket was broken at, the survivor has the other
+      const survivor = striker === dismissedId ? nonStriker : striker;
+      const survivorOnStrike = (ball.run_out_end === 'non_striker') !== isEndOfOver;
+      striker = survivorOnStrike ? survivor : null;
+      nonStriker = survivorOnStrike ? null : survivor;
+    } else {
+      if (striker === dismissedId) striker = null;
+      if (nonStriker === dismissedId) nonStriker = null;
+    }
+    partnership = { runs: 0, balls: 0 };
+  }
+
+  let endReason: InningsEndReason | null = null;
+  if (options.target && runs >= options.target) {
+    endReason = 'target';
+  } else if (wickets >= state.maxWickets) {
+    endReason = 'all_out';
+  } else if (legalBalls >= options.totalOvers * BALLS_PER_OVER) {
+    endReason = 'overs';
+  }
+  const isComplete = endReason !== null;
+
+  return {
+    ...state,
+    runs,
+    wickets,
+    legalBalls,
+    extras,
+    striker,
+    nonStriker,
+    bowler: ball.bowler_id,
+    previousBowler: isEndOfOver ? ball.bowler_id : state.previousBowler,
+    partnership,
+    partnerships,
+    batters,
+    battingOrder,
+    bowlers,
+    bowlingOrder,
+    fallOfWickets,
+    deliveries: state.deliveries + 1,
+    overRuns: isEndOfOver ? 0 : overRuns,
+    nextPosition: nextSlot(ball, options.totalOvers, isComplete),
+    isComplete,
+    endReason,
+    next: {
+      needsNewBatsman: !!ball.wicket_type && !isComplete,
+      needsNewBowler: isEndOfOver && !isComplete
+    }
+  };
+};
+
+// The storage slot following a recorded delivery. Wides and no-balls keep
+// the legal ball number and only advance the delivery sequence.
+const nextSlot = (ball: BallRecord, totalOvers: number, inningsOver: boolean): OverPosition => {
+  const position: OverPosition = {
+    inning: ball.inning,
+    over: ball.over_number,
+    ball: ball.ball_number,
+    delivery: ball.delivery_number ?? ball.ball_number
+  };
+  return calculateNextPosition(
+    position,
+    totalOvers,
+    ball.runs || 0,
+    isLegalDelivery(ball.extras_type),
+    inningsOver
+  ).nextPosition;
+};
+
+/**
+ * Replays the deliveries of one innings
+ * @param rows - Recorded deliveries (any order, any innings)
+ * @param inning - The innings to compute
+ * @param options - Match limits, chase target and optional opening pair
+ * @returns The innings state after the last delivery
+ */
+export const computeInnings = (rows: BallRecord[], inning: number, options: InningsOptions): InningsState => {
+  return sortDeliveries(rows.filter(r => r.inning === inning))
+    .reduce((state, ball) => applyDelivery(state, ball, options), createInningsState(inning, options));
+};
+
+/**
+ * Replays every delivery of a match
+ * @param rows - Recorded deliveries for the match
+ * @param totalOvers - Overs per innings
+ * @param maxWickets - Wickets that end each innings, in batting order (defaults to 10)
+ * @returns Both innings and the innings currently in play
+ */
+export const computeMatch = (rows: BallRecord[], totalOvers: number, maxWickets: number[] = []): MatchState => {
+  const first = computeInnings(rows, 1, { totalOvers, maxWickets: maxWickets[0] });
+  const currentInning = first.isComplete || rows.some(r => r.inning === 2) ? 2 : 1;
+  const target = currentInning === 2 ? first.runs + 1 : null;
+  const second = computeInnings(rows, 2, { totalOvers, maxWickets: maxWickets[1], target });
+
+  return {
+    innings: [first, second],
+    currentInning,
+    target,
+    isComplete: second.isComplete
+  };
+};
+
+export interface PlayerMatchStats {
+  batting: BatterStats;
+  bowling: BowlerStats;
+  batted: boolean;
+  bowled: boolean;
+}
+
+/**
+ * Collects one player's batting and bowling figures across a match
+ * @param state - The computed match
+ * @param playerId - Profile ID of the player
+ * @returns Combined batting and bowling figures
+ */
+export const playerMatchStats = (state: MatchState, playerId: string): PlayerMatchStats => {
+  const batting = emptyBatter(playerId);
+  const bowling = emptyBowler(playerId);
+  let batted = false;
+  let bowled = false;
+
+  state.innings.forEach(innings => {
+    const bat = innings.batters[playerId];
+    if (bat) {
+      batted = true;
+      batting.runs += bat.runs;
+      batting.balls += bat.balls;
+      batting.fours += bat.fours;
+      batting.sixes += bat.sixes;
+      if (bat.isOut) {
+        batting.isOut = true;
+        batting.dismissal = bat.dismissal;
+      }
+    }
+    const bowl = innings.bowlers[playerId];
+    if (bowl) {
+      bowled = true;
+      bowling.balls += bowl.balls;
+      bowling.runs += bowl.runs;
+      bowling.wickets += bowl.wickets;
+      bowling.maidens += bowl.maidens;
+      bowling.dots += bowl.dots;
+      bowling.wides += bowl.wides;
+      bowling.noBalls += bowl.noBalls;
+    }
+  });
+
+  return { batting, bowling, batted, bowled };
+};
@@ -0,0 +1,22 @@
+-- Wides and no-balls are re-bowled, so an over can have more than six deliveries.
+-- ball_number stays the legal ball of the over (1-6) the delivery was bowled at;
+-- delivery_number orders every delivery within the over, illegal ones included.
+ALTER TABLE public.match_scores
+ADD COLUMN delivery_number INTEGER;
+
+-- Existing rows were stored one delivery per ball number
+UPDATE public.match_scores
+SET delivery_number = ball_number
+WHERE delivery_number IS NULL;
+
+ALTER TABLE public.match_scores
+ALTER COLUMN delivery_number SET NOT NULL,
+ADD CONSTRAINT match_scores_delivery_number_check CHECK (delivery_number >= 1);
+
+-- An illegal delivery shares its ball_number with the delivery that re-bowls it
+ALTER TABLE public.match_scores
+DROP CONSTRAINT IF EXISTS match_scores_match_id_inning_over_number_ball_number_key;
+
+ALTER TABLE public.match_scores
+ADD CONSTRAINT match_scores_match_id_inning_over_number_delivery_number_key
+UNIQUE (match_id, inning, over_number, delivery_number);
@@ -0,0 +1,14 @@
+-- Store the outcome of completed matches
+ALTER TABLE public.matches
+ADD COLUMN result_type TEXT CHECK (result_type IN ('win', 'tie', 'no_result')),
+ADD COLUMN winner_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+ADD COLUMN result_margin INTEGER CHECK (result_margin >= 0),
+ADD COLUMN result_margin_type TEXT CHECK (result_margin_type IN ('runs', 'wickets')),
+ADD COLUMN result_balls_remaining INTEGER CHECK (result_balls_remaining >= 0);
+
+-- A win always names the winner and how it was won
+ALTER TABLE public.matches
+ADD CONSTRAINT matches_result_winner_check CHECK (
+  result_type IS DISTINCT FROM 'win'
+  OR (winner_team_id IS NOT NULL AND result_margin IS NOT NULL AND result_margin_type IS NOT NULL)
+);
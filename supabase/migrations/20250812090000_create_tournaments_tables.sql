@@ -0,0 +1,132 @@
+-- Create tournaments table
+CREATE TABLE public.tournaments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  location TEXT,
+  start_date DATE,
+  end_date DATE,
+  overs INTEGER NOT NULL DEFAULT 20 CHECK (overs >= 1 AND overs <= 999),
+  status TEXT NOT NULL DEFAULT 'upcoming' CHECK (status IN ('upcoming', 'ongoing', 'completed')),
+  created_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT valid_dates CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+);
+
+-- Create tournament_teams table (participating teams)
+CREATE TABLE public.tournament_teams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(tournament_id, team_id)
+);
+
+-- Create tournament_matches table (a match belongs to at most one tournament)
+CREATE TABLE public.tournament_matches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tournament_id UUID NOT NULL REFERENCES public.tournaments(id) ON DELETE CASCADE,
+  match_id UUID NOT NULL UNIQUE REFERENCES public.matches(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.tournaments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tournament_matches ENABLE ROW LEVEL SECURITY;
+
+-- Tournaments policies
+CREATE POLICY "Anyone can view tournaments"
+ON public.tournaments
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Authenticated users can create tournaments"
+ON public.tournaments
+FOR INSERT
+WITH CHECK (
+  created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Tournament creator can update tournament"
+ON public.tournaments
+FOR UPDATE
+USING (
+  created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Tournament creator can delete tournament"
+ON public.tournaments
+FOR DELETE
+USING (
+  created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+-- Tournament teams policies
+CREATE POLICY "Anyone can view tournament teams"
+ON public.tournament_teams
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Tournament creator can add teams"
+ON public.tournament_teams
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = tournament_teams.tournament_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Tournament creator can remove teams"
+ON public.tournament_teams
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = tournament_teams.tournament_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+-- Tournament matches policies
+CREATE POLICY "Anyone can view tournament matches"
+ON public.tournament_matches
+FOR SELECT
+USING (true);
+
+-- Only their own matches: a tournament cannot claim someone else's match
+CREATE POLICY "Tournament creator can add matches"
+ON public.tournament_matches
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = tournament_matches.tournament_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+  AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = tournament_matches.match_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Tournament creator can remove matches"
+ON public.tournament_matches
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = tournament_matches.tournament_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+-- Create trigger for automatic timestamp updates on tournaments
+CREATE TRIGGER update_tournaments_updated_at
+BEFORE UPDATE ON public.tournaments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
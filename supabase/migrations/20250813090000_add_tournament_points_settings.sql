@@ -0,0 +1,9 @@
+-- Tournament format and points table settings
+ALTER TABLE public.tournaments
+ADD COLUMN format TEXT NOT NULL DEFAULT 'league' CHECK (format IN ('league', 'groups', 'knockout')),
+ADD COLUMN points_for_win INTEGER NOT NULL DEFAULT 2 CHECK (points_for_win >= 0),
+ADD COLUMN points_for_tie INTEGER NOT NULL DEFAULT 1 CHECK (points_for_tie >= 0),
+ADD COLUMN points_for_no_result INTEGER NOT NULL DEFAULT 1 CHECK (points_for_no_result >= 0),
+-- Applied in order when teams are level on points
+ADD COLUMN tie_breakers TEXT[] NOT NULL DEFAULT ARRAY['wins', 'nrr', 'head_to_head']
+  CHECK (tie_breakers <@ ARRAY['wins', 'nrr', 'head_to_head', 'runs_for']);
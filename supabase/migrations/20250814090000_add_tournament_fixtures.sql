@@ -0,0 +1,142 @@
+-- Fixture details for tournament matches. Knockout fixtures whose teams are still
+-- to be decided have no match until both teams are known.
+ALTER TABLE public.tournament_matches
+ALTER COLUMN match_id DROP NOT NULL,
+ADD COLUMN stage TEXT NOT NULL DEFAULT 'league' CHECK (stage IN ('league', 'group', 'knockout')),
+ADD COLUMN group_name TEXT,
+ADD COLUMN round INTEGER CHECK (round >= 1),
+ADD COLUMN match_number INTEGER CHECK (match_number >= 1),
+ADD COLUMN team_a_id UUID REFERENCES public.teams(id) ON DELETE CASCADE,
+ADD COLUMN team_b_id UUID REFERENCES public.teams(id) ON DELETE CASCADE,
+-- Where an undecided team comes from: 'group:<group>:<position>' or 'winner:<match number>'
+ADD COLUMN team_a_source TEXT,
+ADD COLUMN team_b_source TEXT,
+ADD COLUMN scheduled_date DATE,
+ADD COLUMN scheduled_time TIME,
+ADD COLUMN next_fixture_id UUID REFERENCES public.tournament_matches(id) ON DELETE SET NULL,
+ADD COLUMN next_fixture_slot TEXT CHECK (next_fixture_slot IN ('a', 'b'));
+
+-- Fixtures still waiting for their teams are saved without a match
+DROP POLICY "Tournament creator can add matches" ON public.tournament_matches;
+
+CREATE POLICY "Tournament creator can add matches"
+ON public.tournament_matches
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = tournament_matches.tournament_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+  AND (
+    match_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.matches
+      WHERE id = tournament_matches.match_id
+      AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    )
+  )
+);
+
+CREATE POLICY "Tournament creator can update matches"
+ON public.tournament_matches
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = tournament_matches.tournament_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.tournaments
+    WHERE id = tournament_matches.tournament_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+  AND (
+    match_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.matches
+      WHERE id = tournament_matches.match_id
+      AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    )
+  )
+);
+
+-- Move a knockout winner into their next fixture, creating its match once both teams are known
+CREATE OR REPLACE FUNCTION public.advance_knockout_winner()
+RETURNS TRIGGER AS $$
+DECLARE
+  fixture public.tournament_matches%ROWTYPE;
+  next_fixture public.tournament_matches%ROWTYPE;
+  tournament public.tournaments%ROWTYPE;
+BEGIN
+  IF NEW.winner_team_id IS NULL OR NEW.winner_team_id IS NOT DISTINCT FROM OLD.winner_team_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO fixture
+  FROM public.tournament_matches
+  WHERE match_id = NEW.id AND next_fixture_id IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO next_fixture
+  FROM public.tournament_matches
+  WHERE id = fixture.next_fixture_id;
+
+  -- Leave the next fixture alone once it has started
+  IF next_fixture.match_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = next_fixture.match_id AND status <> 'scheduled'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF fixture.next_fixture_slot = 'a' THEN
+    next_fixture.team_a_id := NEW.winner_team_id;
+  ELSE
+    next_fixture.team_b_id := NEW.winner_team_id;
+  END IF;
+
+  IF next_fixture.match_id IS NOT NULL THEN
+    UPDATE public.matches
+    SET team_a_id = next_fixture.team_a_id, team_b_id = next_fixture.team_b_id
+    WHERE id = next_fixture.match_id;
+  ELSIF next_fixture.team_a_id IS NOT NULL AND next_fixture.team_b_id IS NOT NULL THEN
+    SELECT * INTO tournament
+    FROM public.tournaments
+    WHERE id = next_fixture.tournament_id;
+
+    INSERT INTO public.matches (name, date, time, location, team_a_id, team_b_id, overs, created_by)
+    VALUES (
+      (SELECT name FROM public.teams WHERE id = next_fixture.team_a_id) || ' vs ' ||
+        (SELECT name FROM public.teams WHERE id = next_fixture.team_b_id),
+      COALESCE(next_fixture.scheduled_date, CURRENT_DATE),
+      COALESCE(next_fixture.scheduled_time, '10:00'),
+      tournament.location,
+      next_fixture.team_a_id,
+      next_fixture.team_b_id,
+      tournament.overs,
+      tournament.created_by
+    )
+    RETURNING id INTO next_fixture.match_id;
+  END IF;
+
+  UPDATE public.tournament_matches
+  SET team_a_id = next_fixture.team_a_id,
+      team_b_id = next_fixture.team_b_id,
+      match_id = next_fixture.match_id
+  WHERE id = next_fixture.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER advance_knockout_winner_on_result
+AFTER UPDATE OF winner_team_id ON public.matches
+FOR EACH ROW
+EXECUTE FUNCTION public.advance_knockout_winner();
@@ -0,0 +1,6 @@
+-- Broadcast ball-by-ball and match changes to spectators
+ALTER PUBLICATION supabase_realtime ADD TABLE public.match_scores;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.matches;
+
+-- Deleted balls carry their match_id so spectators can tell which match they belong to
+ALTER TABLE public.match_scores REPLICA IDENTITY FULL;
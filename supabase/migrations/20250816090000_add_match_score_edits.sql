@@ -0,0 +1,180 @@
+-- Scorers can correct or remove any recorded ball
+CREATE POLICY "Match creator or team captain can update match scores"
+ON public.match_scores
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = match_scores.match_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+  OR
+  EXISTS (
+    SELECT 1 FROM public.match_players mp
+    JOIN public.team_players tp ON mp.team_id = tp.team_id
+    WHERE mp.match_id = match_scores.match_id
+    AND tp.player_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND tp.role = 'captain'
+  )
+);
+
+CREATE POLICY "Match creator or team captain can delete match scores"
+ON public.match_scores
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = match_scores.match_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+  OR
+  EXISTS (
+    SELECT 1 FROM public.match_players mp
+    JOIN public.team_players tp ON mp.team_id = tp.team_id
+    WHERE mp.match_id = match_scores.match_id
+    AND tp.player_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND tp.role = 'captain'
+  )
+);
+
+-- Corrections made to recorded balls. Rows are never updated or deleted.
+CREATE TABLE public.match_score_edits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id UUID NOT NULL REFERENCES public.matches(id) ON DELETE CASCADE,
+  -- Not a foreign key: the ball may have been deleted
+  match_score_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete')),
+  before JSONB NOT NULL,
+  after JSONB,
+  reason TEXT,
+  edited_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.match_score_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view match score edits"
+ON public.match_score_edits
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Scorers can record their own edits"
+ON public.match_score_edits
+FOR INSERT
+WITH CHECK (
+  edited_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND (
+    EXISTS (
+      SELECT 1 FROM public.matches
+      WHERE id = match_score_edits.match_id
+      AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    )
+    OR
+    EXISTS (
+      SELECT 1 FROM public.match_players mp
+      JOIN public.team_players tp ON mp.team_id = tp.team_id
+      WHERE mp.match_id = match_score_edits.match_id
+      AND tp.player_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+      AND tp.role = 'captain'
+    )
+  )
+);
+
+-- Positions are renumbered in a single statement, so the unique position is checked once
+-- the statement has finished rather than row by row while balls are moving past each other
+ALTER TABLE public.match_scores
+DROP CONSTRAINT match_scores_match_id_inning_over_number_delivery_number_key,
+ADD CONSTRAINT match_scores_match_id_inning_over_number_delivery_number_key
+UNIQUE (match_id, inning, over_number, delivery_number) DEFERRABLE INITIALLY IMMEDIATE;
+
+-- Renumbers an innings after a ball was changed or removed. Deliveries keep the order they
+-- were bowled in; each legal ball moves the next one on, and every over holds six of them.
+CREATE OR REPLACE FUNCTION public.resequence_match_scores(resequence_match_id UUID, resequence_inning INTEGER)
+RETURNS VOID AS $$
+  WITH ordered AS (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (ORDER BY over_number, delivery_number, created_at, id) AS bowled,
+      COALESCE(SUM(CASE WHEN extras_type IN ('wide', 'no_ball') THEN 0 ELSE 1 END) OVER (
+        ORDER BY over_number, delivery_number, created_at, id
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ), 0) AS legal_before
+    FROM public.match_scores
+    WHERE match_id = resequence_match_id AND inning = resequence_inning
+  ),
+  positioned AS (
+    SELECT
+      id,
+      legal_before / 6 AS over_number,
+      legal_before % 6 + 1 AS ball_number,
+      ROW_NUMBER() OVER (PARTITION BY legal_before / 6 ORDER BY bowled) AS delivery_number
+    FROM ordered
+  )
+  UPDATE public.match_scores s
+  SET over_number = p.over_number,
+      ball_number = p.ball_number,
+      delivery_number = p.delivery_number
+  FROM positioned p
+  WHERE s.id = p.id
+  AND (s.over_number, s.ball_number, s.delivery_number) IS DISTINCT FROM (p.over_number, p.ball_number, p.delivery_number);
+$$ LANGUAGE sql;
+
+-- Corrects or deletes a ball, renumbers its innings and logs the edit in one transaction, so a
+-- failure part way leaves nothing half done. It runs as the caller, so the scorer policies on
+-- match_scores and match_score_edits still decide who may correct what. Null changes delete.
+CREATE OR REPLACE FUNCTION public.correct_match_score(ball_id UUID, changes JSONB, reason TEXT)
+RETURNS VOID AS $$
+DECLARE
+  ball public.match_scores;
+  corrected public.match_scores;
+  editor_id UUID;
+BEGIN
+  SELECT id INTO editor_id FROM public.profiles WHERE user_id = auth.uid();
+
+  SELECT s.* INTO ball
+  FROM public.match_scores s
+  WHERE s.id = ball_id
+  FOR UPDATE;
+
+  IF ball.id IS NULL THEN
+    RAISE EXCEPTION 'Ball not found';
+  END IF;
+
+  IF changes IS NULL THEN
+    DELETE FROM public.match_scores WHERE id = ball.id;
+  ELSE
+    corrected := jsonb_populate_record(ball, changes);
+    UPDATE public.match_scores
+    SET batsman_id = corrected.batsman_id,
+        bowler_id = corrected.bowler_id,
+        runs = corrected.runs,
+        extras_type = corrected.extras_type,
+        extras_runs = corrected.extras_runs,
+        wicket_type = corrected.wicket_type,
+        wicket_batsman_id = corrected.wicket_batsman_id,
+        wicket_fielder_id = corrected.wicket_fielder_id,
+        run_out_end = corrected.run_out_end
+    WHERE id = ball.id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the match scorers can correct this ball';
+  END IF;
+
+  PERFORM public.resequence_match_scores(ball.match_id, ball.inning);
+
+  -- The ball as it ended up, at its new position
+  SELECT s.* INTO corrected FROM public.match_scores s WHERE s.id = ball.id;
+
+  INSERT INTO public.match_score_edits (match_id, match_score_id, action, before, after, reason, edited_by)
+  VALUES (
+    ball.match_id,
+    ball.id,
+    CASE WHEN changes IS NULL THEN 'delete' ELSE 'edit' END,
+    to_jsonb(ball),
+    CASE WHEN changes IS NULL THEN NULL ELSE to_jsonb(corrected) END,
+    NULLIF(trim(correct_match_score.reason), ''),
+    editor_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
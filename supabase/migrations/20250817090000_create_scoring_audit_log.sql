@@ -0,0 +1,72 @@
+-- Append-only history of every change to balls and matches, written by triggers.
+-- match_id is not a foreign key so the history outlives a deleted match.
+CREATE TABLE public.scoring_audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id UUID NOT NULL,
+  table_name TEXT NOT NULL CHECK (table_name IN ('match_scores', 'matches')),
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.scoring_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- No insert, update or delete policies: only the triggers below write here
+CREATE POLICY "Anyone can view the scoring audit log"
+ON public.scoring_audit_log
+FOR SELECT
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'scoring_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER scoring_audit_log_append_only
+BEFORE UPDATE OR DELETE ON public.scoring_audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE OR REPLACE FUNCTION public.log_scoring_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_data JSONB := CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END;
+  new_data JSONB := CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END;
+  row_data JSONB := COALESCE(new_data, old_data);
+BEGIN
+  -- The scorer's crease selection is saved on every change of batsman or bowler; that is not scoring
+  IF TG_TABLE_NAME = 'matches' AND TG_OP = 'UPDATE' AND
+     (old_data - 'current_batsmen' - 'current_bowler_id' - 'updated_at') =
+     (new_data - 'current_batsmen' - 'current_bowler_id' - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.scoring_audit_log (match_id, table_name, record_id, action, actor_id, before, after)
+  VALUES (
+    CASE WHEN TG_TABLE_NAME = 'matches' THEN (row_data ->> 'id')::UUID ELSE (row_data ->> 'match_id')::UUID END,
+    TG_TABLE_NAME,
+    (row_data ->> 'id')::UUID,
+    lower(TG_OP),
+    (SELECT id FROM public.profiles WHERE user_id = auth.uid()),
+    old_data,
+    new_data
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_match_scores_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.match_scores
+FOR EACH ROW
+EXECUTE FUNCTION public.log_scoring_change();
+
+CREATE TRIGGER log_matches_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.matches
+FOR EACH ROW
+EXECUTE FUNCTION public.log_scoring_change();
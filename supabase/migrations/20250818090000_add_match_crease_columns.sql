@@ -0,0 +1,5 @@
+-- The scorer's current batsmen and bowler, so scoring can resume where it left off.
+-- The app has written these since live scoring was added; this brings the schema in line.
+ALTER TABLE public.matches
+ADD COLUMN IF NOT EXISTS current_batsmen UUID[],
+ADD COLUMN IF NOT EXISTS current_bowler_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
@@ -0,0 +1,98 @@
+-- Player figures worked out in the database instead of replaying every ball in the browser.
+-- The rules match src/utils/scoringEngine.ts: wides are not balls faced, wides and no-balls
+-- are not legal deliveries, byes and leg byes are not charged to the bowler and run outs
+-- are not credited to the bowler.
+
+-- One row per player per match they were picked for
+CREATE OR REPLACE VIEW public.player_match_stats
+WITH (security_invoker = true) AS
+SELECT
+  mp.player_id,
+  mp.team_id,
+  m.id AS match_id,
+  m.name,
+  m.date,
+  m.overs,
+  m.status,
+  COALESCE(bat.batted, false) AS batted,
+  COALESCE(bat.runs, 0) AS bat_runs,
+  COALESCE(bat.balls, 0) AS bat_balls,
+  COALESCE(bat.fours, 0) AS fours,
+  COALESCE(bat.sixes, 0) AS sixes,
+  COALESCE(bat.is_out, false) AS is_out,
+  bowl.player_id IS NOT NULL AS bowled,
+  COALESCE(bowl.balls, 0) AS bowl_balls,
+  COALESCE(bowl.runs, 0) AS bowl_runs,
+  COALESCE(bowl.wickets, 0) AS bowl_wickets,
+  COALESCE(field.catches, 0) AS catches,
+  CASE
+    WHEN m.status <> 'completed' THEN NULL
+    WHEN m.result_type = 'win' AND m.winner_team_id = mp.team_id THEN 'W'
+    WHEN m.result_type = 'win' THEN 'L'
+    WHEN m.result_type = 'tie' THEN 'T'
+    WHEN m.result_type = 'no_result' THEN 'NR'
+  END AS outcome
+FROM public.match_players mp
+JOIN public.matches m ON m.id = mp.match_id
+LEFT JOIN LATERAL (
+  SELECT
+    true AS batted,
+    SUM(s.runs) FILTER (WHERE s.batsman_id = mp.player_id)::INTEGER AS runs,
+    COUNT(*) FILTER (WHERE s.batsman_id = mp.player_id AND s.extras_type IS DISTINCT FROM 'wide')::INTEGER AS balls,
+    COUNT(*) FILTER (WHERE s.batsman_id = mp.player_id AND s.runs = 4)::INTEGER AS fours,
+    COUNT(*) FILTER (WHERE s.batsman_id = mp.player_id AND s.runs = 6)::INTEGER AS sixes,
+    bool_or(s.wicket_type IS NOT NULL AND COALESCE(s.wicket_batsman_id, s.batsman_id) = mp.player_id) AS is_out
+  FROM public.match_scores s
+  WHERE s.match_id = m.id
+    AND (s.batsman_id = mp.player_id OR s.wicket_batsman_id = mp.player_id)
+  HAVING COUNT(*) > 0
+) bat ON true
+LEFT JOIN LATERAL (
+  SELECT
+    s.bowler_id AS player_id,
+    COUNT(*) FILTER (WHERE s.extras_type IS NULL OR s.extras_type NOT IN ('wide', 'no_ball'))::INTEGER AS balls,
+    SUM(s.runs + CASE WHEN s.extras_type IN ('wide', 'no_ball') THEN COALESCE(s.extras_runs, 0) ELSE 0 END)::INTEGER AS runs,
+    COUNT(*) FILTER (WHERE s.wicket_type IN ('bowled', 'caught', 'lbw', 'stumped', 'hit_wicket'))::INTEGER AS wickets
+  FROM public.match_scores s
+  WHERE s.match_id = m.id
+    AND s.bowler_id = mp.player_id
+  GROUP BY s.bowler_id
+) bowl ON true
+LEFT JOIN LATERAL (
+  SELECT COUNT(*)::INTEGER AS catches
+  FROM public.match_scores s
+  WHERE s.match_id = m.id
+    AND s.wicket_type = 'caught'
+    AND s.wicket_fielder_id = mp.player_id
+) field ON true;
+
+-- Career totals, one row per player who has been picked for a match
+CREATE OR REPLACE VIEW public.player_career_stats
+WITH (security_invoker = true) AS
+SELECT
+  player_id,
+  COUNT(*)::INTEGER AS matches,
+  COUNT(*) FILTER (WHERE batted)::INTEGER AS innings,
+  SUM(bat_runs)::INTEGER AS runs,
+  SUM(bat_balls)::INTEGER AS balls_faced,
+  COUNT(*) FILTER (WHERE is_out)::INTEGER AS dismissals,
+  COUNT(*) FILTER (WHERE bat_runs >= 50 AND bat_runs < 100)::INTEGER AS fifties,
+  COUNT(*) FILTER (WHERE bat_runs >= 100)::INTEGER AS hundreds,
+  SUM(fours)::INTEGER AS fours,
+  SUM(sixes)::INTEGER AS sixes,
+  MAX(bat_runs) FILTER (WHERE batted) AS highest_score,
+  -- A not-out innings ranks above a dismissal for the same score
+  (array_agg(NOT is_out ORDER BY bat_runs DESC, is_out) FILTER (WHERE batted))[1] AS highest_score_not_out,
+  SUM(bowl_balls)::INTEGER AS balls_bowled,
+  SUM(bowl_runs)::INTEGER AS runs_conceded,
+  SUM(bowl_wickets)::INTEGER AS wickets,
+  -- Best figures are the most wickets, then the fewest runs
+  (array_agg(bowl_wickets ORDER BY bowl_wickets DESC, bowl_runs) FILTER (WHERE bowled))[1] AS best_bowling_wickets,
+  (array_agg(bowl_runs ORDER BY bowl_wickets DESC, bowl_runs) FILTER (WHERE bowled))[1] AS best_bowling_runs,
+  SUM(catches)::INTEGER AS catches,
+  COUNT(*) FILTER (WHERE outcome = 'W')::INTEGER AS won,
+  COUNT(*) FILTER (WHERE outcome = 'L')::INTEGER AS lost,
+  COUNT(*) FILTER (WHERE outcome = 'T')::INTEGER AS tied,
+  COUNT(*) FILTER (WHERE outcome = 'NR')::INTEGER AS no_result
+FROM public.player_match_stats
+GROUP BY player_id;
@@ -0,0 +1,116 @@
+-- Stumpings are counted alongside catches. New view columns have to go at the end.
+CREATE OR REPLACE VIEW public.player_match_stats
+WITH (security_invoker = true) AS
+SELECT
+  mp.player_id,
+  mp.team_id,
+  m.id AS match_id,
+  m.name,
+  m.date,
+  m.overs,
+  m.status,
+  COALESCE(bat.batted, false) AS batted,
+  COALESCE(bat.runs, 0) AS bat_runs,
+  COALESCE(bat.balls, 0) AS bat_balls,
+  COALESCE(bat.fours, 0) AS fours,
+  COALESCE(bat.sixes, 0) AS sixes,
+  COALESCE(bat.is_out, false) AS is_out,
+  bowl.player_id IS NOT NULL AS bowled,
+  COALESCE(bowl.balls, 0) AS bowl_balls,
+  COALESCE(bowl.runs, 0) AS bowl_runs,
+  COALESCE(bowl.wickets, 0) AS bowl_wickets,
+  COALESCE(field.catches, 0) AS catches,
+  CASE
+    WHEN m.status <> 'completed' THEN NULL
+    WHEN m.result_type = 'win' AND m.winner_team_id = mp.team_id THEN 'W'
+    WHEN m.result_type = 'win' THEN 'L'
+    WHEN m.result_type = 'tie' THEN 'T'
+    WHEN m.result_type = 'no_result' THEN 'NR'
+  END AS outcome,
+  COALESCE(field.stumpings, 0) AS stumpings
+FROM public.match_players mp
+JOIN public.matches m ON m.id = mp.match_id
+LEFT JOIN LATERAL (
+  SELECT
+    true AS batted,
+    SUM(s.runs) FILTER (WHERE s.batsman_id = mp.player_id)::INTEGER AS runs,
+    COUNT(*) FILTER (WHERE s.batsman_id = mp.player_id AND s.extras_type IS DISTINCT FROM 'wide')::INTEGER AS balls,
+    COUNT(*) FILTER (WHERE s.batsman_id = mp.player_id AND s.runs = 4)::INTEGER AS fours,
+    COUNT(*) FILTER (WHERE s.batsman_id = mp.player_id AND s.runs = 6)::INTEGER AS sixes,
+    bool_or(s.wicket_type IS NOT NULL AND COALESCE(s.wicket_batsman_id, s.batsman_id) = mp.player_id) AS is_out
+  FROM public.match_scores s
+  WHERE s.match_id = m.id
+    AND (s.batsman_id = mp.player_id OR s.wicket_batsman_id = mp.player_id)
+  HAVING COUNT(*) > 0
+) bat ON true
+LEFT JOIN LATERAL (
+  SELECT
+    s.bowler_id AS player_id,
+    COUNT(*) FILTER (WHERE s.extras_type IS NULL OR s.extras_type NOT IN ('wide', 'no_ball'))::INTEGER AS balls,
+    SUM(s.runs + CASE WHEN s.extras_type IN ('wide', 'no_ball') THEN COALESCE(s.extras_runs, 0) ELSE 0 END)::INTEGER AS runs,
+    COUNT(*) FILTER (WHERE s.wicket_type IN ('bowled', 'caught', 'lbw', 'stumped', 'hit_wicket'))::INTEGER AS wickets
+  FROM public.match_scores s
+  WHERE s.match_id = m.id
+    AND s.bowler_id = mp.player_id
+  GROUP BY s.bowler_id
+) bowl ON true
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE s.wicket_type = 'caught')::INTEGER AS catches,
+    COUNT(*) FILTER (WHERE s.wicket_type = 'stumped')::INTEGER AS stumpings
+  FROM public.match_scores s
+  WHERE s.match_id = m.id
+    AND s.wicket_fielder_id = mp.player_id
+) field ON true;
+
+-- Player totals for the leaderboards, optionally limited to a date range, a team or a tournament.
+-- Every filter left NULL is ignored.
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+  from_date DATE DEFAULT NULL,
+  to_date DATE DEFAULT NULL,
+  filter_team_id UUID DEFAULT NULL,
+  filter_tournament_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  player_id UUID,
+  name TEXT,
+  image_url TEXT,
+  matches INTEGER,
+  innings INTEGER,
+  runs INTEGER,
+  balls_faced INTEGER,
+  dismissals INTEGER,
+  sixes INTEGER,
+  balls_bowled INTEGER,
+  runs_conceded INTEGER,
+  wickets INTEGER,
+  catches INTEGER,
+  stumpings INTEGER
+) AS $$
+  SELECT
+    pms.player_id,
+    p.name,
+    p.image_url,
+    COUNT(*)::INTEGER,
+    COUNT(*) FILTER (WHERE pms.batted)::INTEGER,
+    SUM(pms.bat_runs)::INTEGER,
+    SUM(pms.bat_balls)::INTEGER,
+    COUNT(*) FILTER (WHERE pms.is_out)::INTEGER,
+    SUM(pms.sixes)::INTEGER,
+    SUM(pms.bowl_balls)::INTEGER,
+    SUM(pms.bowl_runs)::INTEGER,
+    SUM(pms.bowl_wickets)::INTEGER,
+    SUM(pms.catches)::INTEGER,
+    SUM(pms.stumpings)::INTEGER
+  FROM public.player_match_stats pms
+  JOIN public.profiles p ON p.id = pms.player_id
+  WHERE (get_leaderboard.from_date IS NULL OR pms.date >= get_leaderboard.from_date)
+    AND (get_leaderboard.to_date IS NULL OR pms.date <= get_leaderboard.to_date)
+    AND (get_leaderboard.filter_team_id IS NULL OR pms.team_id = get_leaderboard.filter_team_id)
+    AND (get_leaderboard.filter_tournament_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.tournament_matches tm
+      WHERE tm.match_id = pms.match_id
+        AND tm.tournament_id = get_leaderboard.filter_tournament_id
+    ))
+  GROUP BY pms.player_id, p.name, p.image_url;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,88 @@
+-- MVP points and Player of the Match.
+-- A tournament can set its own MVP scoring rules; NULL uses the defaults in src/utils/mvp.ts.
+ALTER TABLE public.tournaments
+ADD COLUMN mvp_rules JSONB;
+
+-- The suggested pick is saved when a match completes. Once the creator overrides it,
+-- later corrections to the balls no longer replace their choice.
+ALTER TABLE public.matches
+ADD COLUMN player_of_match_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN player_of_match_overridden BOOLEAN NOT NULL DEFAULT false;
+
+-- Each player's MVP points in a completed match, worked out from the recorded balls
+CREATE TABLE public.match_mvp_points (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id UUID NOT NULL REFERENCES public.matches(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  batting_points NUMERIC NOT NULL DEFAULT 0,
+  bowling_points NUMERIC NOT NULL DEFAULT 0,
+  fielding_points NUMERIC NOT NULL DEFAULT 0,
+  total_points NUMERIC NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (match_id, player_id)
+);
+
+ALTER TABLE public.match_mvp_points ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view MVP points"
+ON public.match_mvp_points
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Match creator can add MVP points"
+ON public.match_mvp_points
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.matches m
+    WHERE m.id = match_id
+    AND m.created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Match creator can delete MVP points"
+ON public.match_mvp_points
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.matches m
+    WHERE m.id = match_id
+    AND m.created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+-- Season MVP ranking: points added up across a tournament's matches
+CREATE OR REPLACE VIEW public.season_mvp_standings
+WITH (security_invoker = true) AS
+SELECT
+  tm.tournament_id,
+  p.player_id,
+  COUNT(*)::INTEGER AS matches,
+  SUM(p.total_points) AS points,
+  COUNT(*) FILTER (WHERE m.player_of_match_id = p.player_id)::INTEGER AS awards,
+  RANK() OVER (PARTITION BY tm.tournament_id ORDER BY SUM(p.total_points) DESC)::INTEGER AS rank,
+  COUNT(*) OVER (PARTITION BY tm.tournament_id)::INTEGER AS players
+FROM public.match_mvp_points p
+JOIN public.matches m ON m.id = p.match_id
+JOIN public.tournament_matches tm ON tm.match_id = p.match_id
+GROUP BY tm.tournament_id, p.player_id;
+
+-- Swaps a match's MVP points for a freshly worked out set in one transaction, so a failed
+-- insert never leaves the match without points. It runs as the caller, so the policies
+-- above still decide who may save them.
+CREATE OR REPLACE FUNCTION public.replace_match_mvp_points(mvp_match_id UUID, points JSONB)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM public.match_mvp_points WHERE match_id = mvp_match_id;
+
+  INSERT INTO public.match_mvp_points (match_id, player_id, batting_points, bowling_points, fielding_points, total_points)
+  SELECT mvp_match_id, p.player_id, p.batting_points, p.bowling_points, p.fielding_points, p.total_points
+  FROM jsonb_to_recordset(points) AS p(
+    player_id UUID,
+    batting_points NUMERIC,
+    bowling_points NUMERIC,
+    fielding_points NUMERIC,
+    total_points NUMERIC
+  );
+END;
+$$ LANGUAGE plpgsql;
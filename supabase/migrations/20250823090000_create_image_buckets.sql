@@ -0,0 +1,106 @@
+-- Profile photos and team logos. Both buckets are public to read; files are stored
+-- under the owner's folder: avatars/<auth user id>/..., team-logos/<team id>/...
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES
+  ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp']),
+  ('team-logos', 'team-logos', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Images are viewable by everyone"
+ON storage.objects
+FOR SELECT
+USING (bucket_id IN ('avatars', 'team-logos'));
+
+-- Each user writes only their own folder of the avatars bucket
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can update their own avatar"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+)
+WITH CHECK (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their own avatar"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'avatars'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- Only the captain writes a team's folder of the team-logos bucket
+CREATE POLICY "Team captain can upload the team logo"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'team-logos'
+  AND EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE teams.id::text = (storage.foldername(name))[1]
+    AND teams.captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Team captain can update the team logo"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'team-logos'
+  AND EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE teams.id::text = (storage.foldername(name))[1]
+    AND teams.captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+)
+WITH CHECK (
+  bucket_id = 'team-logos'
+  AND EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE teams.id::text = (storage.foldername(name))[1]
+    AND teams.captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Team captain can delete the team logo"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'team-logos'
+  AND EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE teams.id::text = (storage.foldername(name))[1]
+    AND teams.captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+-- The captain saves the new logo_url on the team. The original policy compared
+-- team_players.team_id with team_players.id, so it never matched. The captain may
+-- also hand the team to another of its players.
+DROP POLICY "Team captain can update team" ON public.teams;
+
+CREATE POLICY "Team captain can update team"
+ON public.teams
+FOR UPDATE
+USING (
+  captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+)
+WITH CHECK (
+  captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM public.team_players
+    WHERE team_players.team_id = teams.id
+    AND team_players.player_id = teams.captain_id
+  )
+);
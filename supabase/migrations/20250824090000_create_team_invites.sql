@@ -0,0 +1,194 @@
+-- Invite links and join requests. Players cannot add themselves to team_players,
+-- so joining goes through the functions below, which check the invite or the captain.
+
+CREATE TABLE public.team_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  created_by UUID NOT NULL REFERENCES public.profiles(id),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  single_use BOOLEAN NOT NULL DEFAULT false,
+  used_count INTEGER NOT NULL DEFAULT 0,
+  revoked BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.team_join_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  responded_by UUID REFERENCES public.profiles(id),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (team_id, player_id)
+);
+
+ALTER TABLE public.team_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_join_requests ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are only visible to the captain; everyone else looks an invite up by its token
+CREATE POLICY "Team captain can view invites"
+ON public.team_invites
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.teams t
+    WHERE t.id = team_id
+    AND t.captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Team captain can create invites"
+ON public.team_invites
+FOR INSERT
+WITH CHECK (
+  created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.teams t
+    WHERE t.id = team_id
+    AND t.captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Team captain can revoke invites"
+ON public.team_invites
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.teams t
+    WHERE t.id = team_id
+    AND t.captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Players and the team captain can view join requests"
+ON public.team_join_requests
+FOR SELECT
+USING (
+  player_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR EXISTS (
+    SELECT 1 FROM public.teams t
+    WHERE t.id = team_id
+    AND t.captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Players can withdraw their join requests"
+ON public.team_join_requests
+FOR DELETE
+USING (
+  player_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND status = 'pending'
+);
+
+-- What someone opening an invite link sees before they accept it
+CREATE OR REPLACE FUNCTION public.get_team_invite(invite_token TEXT)
+RETURNS TABLE (
+  team_id UUID,
+  team_name TEXT,
+  logo_url TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_valid BOOLEAN
+) AS $$
+  SELECT
+    t.id,
+    t.name,
+    t.logo_url,
+    i.expires_at,
+    NOT i.revoked AND i.expires_at > now() AND NOT (i.single_use AND i.used_count > 0)
+  FROM public.team_invites i
+  JOIN public.teams t ON t.id = i.team_id
+  WHERE i.token = get_team_invite.invite_token;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Adds the signed-in player to the team of a valid invite and returns the team id
+CREATE OR REPLACE FUNCTION public.accept_team_invite(invite_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+  invite public.team_invites;
+  profile_id UUID;
+BEGIN
+  SELECT id INTO profile_id FROM public.profiles WHERE user_id = auth.uid();
+  IF profile_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a team';
+  END IF;
+
+  SELECT * INTO invite FROM public.team_invites WHERE token = invite_token FOR UPDATE;
+  IF invite.id IS NULL
+    OR invite.revoked
+    OR invite.expires_at <= now()
+    OR (invite.single_use AND invite.used_count > 0) THEN
+    RAISE EXCEPTION 'This invite link is no longer valid';
+  END IF;
+
+  INSERT INTO public.team_players (team_id, player_id, role)
+  VALUES (invite.team_id, profile_id, 'player')
+  ON CONFLICT (team_id, player_id) DO NOTHING;
+
+  IF FOUND THEN
+    UPDATE public.team_invites SET used_count = used_count + 1 WHERE id = invite.id;
+  END IF;
+
+  UPDATE public.team_join_requests
+  SET status = 'approved', responded_at = now()
+  WHERE team_id = invite.team_id AND player_id = profile_id AND status = 'pending';
+
+  RETURN invite.team_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Puts the signed-in player in the captain's queue. A rejected player can ask again.
+CREATE OR REPLACE FUNCTION public.request_to_join_team(join_team_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  profile_id UUID;
+BEGIN
+  SELECT id INTO profile_id FROM public.profiles WHERE user_id = auth.uid();
+  IF profile_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join a team';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.team_players WHERE team_id = join_team_id AND player_id = profile_id) THEN
+    RAISE EXCEPTION 'You are already in this team';
+  END IF;
+
+  INSERT INTO public.team_join_requests (team_id, player_id)
+  VALUES (join_team_id, profile_id)
+  ON CONFLICT (team_id, player_id) DO UPDATE
+  SET status = 'pending', responded_by = NULL, responded_at = NULL, created_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The captain approves (adding the player to the squad) or rejects a join request
+CREATE OR REPLACE FUNCTION public.respond_to_join_request(request_id UUID, approve BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  request public.team_join_requests;
+  profile_id UUID;
+BEGIN
+  SELECT id INTO profile_id FROM public.profiles WHERE user_id = auth.uid();
+
+  SELECT r.* INTO request
+  FROM public.team_join_requests r
+  JOIN public.teams t ON t.id = r.team_id
+  WHERE r.id = request_id AND r.status = 'pending' AND t.captain_id = profile_id
+  FOR UPDATE OF r;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  UPDATE public.team_join_requests
+  SET status = CASE WHEN approve THEN 'approved' ELSE 'rejected' END,
+      responded_by = profile_id,
+      responded_at = now()
+  WHERE id = request.id;
+
+  IF approve THEN
+    INSERT INTO public.team_players (team_id, player_id, role)
+    VALUES (request.team_id, request.player_id, 'player')
+    ON CONFLICT (team_id, player_id) DO NOTHING;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
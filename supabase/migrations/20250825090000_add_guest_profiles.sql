@@ -0,0 +1,142 @@
+-- Guest players: profiles without an account, so players who have not signed up can be
+-- put on a team and scored like anyone else. When the real person signs up they claim the
+-- guest profile with a code from whoever added them, and its history moves to their profile.
+ALTER TABLE public.profiles
+ALTER COLUMN user_id DROP NOT NULL,
+ADD COLUMN is_guest BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD CONSTRAINT profiles_guest_has_no_user CHECK (is_guest = (user_id IS NULL));
+
+-- Profiles are readable by everyone, so claim codes live in their own table
+CREATE TABLE public.guest_profile_claims (
+  profile_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.guest_profile_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can create guest profiles"
+ON public.profiles
+FOR INSERT
+WITH CHECK (
+  is_guest
+  AND user_id IS NULL
+  AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update the guest profiles they created"
+ON public.profiles
+FOR UPDATE
+USING (
+  is_guest
+  AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Guest creators can view claim codes"
+ON public.guest_profile_claims
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles p
+    WHERE p.id = profile_id
+    AND p.created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  )
+);
+
+-- Every guest gets a claim code as it is created
+CREATE OR REPLACE FUNCTION public.create_guest_profile_claim()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.guest_profile_claims (profile_id) VALUES (NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_guest_profile_claim_on_insert
+AFTER INSERT ON public.profiles
+FOR EACH ROW
+WHEN (NEW.is_guest)
+EXECUTE FUNCTION public.create_guest_profile_claim();
+
+-- What someone opening a claim link sees before they claim it
+CREATE OR REPLACE FUNCTION public.get_guest_profile_claim(claim_code TEXT)
+RETURNS TABLE (
+  profile_id UUID,
+  name TEXT,
+  image_url TEXT
+) AS $$
+  SELECT p.id, p.name, p.image_url
+  FROM public.guest_profile_claims c
+  JOIN public.profiles p ON p.id = c.profile_id
+  WHERE c.code = get_guest_profile_claim.claim_code;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Moves everything recorded against a guest to the signed-in player's profile, fills in
+-- any details their profile is missing, then deletes the guest. Returns their profile id.
+CREATE OR REPLACE FUNCTION public.claim_guest_profile(claim_code TEXT)
+RETURNS UUID AS $$
+DECLARE
+  guest public.profiles;
+  profile_id UUID;
+BEGIN
+  SELECT id INTO profile_id FROM public.profiles WHERE user_id = auth.uid();
+  IF profile_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to claim a profile';
+  END IF;
+
+  SELECT p.* INTO guest
+  FROM public.guest_profile_claims c
+  JOIN public.profiles p ON p.id = c.profile_id
+  WHERE c.code = claim_code AND p.is_guest
+  FOR UPDATE OF p;
+
+  IF guest.id IS NULL THEN
+    RAISE EXCEPTION 'This claim link is no longer valid';
+  END IF;
+
+  -- Squads the player is already in keep their own row
+  DELETE FROM public.team_players g
+  WHERE g.player_id = guest.id
+  AND EXISTS (SELECT 1 FROM public.team_players t WHERE t.team_id = g.team_id AND t.player_id = profile_id);
+  UPDATE public.team_players SET player_id = profile_id WHERE player_id = guest.id;
+
+  DELETE FROM public.match_players g
+  WHERE g.player_id = guest.id
+  AND EXISTS (
+    SELECT 1 FROM public.match_players m
+    WHERE m.match_id = g.match_id AND m.team_id = g.team_id AND m.player_id = profile_id
+  );
+  UPDATE public.match_players SET player_id = profile_id WHERE player_id = guest.id;
+
+  DELETE FROM public.match_mvp_points g
+  WHERE g.player_id = guest.id
+  AND EXISTS (SELECT 1 FROM public.match_mvp_points m WHERE m.match_id = g.match_id AND m.player_id = profile_id);
+  UPDATE public.match_mvp_points SET player_id = profile_id WHERE player_id = guest.id;
+
+  UPDATE public.match_scores SET batsman_id = profile_id WHERE batsman_id = guest.id;
+  UPDATE public.match_scores SET bowler_id = profile_id WHERE bowler_id = guest.id;
+  UPDATE public.match_scores SET wicket_batsman_id = profile_id WHERE wicket_batsman_id = guest.id;
+  UPDATE public.match_scores SET wicket_fielder_id = profile_id WHERE wicket_fielder_id = guest.id;
+
+  UPDATE public.matches SET player_of_match_id = profile_id WHERE player_of_match_id = guest.id;
+  UPDATE public.matches SET current_bowler_id = profile_id WHERE current_bowler_id = guest.id;
+  UPDATE public.matches
+  SET current_batsmen = array_replace(current_batsmen, guest.id, profile_id)
+  WHERE guest.id = ANY(current_batsmen);
+
+  UPDATE public.teams SET captain_id = profile_id WHERE captain_id = guest.id;
+  DELETE FROM public.team_join_requests WHERE player_id = guest.id;
+
+  UPDATE public.profiles
+  SET name = COALESCE(name, guest.name),
+      image_url = COALESCE(image_url, guest.image_url),
+      batting_style = COALESCE(batting_style, guest.batting_style),
+      bowling_style = COALESCE(bowling_style, guest.bowling_style)
+  WHERE id = profile_id;
+
+  DELETE FROM public.profiles WHERE id = guest.id;
+
+  RETURN profile_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
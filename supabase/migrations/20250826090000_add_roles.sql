@@ -0,0 +1,406 @@
+-- Roles. Platform admins moderate teams, matches and profiles. A team's captain runs the
+-- team and, with the vice-captains, its roster. A match's owner and the scorers they assign
+-- record its balls. The checks live in the functions below so every policy agrees; they are
+-- SECURITY DEFINER so policies on team_players can read team_players without recursing.
+
+CREATE TABLE public.platform_admins (
+  profile_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.match_scorers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id UUID NOT NULL REFERENCES public.matches(id) ON DELETE CASCADE,
+  scorer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (match_id, scorer_id)
+);
+
+ALTER TABLE public.platform_admins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.match_scorers ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_platform_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.platform_admins a
+    JOIN public.profiles p ON p.id = a.profile_id
+    WHERE p.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Renaming, logos, deleting the team and choosing the next captain
+CREATE OR REPLACE FUNCTION public.is_team_captain(check_team_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_platform_admin() OR EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE id = check_team_id
+    AND captain_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Adding and removing players, roles below captain, invites and join requests
+CREATE OR REPLACE FUNCTION public.can_manage_team_roster(check_team_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_team_captain(check_team_id) OR EXISTS (
+    SELECT 1 FROM public.team_players
+    WHERE team_id = check_team_id
+    AND player_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND role IN ('captain', 'vice_captain')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Deleting the match, overriding Player of the Match and assigning scorers
+CREATE OR REPLACE FUNCTION public.can_manage_match(check_match_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_platform_admin() OR EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = check_match_id
+    AND created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Recording and correcting balls and moving the match along
+CREATE OR REPLACE FUNCTION public.can_score_match(check_match_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.can_manage_match(check_match_id) OR EXISTS (
+    SELECT 1 FROM public.match_scorers
+    WHERE match_id = check_match_id
+    AND scorer_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Admins are added from the dashboard, so there are no write policies
+CREATE POLICY "Anyone can view platform admins"
+ON public.platform_admins
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view match scorers"
+ON public.match_scorers
+FOR SELECT
+USING (true);
+
+-- Scorers need an account to sign in with, so guests cannot be assigned
+CREATE POLICY "Match owner can assign scorers"
+ON public.match_scorers
+FOR INSERT
+WITH CHECK (
+  public.can_manage_match(match_id)
+  AND EXISTS (SELECT 1 FROM public.profiles WHERE id = scorer_id AND NOT is_guest)
+);
+
+CREATE POLICY "Match owner can remove scorers"
+ON public.match_scorers
+FOR DELETE
+USING (public.can_manage_match(match_id));
+
+-- Profiles
+CREATE POLICY "Admins can moderate profiles"
+ON public.profiles
+FOR UPDATE
+USING (public.is_platform_admin());
+
+CREATE POLICY "Admins can delete profiles"
+ON public.profiles
+FOR DELETE
+USING (public.is_platform_admin());
+
+-- Teams. The original delete policy compared team_players.team_id with team_players.id,
+-- so it never matched; 20250823 already replaced the update policy for the same reason.
+DROP POLICY "Team captain can update team" ON public.teams;
+DROP POLICY "Team captain can delete team" ON public.teams;
+
+-- The check reads teams as they were before the update, so the captain can still hand the
+-- team to someone else
+CREATE POLICY "Team captain can update team"
+ON public.teams
+FOR UPDATE
+USING (public.is_team_captain(id))
+WITH CHECK (public.is_team_captain(id));
+
+CREATE POLICY "Team captain can delete team"
+ON public.teams
+FOR DELETE
+USING (public.is_team_captain(id));
+
+DROP POLICY "Team captain can add players" ON public.team_players;
+DROP POLICY "Team captain can update team players" ON public.team_players;
+DROP POLICY "Team captain can remove players" ON public.team_players;
+
+-- Vice-captains manage the roster but only the captain makes or unmakes a captain
+CREATE POLICY "Team captain and vice-captains can add players"
+ON public.team_players
+FOR INSERT
+WITH CHECK (
+  public.can_manage_team_roster(team_id)
+  AND (role IS DISTINCT FROM 'captain' OR public.is_team_captain(team_id))
+);
+
+CREATE POLICY "Team captain and vice-captains can update team players"
+ON public.team_players
+FOR UPDATE
+USING (
+  public.can_manage_team_roster(team_id)
+  AND (role IS DISTINCT FROM 'captain' OR public.is_team_captain(team_id))
+)
+WITH CHECK (
+  public.can_manage_team_roster(team_id)
+  AND (role IS DISTINCT FROM 'captain' OR public.is_team_captain(team_id))
+);
+
+CREATE POLICY "Team captain and vice-captains can remove players"
+ON public.team_players
+FOR DELETE
+USING (
+  public.can_manage_team_roster(team_id)
+  AND (role IS DISTINCT FROM 'captain' OR public.is_team_captain(team_id))
+);
+
+DROP POLICY "Team captain can view invites" ON public.team_invites;
+DROP POLICY "Team captain can create invites" ON public.team_invites;
+DROP POLICY "Team captain can revoke invites" ON public.team_invites;
+DROP POLICY "Players and the team captain can view join requests" ON public.team_join_requests;
+
+CREATE POLICY "Roster managers can view invites"
+ON public.team_invites
+FOR SELECT
+USING (public.can_manage_team_roster(team_id));
+
+CREATE POLICY "Roster managers can create invites"
+ON public.team_invites
+FOR INSERT
+WITH CHECK (
+  created_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND public.can_manage_team_roster(team_id)
+);
+
+CREATE POLICY "Roster managers can revoke invites"
+ON public.team_invites
+FOR UPDATE
+USING (public.can_manage_team_roster(team_id));
+
+CREATE POLICY "Players and roster managers can view join requests"
+ON public.team_join_requests
+FOR SELECT
+USING (
+  player_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  OR public.can_manage_team_roster(team_id)
+);
+
+CREATE OR REPLACE FUNCTION public.respond_to_join_request(request_id UUID, approve BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  request public.team_join_requests;
+  profile_id UUID;
+BEGIN
+  SELECT id INTO profile_id FROM public.profiles WHERE user_id = auth.uid();
+
+  SELECT r.* INTO request
+  FROM public.team_join_requests r
+  WHERE r.id = request_id AND r.status = 'pending'
+  FOR UPDATE;
+
+  IF request.id IS NULL OR NOT public.can_manage_team_roster(request.team_id) THEN
+    RAISE EXCEPTION 'Join request not found';
+  END IF;
+
+  UPDATE public.team_join_requests
+  SET status = CASE WHEN approve THEN 'approved' ELSE 'rejected' END,
+      responded_by = profile_id,
+      responded_at = now()
+  WHERE id = request.id;
+
+  IF approve THEN
+    INSERT INTO public.team_players (team_id, player_id, role)
+    VALUES (request.team_id, request.player_id, 'player')
+    ON CONFLICT (team_id, player_id) DO NOTHING;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP POLICY "Team captain can upload the team logo" ON storage.objects;
+DROP POLICY "Team captain can update the team logo" ON storage.objects;
+DROP POLICY "Team captain can delete the team logo" ON storage.objects;
+
+CREATE POLICY "Team captain can upload the team logo"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'team-logos'
+  AND EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE teams.id::text = (storage.foldername(name))[1]
+    AND public.is_team_captain(teams.id)
+  )
+);
+
+CREATE POLICY "Team captain can update the team logo"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'team-logos'
+  AND EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE teams.id::text = (storage.foldername(name))[1]
+    AND public.is_team_captain(teams.id)
+  )
+)
+WITH CHECK (
+  bucket_id = 'team-logos'
+  AND EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE teams.id::text = (storage.foldername(name))[1]
+    AND public.is_team_captain(teams.id)
+  )
+);
+
+CREATE POLICY "Team captain can delete the team logo"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'team-logos'
+  AND EXISTS (
+    SELECT 1 FROM public.teams
+    WHERE teams.id::text = (storage.foldername(name))[1]
+    AND public.is_team_captain(teams.id)
+  )
+);
+
+-- Matches. Scorers update the match as they go: crease, innings and result.
+DROP POLICY "Match creator can update match" ON public.matches;
+DROP POLICY "Match creator can delete match" ON public.matches;
+
+CREATE POLICY "Match owner and scorers can update match"
+ON public.matches
+FOR UPDATE
+USING (public.can_score_match(id))
+WITH CHECK (public.can_score_match(id));
+
+-- Scorers may only move the match along: the toss before play, the status from scheduled to
+-- in progress to completed, and the result once it is complete. The fixture itself (teams,
+-- overs, name, date, time, place and owner) and an overridden Player of the Match stay with
+-- the owner; the suggested pick is saved by whoever completes the match. Definer functions
+-- such as knockout advancement run as the table owner and make their own checks, so only
+-- changes made directly by signed-in users are guarded.
+CREATE OR REPLACE FUNCTION public.guard_match_owner_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') OR public.can_manage_match(OLD.id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.created_by IS DISTINCT FROM OLD.created_by
+    OR NEW.team_a_id IS DISTINCT FROM OLD.team_a_id
+    OR NEW.team_b_id IS DISTINCT FROM OLD.team_b_id
+    OR NEW.overs IS DISTINCT FROM OLD.overs
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.time IS DISTINCT FROM OLD.time
+    OR NEW.location IS DISTINCT FROM OLD.location
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only the match owner can change the match details';
+  END IF;
+
+  IF NEW.player_of_match_overridden IS DISTINCT FROM OLD.player_of_match_overridden
+    OR (OLD.player_of_match_overridden AND NEW.player_of_match_id IS DISTINCT FROM OLD.player_of_match_id) THEN
+    RAISE EXCEPTION 'Only the match owner can choose the Player of the Match';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'scheduled' AND NEW.status = 'in_progress')
+    OR (OLD.status = 'in_progress' AND NEW.status = 'completed')
+  ) THEN
+    RAISE EXCEPTION 'Scorers can only start and complete a match';
+  END IF;
+
+  IF (NEW.toss_winner_id IS DISTINCT FROM OLD.toss_winner_id
+    OR NEW.toss_decision IS DISTINCT FROM OLD.toss_decision)
+    AND OLD.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'The toss cannot change once the match has started';
+  END IF;
+
+  IF (NEW.result_type IS DISTINCT FROM OLD.result_type
+    OR NEW.winner_team_id IS DISTINCT FROM OLD.winner_team_id
+    OR NEW.result_margin IS DISTINCT FROM OLD.result_margin
+    OR NEW.result_margin_type IS DISTINCT FROM OLD.result_margin_type
+    OR NEW.result_balls_remaining IS DISTINCT FROM OLD.result_balls_remaining)
+    AND (NEW.status <> 'completed' OR NEW.winner_team_id NOT IN (NEW.team_a_id, NEW.team_b_id)) THEN
+    RAISE EXCEPTION 'A result can only be saved for a completed match, with one of its teams as the winner';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_match_owner_columns_on_update
+BEFORE UPDATE ON public.matches
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_match_owner_columns();
+
+CREATE POLICY "Match owner can delete match"
+ON public.matches
+FOR DELETE
+USING (public.can_manage_match(id));
+
+DROP POLICY "Match creator or team captain can add match players" ON public.match_players;
+DROP POLICY "Match creator or team captain can update match players" ON public.match_players;
+
+CREATE POLICY "Match owner or roster managers can add match players"
+ON public.match_players
+FOR INSERT
+WITH CHECK (
+  public.can_manage_match(match_id)
+  OR public.can_manage_team_roster(team_id)
+);
+
+CREATE POLICY "Match owner or roster managers can update match players"
+ON public.match_players
+FOR UPDATE
+USING (
+  public.can_manage_match(match_id)
+  OR public.can_manage_team_roster(team_id)
+);
+
+DROP POLICY "Match creator or team captain can add match scores" ON public.match_scores;
+DROP POLICY "Match creator or team captain can update match scores" ON public.match_scores;
+DROP POLICY "Match creator or team captain can delete match scores" ON public.match_scores;
+
+CREATE POLICY "Scorers can add match scores"
+ON public.match_scores
+FOR INSERT
+WITH CHECK (public.can_score_match(match_id));
+
+CREATE POLICY "Scorers can update match scores"
+ON public.match_scores
+FOR UPDATE
+USING (public.can_score_match(match_id));
+
+CREATE POLICY "Scorers can delete match scores"
+ON public.match_scores
+FOR DELETE
+USING (public.can_score_match(match_id));
+
+DROP POLICY "Scorers can record their own edits" ON public.match_score_edits;
+
+CREATE POLICY "Scorers can record their own edits"
+ON public.match_score_edits
+FOR INSERT
+WITH CHECK (
+  edited_by = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+  AND public.can_score_match(match_id)
+);
+
+DROP POLICY "Match creator can add MVP points" ON public.match_mvp_points;
+DROP POLICY "Match creator can delete MVP points" ON public.match_mvp_points;
+
+-- Points are saved by whoever finishes or corrects the match
+CREATE POLICY "Scorers can add MVP points"
+ON public.match_mvp_points
+FOR INSERT
+WITH CHECK (public.can_score_match(match_id));
+
+CREATE POLICY "Scorers can delete MVP points"
+ON public.match_mvp_points
+FOR DELETE
+USING (public.can_score_match(match_id));
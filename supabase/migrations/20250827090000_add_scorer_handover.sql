@@ -0,0 +1,131 @@
+-- Scorer handover. A match is scored on one device at a time: the active scorer's. Scoring
+-- passes to another scorer together with the crease, so the next device carries on with the
+-- same striker, non-striker and bowler. While no one holds it, anyone who may score can start.
+ALTER TABLE public.matches
+ADD COLUMN active_scorer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- Only the active scorer records balls once someone holds the match. Balls a device queued
+-- offline after scoring passed elsewhere are refused, and the scorer decides what to do
+-- with them.
+DROP POLICY "Scorers can add match scores" ON public.match_scores;
+
+CREATE POLICY "Scorers can add match scores"
+ON public.match_scores
+FOR INSERT
+WITH CHECK (
+  public.can_score_match(match_id)
+  AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = match_scores.match_id
+    AND (
+      active_scorer_id IS NULL
+      OR active_scorer_id = (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    )
+  )
+);
+
+-- Scorers claim a match nobody holds for themselves; after that it moves by handover. Only
+-- the device holding the match saves the crease, so another one cannot overwrite it.
+CREATE OR REPLACE FUNCTION public.guard_active_scorer()
+RETURNS TRIGGER AS $$
+DECLARE
+  profile_id UUID;
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO profile_id FROM public.profiles WHERE user_id = auth.uid();
+
+  IF (NEW.current_batsmen IS DISTINCT FROM OLD.current_batsmen
+    OR NEW.current_bowler_id IS DISTINCT FROM OLD.current_bowler_id)
+    AND NEW.active_scorer_id IS DISTINCT FROM profile_id
+    AND NEW.active_scorer_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Only the active scorer can change the crease';
+  END IF;
+
+  IF public.can_manage_match(OLD.id) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.active_scorer_id IS DISTINCT FROM OLD.active_scorer_id AND NOT (
+    OLD.active_scorer_id IS NULL
+    AND NEW.active_scorer_id = profile_id
+  ) THEN
+    RAISE EXCEPTION 'Scoring can only be passed on by handing over';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_active_scorer_on_update
+BEFORE UPDATE ON public.matches
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_active_scorer();
+
+-- Passes scoring to the match owner or one of its scorers. The active scorer hands over, and
+-- the owner can take over from a device that has gone quiet. Empty crease arguments keep the
+-- crease as it was saved.
+CREATE OR REPLACE FUNCTION public.hand_over_scoring(
+  handover_match_id UUID,
+  to_scorer_id UUID,
+  batsmen UUID[] DEFAULT NULL,
+  bowler_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  handover_match public.matches;
+  profile_id UUID;
+BEGIN
+  SELECT id INTO profile_id FROM public.profiles WHERE user_id = auth.uid();
+
+  SELECT m.* INTO handover_match
+  FROM public.matches m
+  WHERE m.id = handover_match_id
+  FOR UPDATE;
+
+  IF handover_match.id IS NULL OR NOT public.can_score_match(handover_match.id) THEN
+    RAISE EXCEPTION 'Match not found';
+  END IF;
+
+  IF handover_match.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Scoring can only be handed over while the match is in progress';
+  END IF;
+
+  IF handover_match.active_scorer_id IS NOT NULL
+    AND handover_match.active_scorer_id <> profile_id
+    AND NOT public.can_manage_match(handover_match.id) THEN
+    RAISE EXCEPTION 'Another scorer is scoring this match';
+  END IF;
+
+  IF to_scorer_id <> handover_match.created_by AND NOT EXISTS (
+    SELECT 1 FROM public.match_scorers
+    WHERE match_id = handover_match.id AND scorer_id = to_scorer_id
+  ) THEN
+    RAISE EXCEPTION 'Scoring can only be handed to the match owner or one of its scorers';
+  END IF;
+
+  UPDATE public.matches
+  SET active_scorer_id = to_scorer_id,
+      current_batsmen = COALESCE(batsmen, current_batsmen),
+      current_bowler_id = COALESCE(hand_over_scoring.bowler_id, current_bowler_id)
+  WHERE id = handover_match.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A scorer who is taken off the match stops holding it
+CREATE OR REPLACE FUNCTION public.release_removed_scorer()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.matches
+  SET active_scorer_id = NULL
+  WHERE id = OLD.match_id AND active_scorer_id = OLD.scorer_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER release_removed_scorer_on_delete
+AFTER DELETE ON public.match_scorers
+FOR EACH ROW
+EXECUTE FUNCTION public.release_removed_scorer();